@@ -0,0 +1,77 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createProxyServer, loadConfig } from './index';
+import { createMockSpaceTrack, MockStats } from './mockSpaceTrack';
+
+const servers: Server[] = [];
+
+/**
+ * Listen on an ephemeral port and return the server's base URL
+ */
+async function start(server: Server): Promise<string> {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * The mock Space-Track server with the proxy in front of it
+ */
+async function startProxy(sessionTtl?: number): Promise<{ proxyUrl: string; stats: MockStats }> {
+  const mock = createMockSpaceTrack({ sessionTtl });
+  const baseUrl = await start(mock.server);
+  const config = { ...loadConfig({}), baseUrl, username: 'mock', password: 'mock' };
+  return { proxyUrl: await start(createProxyServer(config)), stats: mock.stats };
+}
+
+const getJson = async (url: string) => {
+  const response = await fetch(url);
+  return { status: response.status, body: await response.json() };
+};
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('Space-Track proxy against the mock server', () => {
+  it('logs in once and reuses the session cookie across queries', async () => {
+    const { proxyUrl, stats } = await startProxy();
+
+    expect((await getJson(`${proxyUrl}/gp?noradIds=25544`)).body[0].NORAD_CAT_ID).toBe('25544');
+    expect((await getJson(`${proxyUrl}/cdm?noradIds=25544`)).status).toBe(200);
+
+    expect(stats.logins).toBe(1);
+    expect(stats.queries).toBe(3); // gp, then cdm_public as SAT_1 and as SAT_2
+    expect((await getJson(`${proxyUrl}/health`)).body.authenticated).toBe(true);
+  });
+
+  it('logs in again when the session expires and Space-Track answers 401', async () => {
+    const { proxyUrl, stats } = await startProxy(50);
+
+    await getJson(`${proxyUrl}/gp?noradIds=25544`);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const { status, body } = await getJson(`${proxyUrl}/gp?noradIds=25544,43013`);
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    expect(stats.logins).toBe(2);
+  });
+
+  it('returns the union of CDMs where our objects are SAT_1 or SAT_2', async () => {
+    const { proxyUrl } = await startProxy();
+
+    // 25544 is SAT_1 of the first fixture, 43013 SAT_2 of the second
+    const { status, body } = await getJson(`${proxyUrl}/cdm?noradIds=25544,43013`);
+
+    expect(status).toBe(200);
+    expect(body.map((record: { CDM_ID: string }) => record.CDM_ID).sort()).toEqual(['900000001', '900000002']);
+  });
+
+  it('rejects malformed catalog number lists without querying Space-Track', async () => {
+    const { proxyUrl, stats } = await startProxy();
+
+    expect((await getJson(`${proxyUrl}/cdm?noradIds=25544;drop`)).status).toBe(400);
+    expect(stats.logins).toBe(0);
+  });
+});
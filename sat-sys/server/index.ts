@@ -0,0 +1,143 @@
+/**
+ * Space-Track proxy
+ * Keeps Space-Track credentials server-side and exposes cached /cdm and /gp endpoints to the front end
+ * Run with: npm run proxy
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { existsSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { RateLimitError, SpaceTrackClient, SpaceTrackConfig, SpaceTrackError, TtlCache } from './spaceTrack';
+
+export interface ProxyConfig extends SpaceTrackConfig {
+  port: number;
+  allowedOrigin: string;
+  cdmTtl: number; // ms
+  gpTtl: number; // ms
+}
+
+const MAX_IDS_PER_REQUEST = 100;
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ProxyConfig {
+  return {
+    baseUrl: env.SPACETRACK_BASE_URL || 'https://www.space-track.org',
+    username: env.SPACETRACK_USERNAME || '',
+    password: env.SPACETRACK_PASSWORD || '',
+    // Space-Track's published limits
+    perMinuteLimit: Number(env.SPACETRACK_PER_MINUTE_LIMIT) || 30,
+    perHourLimit: Number(env.SPACETRACK_PER_HOUR_LIMIT) || 300,
+    maxQueueWait: 10_000,
+    port: Number(env.PROXY_PORT) || 3001,
+    allowedOrigin: env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000',
+    cdmTtl: 10 * 60_000,
+    // GP data should be fetched at most once an hour per Space-Track guidance
+    gpTtl: 60 * 60_000
+  };
+}
+
+/**
+ * Parse a comma-separated list of NORAD catalog numbers
+ */
+function parseNoradIds(value: string | null): string[] | null {
+  if (!value || !/^\d+(,\d+)*$/.test(value)) return null;
+  const ids = [...new Set(value.split(','))];
+  return ids.length <= MAX_IDS_PER_REQUEST ? ids : null;
+}
+
+export function createProxyServer(config: ProxyConfig): Server {
+  const client = new SpaceTrackClient(config);
+  const cache = new TtlCache<unknown[]>();
+
+  const queryJson = (path: string, ttl: number) =>
+    cache.get(path, ttl, async () => JSON.parse(await client.query(path)) as unknown[]);
+
+  // Public CDMs for upcoming TCAs where any of the objects is either SAT_1 or SAT_2
+  const fetchCdms = async (ids: string[]) => {
+    const query = (field: string) =>
+      `/basicspacedata/query/class/cdm_public/${field}/${ids.join(',')}/TCA/%3Enow/orderby/TCA%20asc/format/json`;
+    const [asPrimary, asSecondary] = await Promise.all([
+      queryJson(query('SAT_1_ID'), config.cdmTtl),
+      queryJson(query('SAT_2_ID'), config.cdmTtl)
+    ]);
+
+    const byId = new Map<string, unknown>();
+    [...asPrimary, ...asSecondary].forEach(record => byId.set((record as { CDM_ID: string }).CDM_ID, record));
+    return [...byId.values()];
+  };
+
+  const fetchGp = (ids: string[]) =>
+    queryJson(`/basicspacedata/query/class/gp/NORAD_CAT_ID/${ids.join(',')}/orderby/NORAD_CAT_ID%20asc/format/json`, config.gpTtl);
+
+  const send = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': config.allowedOrigin,
+      ...headers
+    });
+    res.end(JSON.stringify(body));
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': config.allowedOrigin,
+        'Access-Control-Allow-Methods': 'GET, OPTIONS'
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') {
+      send(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    if (url.pathname === '/health') {
+      send(res, 200, { status: 'ok', authenticated: client.isAuthenticated, cachedQueries: cache.size });
+      return;
+    }
+
+    if (url.pathname !== '/cdm' && url.pathname !== '/gp') {
+      send(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    const ids = parseNoradIds(url.searchParams.get('noradIds'));
+    if (!ids) {
+      send(res, 400, { error: `noradIds must be 1-${MAX_IDS_PER_REQUEST} comma-separated catalog numbers` });
+      return;
+    }
+
+    try {
+      send(res, 200, url.pathname === '/cdm' ? await fetchCdms(ids) : await fetchGp(ids));
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        send(res, 429, { error: error.message }, { 'Retry-After': String(error.retryAfter) });
+      } else if (error instanceof SpaceTrackError) {
+        send(res, error.status, { error: error.message });
+      } else {
+        console.error('Proxy error:', error);
+        send(res, 500, { error: 'Internal proxy error' });
+      }
+    }
+  };
+
+  return createServer((req, res) => {
+    handle(req, res);
+  });
+}
+
+// Start the server when run directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  if (existsSync('.env')) process.loadEnvFile('.env');
+  const config = loadConfig();
+
+  if (!config.username || !config.password) {
+    console.warn('⚠️ SPACETRACK_USERNAME / SPACETRACK_PASSWORD not set - /cdm and /gp will return 503');
+  }
+
+  createProxyServer(config).listen(config.port, () => {
+    console.log(`🛰️ Space-Track proxy listening on http://localhost:${config.port} (upstream ${config.baseUrl})`);
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Local mock of the Space-Track.org API for developing and checking the proxy offline
+ * Run with: npm run proxy:mock, then start the proxy with SPACETRACK_BASE_URL=http://localhost:3002
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+
+export interface MockStats {
+  logins: number;
+  queries: number;
+}
+
+const GP_FIXTURES = [
+  {
+    OBJECT_NAME: 'ISS (ZARYA)',
+    OBJECT_ID: '1998-067A',
+    NORAD_CAT_ID: '25544',
+    EPOCH: '2008-09-20T12:25:40.104192',
+    MEAN_MOTION: '15.72125391',
+    ECCENTRICITY: '0.0006703',
+    INCLINATION: '51.6416',
+    RA_OF_ASC_NODE: '247.4627',
+    ARG_OF_PERICENTER: '130.5360',
+    MEAN_ANOMALY: '325.0288',
+    TLE_LINE0: '0 ISS (ZARYA)',
+    TLE_LINE1: '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927',
+    TLE_LINE2: '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537'
+  }
+];
+
+/**
+ * Public CDM summaries with TCAs relative to now, in Space-Track's cdm_public format
+ */
+function cdmFixtures() {
+  const tca = (hours: number) => new Date(Date.now() + hours * 3_600_000).toISOString().replace('Z', '');
+  return [
+    { CDM_ID: '900000001', CREATED: tca(-2), EMERGENCY_REPORTABLE: 'Y', TCA: tca(6), MIN_RNG: '142', PC: '0.0002314',
+      SAT_1_ID: '25544', SAT_1_NAME: 'ISS (ZARYA)', SAT1_OBJECT_TYPE: 'PAYLOAD', SAT1_RCS: 'LARGE', SAT_1_EXCL_VOL: '5.00',
+      SAT_2_ID: '49863', SAT_2_NAME: 'COSMOS 1408 DEB', SAT2_OBJECT_TYPE: 'DEBRIS', SAT2_RCS: 'SMALL', SAT_2_EXCL_VOL: '0.50' },
+    { CDM_ID: '900000002', CREATED: tca(-1), EMERGENCY_REPORTABLE: 'N', TCA: tca(30), MIN_RNG: '912', PC: '1.2e-07',
+      SAT_1_ID: '33442', SAT_1_NAME: 'FENGYUN 1C DEB', SAT1_OBJECT_TYPE: 'DEBRIS', SAT1_RCS: 'SMALL', SAT_1_EXCL_VOL: '0.50',
+      SAT_2_ID: '43013', SAT_2_NAME: 'STARLINK TEST', SAT2_OBJECT_TYPE: 'PAYLOAD', SAT2_RCS: 'MEDIUM', SAT_2_EXCL_VOL: '1.00' }
+  ];
+}
+
+export function createMockSpaceTrack(options: { sessionTtl?: number } = {}): { server: Server; stats: MockStats } {
+  const sessionTtl = options.sessionTtl ?? 2 * 3_600_000;
+  const sessions = new Map<string, number>(); // cookie -> expiry
+  const stats: MockStats = { logins: 0, queries: 0 };
+
+  const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+  });
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const json = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/mock/stats') {
+      json(200, stats);
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === '/ajaxauth/login') {
+      stats.logins++;
+      const form = new URLSearchParams(await readBody(req));
+      if (!form.get('identity') || !form.get('password')) {
+        json(200, { Login: 'Failed' });
+        return;
+      }
+      const session = randomUUID();
+      sessions.set(session, Date.now() + sessionTtl);
+      json(200, '', { 'Set-Cookie': `chocolatechip=${session}; path=/; HttpOnly` });
+      return;
+    }
+
+    const session = /chocolatechip=([^;]+)/.exec(req.headers.cookie ?? '')?.[1];
+    if (!session || (sessions.get(session) ?? 0) < Date.now()) {
+      json(401, { error: 'You must be logged in to complete this action' });
+      return;
+    }
+
+    // /basicspacedata/query/class/<class>/<FIELD>/<ids>/...
+    const match = /^\/basicspacedata\/query\/class\/(\w+)\/(\w+)\/([\d,]+)/.exec(url.pathname);
+    if (!match) {
+      json(404, { error: 'Unknown query' });
+      return;
+    }
+
+    stats.queries++;
+    const [, requestClass, field, idList] = match;
+    const ids = idList.split(',');
+
+    if (requestClass === 'cdm_public') {
+      json(200, cdmFixtures().filter(record => ids.includes(record[field as 'SAT_1_ID' | 'SAT_2_ID'])));
+    } else if (requestClass === 'gp') {
+      json(200, GP_FIXTURES.filter(record => ids.includes(record.NORAD_CAT_ID)));
+    } else {
+      json(404, { error: `Unsupported class ${requestClass}` });
+    }
+  });
+
+  return { server, stats };
+}
+
+// Start the server when run directly
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_SPACETRACK_PORT) || 3002;
+  const sessionTtl = Number(process.env.MOCK_SPACETRACK_SESSION_TTL) * 1000 || undefined;
+  createMockSpaceTrack({ sessionTtl }).server.listen(port, () => {
+    console.log(`🧪 Mock Space-Track listening on http://localhost:${port}`);
+  });
+}
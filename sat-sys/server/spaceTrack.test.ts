@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter, RateLimitError, TtlCache } from './spaceTrack';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('allows requests up to each window limit, then reports when the oldest leaves the window', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new RateLimiter([{ limit: 2, duration: 60_000 }, { limit: 3, duration: 3_600_000 }]);
+
+    await limiter.acquire(0);
+    vi.setSystemTime(10_000);
+    await limiter.acquire(0);
+
+    expect(limiter.delayUntilAvailable(20_000)).toBe(40_000);
+    expect(limiter.delayUntilAvailable(60_000)).toBe(0);
+  });
+
+  it('applies the longer window once the shorter one has room', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new RateLimiter([{ limit: 2, duration: 60_000 }, { limit: 3, duration: 3_600_000 }]);
+
+    for (const time of [0, 1_000, 120_000]) {
+      vi.setSystemTime(time);
+      await limiter.acquire(0);
+    }
+
+    expect(limiter.delayUntilAvailable(200_000)).toBe(3_600_000 - 200_000);
+  });
+
+  it('throws RateLimitError when the wait exceeds the allowed queueing time', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new RateLimiter([{ limit: 1, duration: 60_000 }]);
+    await limiter.acquire(0);
+
+    const rejection = limiter.acquire(30_000);
+    await expect(rejection).rejects.toBeInstanceOf(RateLimitError);
+    await expect(rejection).rejects.toMatchObject({ retryAfter: 60 });
+  });
+
+  it('queues concurrent callers behind reserved slots', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const limiter = new RateLimiter([{ limit: 1, duration: 1_000 }]);
+    const order: number[] = [];
+
+    const first = limiter.acquire(5_000).then(() => order.push(Date.now()));
+    const second = limiter.acquire(5_000).then(() => order.push(Date.now()));
+    await vi.runAllTimersAsync();
+    await Promise.all([first, second]);
+
+    expect(order).toEqual([0, 1_000]);
+    expect(limiter.delayUntilAvailable(1_500)).toBe(500);
+  });
+});
+
+describe('TtlCache', () => {
+  it('serves cached values until the TTL expires', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const cache = new TtlCache<number>();
+    const load = vi.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    expect(await cache.get('gp', 1_000, load)).toBe(1);
+    vi.setSystemTime(999);
+    expect(await cache.get('gp', 1_000, load)).toBe(1);
+    vi.setSystemTime(1_000);
+    expect(await cache.get('gp', 1_000, load)).toBe(2);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one in-flight request between callers of the same key', async () => {
+    const cache = new TtlCache<string>();
+    let resolve!: (value: string) => void;
+    const load = vi.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const first = cache.get('cdm', 1_000, load);
+    const second = cache.get('cdm', 1_000, load);
+    resolve('response');
+
+    expect(await Promise.all([first, second])).toEqual(['response', 'response']);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.size).toBe(1);
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = new TtlCache<string>();
+    const load = vi.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValueOnce('up');
+
+    await expect(cache.get('gp', 1_000, load)).rejects.toThrow('down');
+    expect(await cache.get('gp', 1_000, load)).toBe('up');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
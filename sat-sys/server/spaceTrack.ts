@@ -0,0 +1,172 @@
+/**
+ * Space-Track.org client used by the proxy
+ * Handles login/session cookies, Space-Track's request limits and response caching
+ */
+
+export interface SpaceTrackConfig {
+  baseUrl: string;
+  username: string;
+  password: string;
+  perMinuteLimit: number;
+  perHourLimit: number;
+  maxQueueWait: number; // ms a request may wait for a rate-limit slot before being rejected
+}
+
+export class RateLimitError extends Error {
+  constructor(public retryAfter: number) { // seconds
+    super(`Space-Track rate limit reached, retry in ${retryAfter}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SpaceTrackError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = 'SpaceTrackError';
+  }
+}
+
+/**
+ * Sliding-window limiter enforcing several windows at once (e.g. 30/min and 300/hour)
+ */
+export class RateLimiter {
+  private timestamps: number[] = [];
+
+  constructor(private windows: Array<{ limit: number; duration: number }>) {}
+
+  /**
+   * Milliseconds until a request may be sent without exceeding any window
+   */
+  delayUntilAvailable(now: number = Date.now()): number {
+    const longest = Math.max(...this.windows.map(w => w.duration));
+    this.timestamps = this.timestamps.filter(t => now - t < longest);
+
+    return Math.max(0, ...this.windows.map(({ limit, duration }) => {
+      const inWindow = this.timestamps.filter(t => now - t < duration);
+      return inWindow.length < limit ? 0 : inWindow[inWindow.length - limit] + duration - now;
+    }));
+  }
+
+  /**
+   * Wait for a slot, or throw RateLimitError if the wait would exceed maxWait
+   */
+  async acquire(maxWait: number): Promise<void> {
+    const delay = this.delayUntilAvailable();
+    if (delay > maxWait) {
+      throw new RateLimitError(Math.ceil(delay / 1000));
+    }
+    // Reserve the slot now so concurrent callers queue behind it
+    this.timestamps.push(Date.now() + delay);
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Time-to-live cache that also shares in-flight requests for the same key
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, { value: T; expires: number }>();
+  private pending = new Map<string, Promise<T>>();
+
+  async get(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.value;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const request = load()
+      .then(value => {
+        this.entries.set(key, { value, expires: Date.now() + ttl });
+        return value;
+      })
+      .finally(() => this.pending.delete(key));
+    this.pending.set(key, request);
+    return request;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export class SpaceTrackClient {
+  private cookie: string | null = null;
+  private loginRequest: Promise<void> | null = null;
+  private limiter: RateLimiter;
+
+  constructor(private config: SpaceTrackConfig) {
+    this.limiter = new RateLimiter([
+      { limit: config.perMinuteLimit, duration: 60_000 },
+      { limit: config.perHourLimit, duration: 3_600_000 }
+    ]);
+  }
+
+  get isAuthenticated(): boolean {
+    return this.cookie !== null;
+  }
+
+  /**
+   * Log in and keep the session cookie; concurrent callers share one login
+   */
+  private login(): Promise<void> {
+    if (!this.config.username || !this.config.password) {
+      return Promise.reject(new SpaceTrackError('Space-Track credentials are not configured', 503));
+    }
+
+    this.loginRequest ??= (async () => {
+      await this.limiter.acquire(this.config.maxQueueWait);
+      const response = await fetch(`${this.config.baseUrl}/ajaxauth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ identity: this.config.username, password: this.config.password })
+      });
+      const body = await response.text();
+
+      // Space-Track answers failed logins with 200 and {"Login":"Failed"}
+      if (!response.ok || body.includes('"Login":"Failed"')) {
+        throw new SpaceTrackError('Space-Track login failed', 502);
+      }
+
+      const cookies = response.headers.getSetCookie().map(cookie => cookie.split(';')[0]);
+      if (cookies.length === 0) {
+        throw new SpaceTrackError('Space-Track login returned no session cookie', 502);
+      }
+      this.cookie = cookies.join('; ');
+    })().finally(() => {
+      this.loginRequest = null;
+    });
+
+    return this.loginRequest;
+  }
+
+  /**
+   * GET a query path (e.g. /basicspacedata/query/...), logging in again once if the session expired
+   */
+  async query(path: string): Promise<string> {
+    if (!this.cookie) await this.login();
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await this.limiter.acquire(this.config.maxQueueWait);
+      const response = await fetch(`${this.config.baseUrl}${path}`, {
+        headers: { Cookie: this.cookie ?? '' }
+      });
+
+      if (response.status === 401 && attempt === 0) {
+        this.cookie = null;
+        await this.login();
+        continue;
+      }
+      if (!response.ok) {
+        throw new SpaceTrackError(`Space-Track request failed: ${response.status} ${response.statusText}`);
+      }
+      return response.text();
+    }
+
+    throw new SpaceTrackError('Space-Track session could not be re-established', 502);
+  }
+}
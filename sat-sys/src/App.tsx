@@ -1,14 +1,31 @@
+import { useState } from "react";
 import { useSatelliteData } from "./hooks/useSatelliteData";
 import SatelliteForm from "./components/SatelliteForm";
+import KpChart from "./components/KpChart";
+import SolarWindPanel from "./components/SolarWindPanel";
+import RadiationPanel from "./components/RadiationPanel";
+import DragForecastPanel from "./components/DragForecastPanel";
 import SatelliteList from "./components/SatelliteList";
 import AlertPanel from "./components/AlertPanel";
 import SimulationControlPanel from "./components/SimulationControlPanel";
+import CdmExchangePanel from "./components/CdmExchangePanel";
+import GlobeView from "./components/GlobeView";
+import GroundTrackMap from "./components/GroundTrackMap";
+import GroundStationPanel from "./components/GroundStationPanel";
+import NotificationBanner, { Notification } from "./components/NotificationBanner";
+import ActionHistoryPanel from "./components/ActionHistoryPanel";
+import FleetExchangePanel from "./components/FleetExchangePanel";
 import { Satellite, SuggestedAction } from "./types/Satellite";
+import { actionImpulse } from "./utils/SatelliteSimulator";
 
 export default function App() {
   const { 
     satellites, 
     setSatellites, 
+    simulators,
+    groundStations,
+    setGroundStations,
+    contactWindows,
     alerts, 
     conjunctions,
     spaceWeatherAlerts,
@@ -18,17 +35,39 @@ export default function App() {
     loading, 
     isSimulationRunning,
     isOfflineMode,
+    kpHistory,
+    solarWind,
+    radiation,
+    solarFlux,
+    kpForecast,
+    dragForecasts,
+    simulationDate,
     startSimulation,
     stopSimulation,
+    checkActionFeasibility,
     executeAction,
+    acknowledgeAction,
+    actionLog,
+    rollbackAction,
+    operator,
+    setOperator,
+    settings,
+    setSettings,
     //dismissAlert,  // Changed from executeDismiss
-    predictCollisions
+    predictCollisions,
+    importConjunctions,
+    loadSatelliteGroup
   } = useSatelliteData();
+  const [notification, setNotification] = useState<Notification | null>(null);
 
   const handleAddSatellite = (satellite: Satellite) => {
     setSatellites([...satellites, satellite]);
   };
 
+  const handleImportFleet = (imported: Satellite[]) => {
+    setSatellites([...satellites, ...imported]);
+  };
+
   const handleRemoveSatellite = (id: string) => {
     setSatellites(satellites.filter(sat => sat.id !== id));
   };
@@ -40,9 +79,38 @@ export default function App() {
     // Find satellite for better messaging
     const satellite = satellites.find(s => s.id === satelliteId);
     const satelliteName = satellite?.name || satelliteId;
+
+    // Monitoring, power and attitude procedures have no burn for the simulator: acknowledge them instead
+    if (!actionImpulse(action)) {
+      acknowledgeAction(satelliteId, action);
+      setNotification({
+        kind: "success",
+        title: `📋 Procedure Acknowledged - ${satelliteName}`,
+        details: [
+          `Action Type: ${action.type.replace('_', ' ').toUpperCase()}`,
+          action.description
+        ]
+      });
+      return;
+    }
+
+    // Commands must reach the satellite in a ground contact before the action takes effect
+    const { assessment, action: scheduledAction } = checkActionFeasibility(satelliteId, action);
+    if (assessment.status === 'blocked') {
+      console.warn(`⛔ Action blocked for ${satelliteName}: ${assessment.reason}`);
+      setNotification({
+        kind: "error",
+        title: `⛔ Action Blocked - ${satelliteName}`,
+        details: [
+          `Action Type: ${action.type.replace('_', ' ').toUpperCase()}`,
+          assessment.reason
+        ]
+      });
+      return;
+    }
     
     // Execute the action via the hook
-    const success = executeAction(satelliteId, action);
+    const success = executeAction(satelliteId, scheduledAction);
     
     if (success) {
       console.log(`✅ Action executed successfully for ${satelliteName}`);
@@ -50,31 +118,56 @@ export default function App() {
       // Mark the alert as dismissed through hook (consistent source of truth)
       // const alertId = `conjunction-${satelliteId}-${action.id}`;
       // dismissAlert(alertId);
-      
-      // Show success notification
-      alert(`✅ Action Executed Successfully!
-
-Satellite: ${satelliteName}
-Action Type: ${action.type.replace('_', ' ').toUpperCase()}
-Description: ${action.description}
 
-${action.parameters?.deltaV ? `ΔV Applied: ${action.parameters.deltaV} m/s\n` : ''}${action.parameters?.burnDuration ? `Burn Duration: ${action.parameters.burnDuration}s\n` : ''}${action.estimatedFuelCost ? `Fuel Used: ${action.estimatedFuelCost} kg\n` : ''}
-The satellite's orbit has been modified and the alert has been dismissed.`);
+      const parameters = scheduledAction.parameters;
+      setNotification({
+        kind: assessment.status === 'rescheduled' ? "warning" : "success",
+        title: assessment.status === 'rescheduled'
+          ? `🕒 Action Rescheduled - ${satelliteName}`
+          : `✅ Action Executed Successfully - ${satelliteName}`,
+        details: [
+          `Action Type: ${scheduledAction.type.replace('_', ' ').toUpperCase()}`,
+          scheduledAction.description,
+          `📡 ${assessment.reason}`,
+          ...(parameters?.deltaV ? [`ΔV Applied: ${parameters.deltaV.toFixed(3)} m/s`] : []),
+          ...(parameters?.burnDuration ? [`Burn Duration: ${parameters.burnDuration.toFixed(1)} s`] : []),
+          ...(scheduledAction.estimatedFuelCost ? [`Fuel Used: ${scheduledAction.estimatedFuelCost.toFixed(3)} kg`] : [])
+        ]
+      });
     } else {
       console.error(`❌ Failed to execute action for ${satelliteName}`);
       
       // Show error notification with helpful guidance
-      alert(`❌ Failed to Execute Action
-
-Satellite: ${satelliteName}
-
-Possible reasons:
-• Simulator not initialized yet
-• Simulation needs to be started first
-• Invalid action parameters
+      setNotification({
+        kind: "error",
+        title: `❌ Failed to Execute Action - ${satelliteName}`,
+        details: [
+          "The satellite's simulator is not initialized yet.",
+          "Try starting the simulation and wait a few seconds before executing actions."
+        ]
+      });
+    }
+  };
 
-Try starting the simulation and wait a few seconds before executing actions.`);
+  const handleRollbackAction = (entryId: string) => {
+    const entry = actionLog.find(e => e.id === entryId);
+    if (!entry || !rollbackAction(entryId)) {
+      setNotification({
+        kind: "error",
+        title: "❌ Rollback Failed",
+        details: ["The maneuver is no longer part of the current simulation."]
+      });
+      return;
     }
+    setNotification({
+      kind: "success",
+      title: `↩️ Maneuver Rolled Back - ${entry.satelliteName}`,
+      details: [
+        `Action Type: ${entry.action.type.replace('_', ' ').toUpperCase()}`,
+        "The pre-burn trajectory is restored; later maneuvers of this satellite were rolled back too.",
+        ...(entry.fuelUsed > 0 ? [`Propellant Refunded (this maneuver): ${entry.fuelUsed.toFixed(3)} kg`] : [])
+      ]
+    });
   };
 
   const handleDismissAlert = (alertId: string) => {
@@ -121,22 +214,47 @@ Try starting the simulation and wait a few seconds before executing actions.`);
           </p>
         </header>
 
+        <NotificationBanner notification={notification} onDismiss={() => setNotification(null)} />
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
           {/* Left Column - Satellite Management */}
           <div className="xl:col-span-1 space-y-6">
-            <SatelliteForm onAdd={handleAddSatellite} />
+            <SatelliteForm onAdd={handleAddSatellite} onLoadGroup={loadSatelliteGroup} />
+            <FleetExchangePanel satellites={satellites} onImport={handleImportFleet} />
             <SimulationControlPanel
               isSimulationRunning={isSimulationRunning}
               onStartSimulation={startSimulation}
               onStopSimulation={stopSimulation}
               onPredictCollisions={predictCollisions}
               satelliteCount={satellites.length}
+              simulationDate={simulationDate}
+              settings={settings}
+              onChangeSettings={setSettings}
+            />
+            <GroundStationPanel
+              groundStations={groundStations}
+              onChangeStations={setGroundStations}
+              contactWindows={contactWindows}
+              satellites={satellites}
+              simulationDate={simulationDate}
             />
           </div>
 
           {/* Right Column - Monitoring and Alerts */}
           <div className="xl:col-span-2 space-y-6">
+            <GlobeView
+              satellites={satellites}
+              simulators={simulators}
+              conjunctions={activeConjunctions}
+              simulationDate={simulationDate}
+            />
+            <GroundTrackMap
+              satellites={satellites}
+              simulators={simulators}
+              simulationDate={simulationDate}
+              groundStations={groundStations}
+            />
             <SatelliteList 
               satellites={satellites} 
               onRemove={handleRemoveSatellite}
@@ -146,9 +264,28 @@ Try starting the simulation and wait a few seconds before executing actions.`);
               alerts={alerts}
               conjunctions={activeConjunctions}
               spaceWeatherAlerts={activeSpaceWeatherAlerts}
+              contactWindows={contactWindows}
+              simulationDate={simulationDate}
               onExecuteAction={handleExecuteAction}
               onDismissAlert={handleDismissAlert}
             />
+            <KpChart kpHistory={kpHistory} />
+            <SolarWindPanel solarWind={solarWind} />
+            <RadiationPanel radiation={radiation} satellites={satellites} />
+            <DragForecastPanel dragForecasts={dragForecasts} satellites={satellites} kpHistory={kpHistory} solarFlux={solarFlux} kpForecast={kpForecast} />
+            <ActionHistoryPanel
+              actionLog={actionLog}
+              satellites={satellites}
+              simulators={simulators}
+              operator={operator}
+              onChangeOperator={setOperator}
+              onRollback={handleRollbackAction}
+            />
+            <CdmExchangePanel
+              satellites={satellites}
+              conjunctions={conjunctions}
+              onImport={importConjunctions}
+            />
           </div>
         </div>
 
@@ -158,7 +295,7 @@ Try starting the simulation and wait a few seconds before executing actions.`);
             <div className="mb-4 p-3 bg-yellow-900 border border-yellow-600 rounded-lg">
               <div className="flex items-center justify-center space-x-2">
                 <span className="text-yellow-400">⚠️</span>
-                <span className="text-yellow-200 font-medium">Offline Mode: Using cached/mock data due to network connectivity issues</span>
+                <span className="text-yellow-200 font-medium">Offline Mode: A data feed is unreachable - showing the last conjunctions received and cached element sets</span>
               </div>
             </div>
           )}
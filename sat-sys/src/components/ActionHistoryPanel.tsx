@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { ActionLogEntry, Satellite, StateVector } from "../types/Satellite";
+import { SatelliteSimulator } from "../utils/SatelliteSimulator";
+
+interface Props {
+  actionLog: ActionLogEntry[];
+  satellites: Satellite[];
+  simulators: Map<string, SatelliteSimulator>;
+  operator: string;
+  onChangeOperator: (operator: string) => void;
+  onRollback: (entryId: string) => void;
+}
+
+const formatTime = (iso: string) => iso.replace('T', ' ').slice(0, 19);
+
+const formatState = (state: StateVector) =>
+  `r (${state.position.x.toFixed(3)}, ${state.position.y.toFixed(3)}, ${state.position.z.toFixed(3)}) km • ` +
+  `v (${state.velocity.x.toFixed(5)}, ${state.velocity.y.toFixed(5)}, ${state.velocity.z.toFixed(5)}) km/s`;
+
+export default function ActionHistoryPanel({ actionLog, satellites, simulators, operator, onChangeOperator, onRollback }: Props) {
+  const [satelliteFilter, setSatelliteFilter] = useState("all");
+  const [expandedEntries, setExpandedEntries] = useState<Set<string>>(new Set());
+  const [pendingRollback, setPendingRollback] = useState<string | null>(null);
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expandedEntries);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExpandedEntries(next);
+  };
+
+  // Only maneuvers still present in this session's simulation can be rolled back
+  const canRollback = (entry: ActionLogEntry) =>
+    entry.status === 'executed' &&
+    (simulators.get(entry.satelliteId)?.getManeuvers().some(m => m.id === entry.id) ?? false);
+
+  // Rolling back a maneuver also rolls back every later one of the same satellite
+  const rollbackCascade = (entry: ActionLogEntry): ActionLogEntry[] => {
+    const maneuvers = simulators.get(entry.satelliteId)?.getManeuvers() ?? [];
+    const index = maneuvers.findIndex(m => m.id === entry.id);
+    if (index === -1) return [];
+    return maneuvers.slice(index)
+      .map(m => actionLog.find(e => e.id === m.id))
+      .filter((e): e is ActionLogEntry => e !== undefined);
+  };
+
+  const confirmRollback = (entryId: string) => {
+    setPendingRollback(null);
+    onRollback(entryId);
+  };
+
+  const entries = actionLog
+    .filter(entry => satelliteFilter === "all" || entry.satelliteId === satelliteFilter)
+    .slice()
+    .reverse();
+
+  return (
+    <div className="p-6 border rounded-lg bg-white space-y-4">
+      <h2 className="text-2xl font-bold">📜 Action History</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Operator</label>
+          <input
+            placeholder="Your name or call sign"
+            value={operator}
+            onChange={e => onChangeOperator(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Satellite</label>
+          <select
+            value={satelliteFilter}
+            onChange={e => setSatelliteFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All satellites</option>
+            {satellites.map(sat => (
+              <option key={sat.id} value={sat.id}>{sat.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No actions executed yet.</p>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map(entry => {
+            const isExpanded = expandedEntries.has(entry.id);
+            const rolledBack = entry.status === 'rolled_back';
+            const cascade = pendingRollback === entry.id ? rollbackCascade(entry) : [];
+            return (
+              <div key={entry.id} className={`p-3 rounded-md border text-sm ${rolledBack ? 'bg-gray-100 text-gray-500' : 'bg-gray-50'}`}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-medium">
+                      {entry.action.type.replace('_', ' ').toUpperCase()} • {entry.satelliteName}
+                      {rolledBack && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-300 text-gray-700">rolled back</span>}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {formatTime(entry.executedAt)} UTC by {entry.operator}
+                      {entry.deltaV > 0 && ` • ΔV ${entry.deltaV.toFixed(3)} m/s • ${entry.fuelUsed.toFixed(3)} kg`}
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button onClick={() => toggleExpanded(entry.id)} className="text-xs underline hover:no-underline">
+                      {isExpanded ? 'Hide' : 'Details'}
+                    </button>
+                    {canRollback(entry) && pendingRollback !== entry.id && (
+                      <button
+                        onClick={() => setPendingRollback(entry.id)}
+                        className="px-2 py-1 rounded text-xs font-medium bg-orange-600 text-white hover:bg-orange-700"
+                      >
+                        Roll Back
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {cascade.length > 0 && (
+                  <div className="mt-2 p-2 rounded border border-orange-300 bg-orange-50 text-xs text-orange-900">
+                    <div className="font-medium">
+                      Rolling back restores the pre-burn trajectory and undoes {cascade.length} maneuver(s) of {entry.satelliteName}:
+                    </div>
+                    <ul className="ml-4 mt-1 list-disc">
+                      {cascade.map(e => (
+                        <li key={e.id}>
+                          {e.action.type.replace('_', ' ')} • burn {formatTime(e.burnTime ?? e.executedAt)} UTC • ΔV {e.deltaV.toFixed(3)} m/s
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="mt-1">
+                      Propellant refunded: {cascade.reduce((sum, e) => sum + e.fuelUsed, 0).toFixed(3)} kg
+                    </div>
+                    <div className="mt-2 flex space-x-2">
+                      <button
+                        onClick={() => confirmRollback(entry.id)}
+                        className="px-2 py-1 rounded text-xs font-medium bg-orange-600 text-white hover:bg-orange-700"
+                      >
+                        Confirm Roll Back
+                      </button>
+                      <button onClick={() => setPendingRollback(null)} className="px-2 py-1 rounded text-xs border border-orange-300 hover:bg-orange-100">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {isExpanded && (
+                  <div className="mt-2 space-y-1 text-xs">
+                    <div>{entry.action.description}</div>
+                    {entry.conjunctionId && <div>Conjunction: <span className="font-mono">{entry.conjunctionId}</span></div>}
+                    {entry.burnTime && <div>Burn Time: {formatTime(entry.burnTime)} UTC</div>}
+                    {entry.preBurnState && <div className="font-mono">Pre-burn: {formatState(entry.preBurnState)}</div>}
+                    {entry.postBurnState && <div className="font-mono">Post-burn: {formatState(entry.postBurnState)}</div>}
+                    {rolledBack && entry.rolledBackAt && (
+                      <div>Rolled back {formatTime(entry.rolledBackAt)} UTC by {entry.rolledBackBy}</div>
+                    )}
+                    {entry.status === 'executed' && !canRollback(entry) && (
+                      <div className="text-gray-500">Not part of the current simulation (earlier session or superseded by a later maneuver)</div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
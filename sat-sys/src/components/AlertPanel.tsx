@@ -1,15 +1,18 @@
 import { useState } from "react";
-import { ConjunctionEvent, SpaceWeatherAlert, SuggestedAction } from "../types/Satellite";
+import { ContactWindow, ConjunctionEvent, SpaceWeatherAlert, SuggestedAction } from "../types/Satellite";
+import { nextContactBefore } from "../utils/passPrediction";
 
 interface Props {
   alerts: string[];
   conjunctions: ConjunctionEvent[];
   spaceWeatherAlerts: SpaceWeatherAlert[];
+  contactWindows?: ContactWindow[];
+  simulationDate?: Date;
   onExecuteAction?: (satelliteId: string, action: SuggestedAction) => void;
   onDismissAlert?: (alertId: string) => void;
 }
 
-export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, onExecuteAction, onDismissAlert }: Props) {
+export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, contactWindows, simulationDate, onExecuteAction, onDismissAlert }: Props) {
   const [expandedAlerts, setExpandedAlerts] = useState<Set<string>>(new Set());
 
   const toggleExpanded = (alertId: string) => {
@@ -22,6 +25,12 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
     setExpandedAlerts(newExpanded);
   };
 
+  // First ground contact in which the action could be uplinked before its burn (or TCA)
+  const uplinkContact = (conjunction: ConjunctionEvent) => {
+    const deadline = new Date(conjunction.suggestedAction?.parameters?.burnTime ?? conjunction.tca);
+    return nextContactBefore(contactWindows ?? [], conjunction.satelliteId, simulationDate ?? new Date(), deadline);
+  };
+
   const getAlertSeverity = (alert: string) => {
     if (alert.includes('HIGH RISK') || alert.includes('FAST CME') || alert.includes('CRITICAL')) {
       return 'critical';
@@ -56,7 +65,7 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
   };
 
   const formatTimeToTCA = (tca: string) => {
-    const timeUntil = new Date(tca).getTime() - Date.now();
+    const timeUntil = new Date(tca).getTime() - (simulationDate ?? new Date()).getTime();
     const hoursUntil = Math.round(timeUntil / (1000 * 60 * 60));
     const minutesUntil = Math.round(timeUntil / (1000 * 60));
     
@@ -146,8 +155,17 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                         <span className="font-medium">Miss Distance:</span> {conjunction.missDistance} km
                       </div>
                       <div>
-                        <span className="font-medium">Relative Velocity:</span> {conjunction.relativeVelocity} km/s
+                        <span className="font-medium">Relative Velocity:</span> {conjunction.relativeVelocity > 0 ? `${conjunction.relativeVelocity} km/s` : 'N/A'}
                       </div>
+                      <div>
+                        <span className="font-medium">Collision Probability:</span> {conjunction.probability.toExponential(2)}
+                        {conjunction.pcMethod && ` (${conjunction.pcMethod === 'chan' ? 'Chan' : 'Foster'})`}
+                      </div>
+                      {conjunction.combinedHardBodyRadius && (
+                        <div>
+                          <span className="font-medium">Combined Hard-Body Radius:</span> {conjunction.combinedHardBodyRadius} m
+                        </div>
+                      )}
                     </div>
 
                     {conjunction.suggestedAction && (
@@ -163,6 +181,19 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                         </div>
                         
                         <p className="text-sm mb-2">{conjunction.suggestedAction.description}</p>
+
+                        {contactWindows && (() => {
+                          const contact = uplinkContact(conjunction);
+                          return contact ? (
+                            <p className="text-sm mb-2">
+                              📡 Uplink via {contact.stationName} from {contact.aos.replace('T', ' ').slice(0, 19)} UTC (max elevation {contact.maxElevation.toFixed(1)}°)
+                            </p>
+                          ) : (
+                            <p className="text-sm mb-2 font-medium">
+                              📡 No ground contact predicted before the {conjunction.suggestedAction.parameters?.burnTime ? 'burn' : 'TCA'} in the next 24h
+                            </p>
+                          );
+                        })()}
                         
                         {isExpanded && (
                           <div className="space-y-2 text-sm">
@@ -171,11 +202,11 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                                 <span className="font-medium">Priority:</span> {conjunction.suggestedAction.priority}
                               </div>
                               <div>
-                                <span className="font-medium">Success Probability:</span> {(conjunction.suggestedAction.successProbability || 0) * 100}%
+                                <span className="font-medium">Success Probability:</span> {Number(((conjunction.suggestedAction.successProbability || 0) * 100).toFixed(4))}%
                               </div>
                               {conjunction.suggestedAction.estimatedFuelCost && (
                                 <div>
-                                  <span className="font-medium">Fuel Cost:</span> {conjunction.suggestedAction.estimatedFuelCost} kg
+                                  <span className="font-medium">Fuel Cost:</span> {conjunction.suggestedAction.estimatedFuelCost.toFixed(3)} kg
                                 </div>
                               )}
                               {conjunction.suggestedAction.estimatedTimeToExecute && (
@@ -189,11 +220,23 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                               <div className="mt-2">
                                 <span className="font-medium">Parameters:</span>
                                 <div className="ml-4 space-y-1">
+                                  {conjunction.suggestedAction.parameters.burnDirection && (
+                                    <div>Direction: {conjunction.suggestedAction.parameters.burnDirection.replace('_', ' ')}</div>
+                                  )}
+                                  {conjunction.suggestedAction.parameters.burnTime && (
+                                    <div>Burn Time: {conjunction.suggestedAction.parameters.burnTime.replace('T', ' ').slice(0, 19)} UTC</div>
+                                  )}
                                   {conjunction.suggestedAction.parameters.deltaV && (
-                                    <div>ΔV: {conjunction.suggestedAction.parameters.deltaV} m/s</div>
+                                    <div>ΔV: {conjunction.suggestedAction.parameters.deltaV.toFixed(3)} m/s</div>
                                   )}
                                   {conjunction.suggestedAction.parameters.burnDuration && (
-                                    <div>Burn Duration: {conjunction.suggestedAction.parameters.burnDuration} s</div>
+                                    <div>Burn Duration: {conjunction.suggestedAction.parameters.burnDuration.toFixed(1)} s</div>
+                                  )}
+                                  {conjunction.suggestedAction.parameters.expectedMissDistance !== undefined && (
+                                    <div>Expected Miss Distance: {conjunction.suggestedAction.parameters.expectedMissDistance.toFixed(3)} km</div>
+                                  )}
+                                  {conjunction.suggestedAction.parameters.expectedProbability !== undefined && (
+                                    <div>Expected Pc: {conjunction.suggestedAction.parameters.expectedProbability.toExponential(2)}</div>
                                   )}
                                 </div>
                               </div>
@@ -244,7 +287,7 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                   <div className="flex-1">
                     <div className="flex items-center space-x-2 mb-2">
                       <h3 className="font-semibold">
-                        {alert.type === 'cme' ? '☀️' : alert.type === 'geomagnetic' ? '🌪️' : '⚠️'} 
+                        {alert.type === 'cme' ? '☀️' : alert.type === 'geomagnetic' ? '🌪️' : alert.type === 'radiation' ? '☢️' : alert.type === 'solar_wind' ? '🌬️' : '⚠️'} 
                         {alert.type.replace('_', ' ').toUpperCase()}: {alert.message}
                       </h3>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getActionPriorityColor(alert.severity)} text-white`}>
@@ -263,6 +306,37 @@ export default function AlertPanel({ alerts, conjunctions, spaceWeatherAlerts, o
                       )}
                     </div>
 
+                    {/* Per-satellite impact, most affected first */}
+                    {alert.impacts && alert.impacts.length > 0 && (
+                      <div className="mb-3 space-y-2 text-sm">
+                        <h4 className="font-medium">Impact by Satellite</h4>
+                        {alert.impacts.map(impact => (
+                          <div key={impact.satelliteId} className="p-2 rounded bg-white bg-opacity-60">
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center space-x-2">
+                                <span className="font-semibold">{impact.satelliteId}</span>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getActionPriorityColor(impact.severity)} text-white`}>
+                                  {impact.score.toFixed(1)}/10
+                                </span>
+                              </div>
+                              <button
+                                onClick={() => handleExecuteAction(impact.satelliteId, impact.suggestedAction)}
+                                className="px-2 py-0.5 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-700"
+                              >
+                                {impact.suggestedAction.type.replace('_', ' ')}
+                              </button>
+                            </div>
+                            <ul className="mt-1 text-xs list-disc ml-4">
+                              {impact.factors.filter(factor => factor.score >= 1).map(factor => (
+                                <li key={factor.factor}>{factor.description} ({factor.score.toFixed(1)})</li>
+                              ))}
+                            </ul>
+                            <p className="mt-1 text-xs italic">{impact.suggestedAction.description}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     {alert.suggestedAction && (
                       <div className="mt-3 pt-3 border-t border-current border-opacity-20">
                         <div className="flex items-center justify-between mb-2">
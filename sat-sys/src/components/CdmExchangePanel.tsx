@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { ConjunctionEvent, Satellite } from "../types/Satellite";
+import { CdmFormat, cdmToConjunction, exportConjunctionAsCdm, parseCdm } from "../utils/cdm";
+
+interface Props {
+  satellites: Satellite[];
+  conjunctions: ConjunctionEvent[];
+  onImport: (events: ConjunctionEvent[]) => void;
+}
+
+interface ImportResult {
+  fileName: string;
+  error?: string;
+}
+
+export default function CdmExchangePanel({ satellites, conjunctions, onImport }: Props) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Only our own screenings are exported; feed and imported events came from elsewhere
+  const exportable = conjunctions.filter(c => c.source === 'screening');
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const events: ConjunctionEvent[] = [];
+    const fileResults: ImportResult[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        events.push(cdmToConjunction(parseCdm(await file.text())));
+        fileResults.push({ fileName: file.name });
+      } catch (error) {
+        fileResults.push({ fileName: file.name, error: error instanceof Error ? error.message : 'Unreadable file' });
+      }
+    }
+
+    setResults(fileResults);
+    if (events.length > 0) onImport(events);
+  };
+
+  const handleExport = (conjunction: ConjunctionEvent, format: CdmFormat) => {
+    const primaryName = satellites.find(sat => sat.id === conjunction.satelliteId)?.name;
+    let content: string;
+    try {
+      content = exportConjunctionAsCdm(conjunction, format, primaryName);
+    } catch (error) {
+      setExportError(`${conjunction.satelliteId} vs ${conjunction.objectName}: ${error instanceof Error ? error.message : 'export failed'}`);
+      return;
+    }
+    setExportError(null);
+    const blob = new Blob([content], { type: format === 'xml' ? 'application/xml' : 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${conjunction.id}.cdm${format === 'xml' ? '.xml' : ''}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">📄 Conjunction Data Messages</h2>
+
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+        className={`block p-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <input
+          type="file"
+          multiple
+          accept=".cdm,.kvn,.txt,.xml"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          className="hidden"
+        />
+        <div className="text-gray-700 font-medium">Drop CDM files here or click to browse</div>
+        <div className="text-xs text-gray-500 mt-1">CCSDS 508.0 KVN or XML, e.g. from Space-Track or commercial providers</div>
+      </label>
+
+      {results.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {results.map((result, index) => (
+            <li key={`${result.fileName}-${index}`} className={result.error ? 'text-red-600' : 'text-green-700'}>
+              {result.error ? '❌' : '✅'} {result.fileName}{result.error ? `: ${result.error}` : ''}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-6">
+        <h3 className="text-lg font-semibold mb-2">Export Screening Results</h3>
+        {exportable.length === 0 ? (
+          <p className="text-sm text-gray-500">Run a collision prediction to export conjunctions as CDMs.</p>
+        ) : (
+          <ul className="space-y-2">
+            {exportable.map(conjunction => (
+              <li key={conjunction.id} className="flex items-center justify-between text-sm">
+                <span>
+                  <span className="font-medium">{conjunction.satelliteId}</span> vs {conjunction.objectName}
+                  <span className="text-gray-500"> • {new Date(conjunction.tca).toISOString().replace('T', ' ').slice(0, 19)} UTC</span>
+                </span>
+                <span className="space-x-2">
+                  <button
+                    onClick={() => handleExport(conjunction, 'kvn')}
+                    className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                  >
+                    KVN
+                  </button>
+                  <button
+                    onClick={() => handleExport(conjunction, 'xml')}
+                    className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                  >
+                    XML
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {exportError && <p className="mt-2 text-sm text-red-600">❌ {exportError}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { Satellite } from "../types/Satellite";
+import { exosphericTemperature, kpToAp } from "../utils/atmosphere";
+import { DRAG_FORECAST_HORIZON, DragForecast, DragScenario, MODERATE_SOLAR_FLUX, QUIET_KP, SolarFlux } from "../utils/dragForecast";
+import { currentStormLevel, KpForecastSample, KpSample } from "../utils/geomagnetic";
+
+interface Props {
+  dragForecasts: DragForecast[];
+  satellites: Satellite[];
+  kpHistory: KpSample[];
+  solarFlux: SolarFlux | null;
+  kpForecast: KpForecastSample[];
+}
+
+const HORIZON_HOURS = DRAG_FORECAST_HORIZON / 3600;
+
+const formatLoss = (meters: number) => meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(meters < 10 ? 1 : 0)} m`;
+const formatError = (km: number) => km >= 1 ? `${km.toFixed(1)} km` : `${(km * 1000).toFixed(0)} m`;
+
+// Along-track error of a day is what conjunction screening has to absorb
+const errorColor = (km: number) => km >= 5 ? 'text-red-700 font-semibold' : km >= 1 ? 'text-yellow-700' : 'text-gray-900';
+
+function ScenarioCells({ scenario }: { scenario: DragScenario | null }) {
+  if (!scenario) return <td colSpan={3} className="py-1 pr-3 text-gray-400">No Kp forecast</td>;
+  return (
+    <>
+      <td className="py-1 pr-3">{formatLoss(scenario.extraAltitudeLoss)}</td>
+      <td className={`py-1 pr-3 ${errorColor(scenario.alongTrackError24h)}`}>{formatError(scenario.alongTrackError24h)}</td>
+      <td className="py-1 pr-3">{formatError(scenario.alongTrackError)}</td>
+    </>
+  );
+}
+
+export default function DragForecastPanel({ dragForecasts, satellites, kpHistory, solarFlux, kpForecast }: Props) {
+  const flux = solarFlux ?? MODERATE_SOLAR_FLUX;
+  const currentKp = currentStormLevel(kpHistory)?.kp;
+  const forecastPeak = kpForecast.length > 0 ? Math.max(...kpForecast.map(sample => sample.kp)) : undefined;
+  const nameOf = (id: string) => satellites.find(sat => sat.id === id)?.name ?? id;
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">🛰️ Storm Drag Forecast (LEO)</h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+        <div>
+          <span className="font-medium text-gray-700">F10.7:</span>
+          <div className="text-gray-900">
+            {flux.f107.toFixed(0)} sfu (90-day {flux.f107Average.toFixed(0)}){!solarFlux && ' - assumed'}
+          </div>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Kp Now:</span>
+          <div className="text-gray-900">{currentKp !== undefined ? `${currentKp.toFixed(2)} (ap ${kpToAp(currentKp).toFixed(0)})` : 'N/A'}</div>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Exospheric Temperature:</span>
+          <div className="text-gray-900">
+            {currentKp !== undefined ? `${exosphericTemperature({ ...flux, ap: kpToAp(currentKp) }).toFixed(0)} K` : 'N/A'}
+          </div>
+        </div>
+        <div>
+          <span className="font-medium text-gray-700">Forecast Peak Kp ({HORIZON_HOURS} h):</span>
+          <div className="text-gray-900">{forecastPeak !== undefined ? forecastPeak.toFixed(2) : 'N/A'}</div>
+        </div>
+      </div>
+
+      {currentKp === undefined ? (
+        <div className="text-center py-8 text-gray-500">Waiting for planetary Kp data…</div>
+      ) : dragForecasts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">No LEO satellites tracked</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-700 border-b">
+                <th rowSpan={2} className="py-1 pr-3">Satellite</th>
+                <th rowSpan={2} className="py-1 pr-3">Altitude</th>
+                <th rowSpan={2} className="py-1 pr-3">Density vs Quiet</th>
+                <th colSpan={3} className="py-1 pr-3">Current Kp persisting</th>
+                <th colSpan={3} className="py-1 pr-3">NOAA Kp forecast</th>
+              </tr>
+              <tr className="text-left text-xs text-gray-500 border-b">
+                <th className="py-1 pr-3">Extra loss</th>
+                <th className="py-1 pr-3">Along-track 24 h</th>
+                <th className="py-1 pr-3">{HORIZON_HOURS} h</th>
+                <th className="py-1 pr-3">Extra loss</th>
+                <th className="py-1 pr-3">Along-track 24 h</th>
+                <th className="py-1 pr-3">{HORIZON_HOURS} h</th>
+              </tr>
+            </thead>
+            <tbody>
+              {dragForecasts.map(forecast => (
+                <tr key={forecast.satelliteId} className="border-b last:border-0">
+                  <td className="py-1 pr-3 font-medium">{nameOf(forecast.satelliteId)}</td>
+                  <td className="py-1 pr-3">{forecast.altitude.toFixed(0)} km</td>
+                  <td className="py-1 pr-3">×{forecast.densityRatio.toFixed(2)}</td>
+                  <ScenarioCells scenario={forecast.current} />
+                  <ScenarioCells scenario={forecast.forecast} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-gray-500 mt-2">
+            Extra altitude loss and along-track error over {HORIZON_HOURS} h relative to a prediction assuming a quiet thermosphere (Kp {QUIET_KP})
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
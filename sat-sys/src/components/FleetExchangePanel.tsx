@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Satellite } from "../types/Satellite";
+import { detectFleetFormat, exportFleet, FleetFormat, FleetImportIssue, importFleet } from "../utils/fleetExchange";
+
+interface Props {
+  satellites: Satellite[];
+  onImport: (satellites: Satellite[]) => void;
+}
+
+interface ImportResult {
+  fileName: string;
+  format?: FleetFormat;
+  imported: number;
+  issues: FleetImportIssue[];
+  duplicates: string[];
+  error?: string;
+}
+
+const FORMAT_LABELS: Record<FleetFormat, string> = {
+  tle: "3LE",
+  omm: "OMM",
+  csv: "CSV",
+  json: "JSON"
+};
+
+export default function FleetExchangePanel({ satellites, onImport }: Props) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [exportNote, setExportNote] = useState("");
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const imported: Satellite[] = [];
+    const fileResults: ImportResult[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        const text = await file.text();
+        const format = detectFleetFormat(file.name, text);
+        const result = importFleet(text, format, [...satellites, ...imported]);
+        imported.push(...result.satellites);
+        fileResults.push({ fileName: file.name, format, imported: result.satellites.length, issues: result.issues, duplicates: result.duplicates });
+      } catch (error) {
+        fileResults.push({ fileName: file.name, imported: 0, issues: [], duplicates: [], error: error instanceof Error ? error.message : 'Unreadable file' });
+      }
+    }
+
+    setResults(fileResults);
+    if (imported.length > 0) onImport(imported);
+  };
+
+  const handleExport = (format: FleetFormat) => {
+    const { content, mimeType, extension, skipped } = exportFleet(satellites, format);
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fleet-${new Date().toISOString().slice(0, 10)}.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    setExportNote(skipped.length > 0
+      ? `${skipped.length} satellite(s) without an element set left out of the ${FORMAT_LABELS[format]} file: ${skipped.join(', ')}`
+      : "");
+  };
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">🗂️ Fleet Import / Export</h2>
+
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => { e.preventDefault(); setIsDragging(false); handleFiles(e.dataTransfer.files); }}
+        className={`block p-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <input
+          type="file"
+          multiple
+          accept=".tle,.3le,.txt,.xml,.kvn,.omm,.csv,.json"
+          onChange={(e) => { handleFiles(e.target.files); e.target.value = ''; }}
+          className="hidden"
+        />
+        <div className="text-gray-700 font-medium">Drop fleet files here or click to browse</div>
+        <div className="text-xs text-gray-500 mt-1">
+          TLE/3LE text, CCSDS OMM (JSON, XML or KVN), CSV of Keplerian elements (name, altitude, inclination, …) or a JSON fleet
+        </div>
+      </label>
+
+      {results.length > 0 && (
+        <ul className="mt-3 space-y-2 text-sm">
+          {results.map((result, index) => (
+            <li key={`${result.fileName}-${index}`}>
+              <div className={result.error || result.imported + result.duplicates.length === 0 ? 'text-red-600' : 'text-green-700'}>
+                {result.error || result.imported + result.duplicates.length === 0 ? '❌' : '✅'} {result.fileName}
+                {result.format && ` (${FORMAT_LABELS[result.format]})`}
+                {result.error ? `: ${result.error}` : `: ${result.imported} satellite(s) imported`}
+                {result.duplicates.length > 0 && `, ${result.duplicates.length} already in the fleet`}
+                {result.issues.length > 0 && `, ${result.issues.length} rejected`}
+              </div>
+              {result.duplicates.length > 0 && (
+                <div className="ml-6 mt-1 text-xs text-gray-500">Skipped: {result.duplicates.join(', ')}</div>
+              )}
+              {result.issues.length > 0 && (
+                <ul className="ml-6 mt-1 space-y-0.5 text-xs text-red-600 max-h-32 overflow-y-auto">
+                  {result.issues.map((issue, issueIndex) => (
+                    <li key={issueIndex}>
+                      {result.format === 'json' || result.format === 'omm' ? 'Entry' : 'Line'} {issue.row}
+                      {issue.label && ` (${issue.label})`}: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-6">
+        <h3 className="text-lg font-semibold mb-2">Export Fleet</h3>
+        {satellites.length === 0 ? (
+          <p className="text-sm text-gray-500">Add satellites to export the fleet.</p>
+        ) : (
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-600">{satellites.length} satellite(s) as</span>
+            {(Object.keys(FORMAT_LABELS) as FleetFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+              >
+                {FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        )}
+        {exportNote && <p className="mt-2 text-xs text-yellow-700">{exportNote}</p>}
+      </div>
+    </div>
+  );
+}
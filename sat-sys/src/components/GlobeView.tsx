@@ -0,0 +1,241 @@
+import { useMemo, useState } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Html, Line, OrbitControls, Stars } from "@react-three/drei";
+import * as satelliteJs from "satellite.js";
+import { ConjunctionEvent, Satellite, Vector3 } from "../types/Satellite";
+import { SatelliteSimulator } from "../utils/SatelliteSimulator";
+import { EARTH_RADIUS, add, scale, stateVectorToElements } from "../utils/orbitalMechanics";
+import { sunDirection } from "../utils/geography";
+
+interface Props {
+  satellites: Satellite[];
+  simulators: Map<string, SatelliteSimulator>;
+  conjunctions: ConjunctionEvent[];
+  simulationDate: Date;
+}
+
+type Point = [number, number, number];
+
+const SCALE = 1 / 1000; // scene units per km
+const ORBIT_REFRESH = 600; // simulation seconds between orbit path refreshes
+const ORBIT_SAMPLES = 180;
+const SATELLITE_COLORS = ["#22d3ee", "#a78bfa", "#f472b6", "#34d399", "#fbbf24", "#60a5fa"];
+
+// ECI (z = north) to scene coordinates (y = up)
+const toScene = (v: Vector3): Point => [v.x * SCALE, v.z * SCALE, -v.y * SCALE];
+
+const statusColor = (satellite: Satellite, index: number) => {
+  switch (satellite.status) {
+    case 'danger': return '#ef4444';
+    case 'warning': return '#f59e0b';
+    default: return SATELLITE_COLORS[index % SATELLITE_COLORS.length];
+  }
+};
+
+/**
+ * Latitude/longitude grid in the Earth-fixed frame, every 30°
+ */
+function graticule(): Point[][] {
+  const radius = EARTH_RADIUS * 1.002;
+  const toPoint = (latitude: number, longitude: number): Point => {
+    const lat = (latitude * Math.PI) / 180;
+    const lon = (longitude * Math.PI) / 180;
+    return toScene({
+      x: radius * Math.cos(lat) * Math.cos(lon),
+      y: radius * Math.cos(lat) * Math.sin(lon),
+      z: radius * Math.sin(lat)
+    });
+  };
+
+  const lines: Point[][] = [];
+  for (let latitude = -60; latitude <= 60; latitude += 30) {
+    lines.push(Array.from({ length: 73 }, (_, i) => toPoint(latitude, i * 5)));
+  }
+  for (let longitude = 0; longitude < 360; longitude += 30) {
+    lines.push(Array.from({ length: 37 }, (_, i) => toPoint(-90 + i * 5, longitude)));
+  }
+  return lines;
+}
+
+function Earth({ simulationDate }: { simulationDate: Date }) {
+  const lines = useMemo(graticule, []);
+  // Rotate the Earth-fixed frame by GMST so the globe matches the simulation clock
+  const gmst = satelliteJs.gstime(simulationDate);
+
+  return (
+    <group rotation={[0, gmst, 0]}>
+      <mesh>
+        <sphereGeometry args={[EARTH_RADIUS * SCALE, 64, 64]} />
+        <meshPhongMaterial color="#1d4ed8" shininess={15} />
+      </mesh>
+      {lines.map((points, index) => (
+        <Line
+          key={index}
+          points={points}
+          color={index === 5 ? "#facc15" : "#93c5fd"} // prime meridian highlighted
+          lineWidth={index === 5 ? 1.5 : 0.5}
+          transparent
+          opacity={0.5}
+        />
+      ))}
+    </group>
+  );
+}
+
+interface EncounterGeometry {
+  id: string;
+  label: string;
+  primary: Point;
+  secondary: Point;
+  relativeVelocityTip?: Point;
+}
+
+/**
+ * Positions of both objects at TCA for a conjunction, when they can be determined
+ */
+function encounterGeometry(conjunction: ConjunctionEvent, simulators: Map<string, SatelliteSimulator>): EncounterGeometry | null {
+  const primarySimulator = simulators.get(conjunction.satelliteId);
+  const tcaDate = new Date(conjunction.tca);
+
+  const primary = conjunction.primaryState?.position ??
+    primarySimulator?.propagateTo(primarySimulator.toSimulationTime(tcaDate)).position;
+  if (!primary) return null;
+
+  const secondarySimulator = conjunction.objectId ? simulators.get(conjunction.objectId) : undefined;
+  const secondary = conjunction.secondaryState?.position ??
+    (conjunction.relativePosition && add(primary, conjunction.relativePosition)) ??
+    secondarySimulator?.propagateTo(secondarySimulator.toSimulationTime(tcaDate)).position;
+  if (!secondary) return null;
+
+  // Relative velocity drawn as 100 km per km/s from the secondary
+  const relativeVelocityTip = conjunction.relativeVelocityVector &&
+    toScene(add(secondary, {
+      x: conjunction.relativeVelocityVector.x * 100,
+      y: conjunction.relativeVelocityVector.y * 100,
+      z: conjunction.relativeVelocityVector.z * 100
+    }));
+
+  return {
+    id: conjunction.id,
+    label: `${conjunction.objectName} • ${conjunction.missDistance.toFixed(3)} km • ${tcaDate.toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+    primary: toScene(primary),
+    secondary: toScene(secondary),
+    relativeVelocityTip
+  };
+}
+
+export default function GlobeView({ satellites, simulators, conjunctions, simulationDate }: Props) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Orbit paths only need refreshing every few simulated minutes, or after a maneuver
+  const orbitRevision = Math.floor(simulationDate.getTime() / 1000 / ORBIT_REFRESH);
+  const maneuverCount = Array.from(simulators.values()).reduce((sum, sim) => sum + sim.getManeuvers().length, 0);
+
+  const orbits = useMemo(() => {
+    const paths = new Map<string, Point[]>();
+    simulators.forEach((simulator, id) => {
+      const t = simulator.toSimulationTime(simulationDate);
+      const { orbitalPeriod } = stateVectorToElements(simulator.propagateTo(t));
+      const period = Math.min(orbitalPeriod, 86400);
+      paths.set(id, simulator.getEphemeris(t, t + period, period / ORBIT_SAMPLES).map(p => toScene(p.position)));
+    });
+    return paths;
+  }, [simulators, orbitRevision, maneuverCount]);
+
+  const encounters = useMemo(
+    () => conjunctions
+      .filter(c => selectedIds.has(c.id))
+      .map(c => encounterGeometry(c, simulators))
+      .filter((g): g is EncounterGeometry => g !== null),
+    [conjunctions, selectedIds, simulators]
+  );
+
+  const toggleConjunction = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">🌍 Orbit View</h2>
+
+      {conjunctions.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {conjunctions.map(c => (
+            <button
+              key={c.id}
+              onClick={() => toggleConjunction(c.id)}
+              className={`px-2 py-1 rounded-full text-xs font-medium border transition-colors ${
+                selectedIds.has(c.id) ? 'bg-red-600 text-white border-red-600' : 'bg-white text-gray-700 border-gray-300 hover:border-red-400'
+              }`}
+            >
+              {c.satelliteId} ↔ {c.objectName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="h-96 rounded-lg overflow-hidden bg-black">
+        <Canvas camera={{ position: [0, 12, 28], fov: 45 }}>
+          <ambientLight intensity={0.4} />
+          <directionalLight position={toScene(scale(sunDirection(simulationDate), 50000))} intensity={1.2} />
+          <Stars radius={200} depth={50} count={3000} factor={4} fade />
+          <Earth simulationDate={simulationDate} />
+
+          {satellites.map((sat, index) => {
+            const simulator = simulators.get(sat.id);
+            const position = sat.currentPosition ??
+              simulator?.propagateTo(simulator.toSimulationTime(simulationDate)).position;
+            const orbit = orbits.get(sat.id);
+            const color = statusColor(sat, index);
+
+            return (
+              <group key={sat.id}>
+                {orbit && orbit.length > 1 && <Line points={orbit} color={color} lineWidth={1} transparent opacity={0.7} />}
+                {position && (
+                  <mesh position={toScene(position)}>
+                    <sphereGeometry args={[0.12, 16, 16]} />
+                    <meshBasicMaterial color={color} />
+                    <Html distanceFactor={20} style={{ pointerEvents: 'none' }}>
+                      <div className="text-xs text-white whitespace-nowrap ml-2">{sat.name}</div>
+                    </Html>
+                  </mesh>
+                )}
+              </group>
+            );
+          })}
+
+          {encounters.map(encounter => (
+            <group key={encounter.id}>
+              <mesh position={encounter.primary}>
+                <sphereGeometry args={[0.35, 24, 24]} />
+                <meshBasicMaterial color="#ef4444" transparent opacity={0.3} />
+              </mesh>
+              <mesh position={encounter.secondary}>
+                <sphereGeometry args={[0.1, 16, 16]} />
+                <meshBasicMaterial color="#f97316" />
+              </mesh>
+              <Line points={[encounter.primary, encounter.secondary]} color="#ef4444" lineWidth={2} />
+              {encounter.relativeVelocityTip && (
+                <Line points={[encounter.secondary, encounter.relativeVelocityTip]} color="#f97316" lineWidth={1.5} dashed dashSize={0.1} gapSize={0.05} />
+              )}
+              <Html position={encounter.primary} distanceFactor={20} style={{ pointerEvents: 'none' }}>
+                <div className="text-xs text-red-300 whitespace-nowrap ml-3 mt-3">{encounter.label}</div>
+              </Html>
+            </group>
+          ))}
+
+          <OrbitControls enablePan={false} minDistance={8} maxDistance={150} />
+        </Canvas>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500">
+        Drag to rotate, scroll to zoom. Earth rotation and positions follow the simulation clock
+        ({simulationDate.toISOString().replace('T', ' ').slice(0, 19)} UTC).
+      </div>
+    </div>
+  );
+}
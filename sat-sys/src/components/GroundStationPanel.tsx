@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { ContactWindow, GroundStation, Satellite } from "../types/Satellite";
+
+interface Props {
+  groundStations: GroundStation[];
+  onChangeStations: (stations: GroundStation[]) => void;
+  contactWindows: ContactWindow[];
+  satellites: Satellite[];
+  simulationDate: Date;
+}
+
+const MAX_LISTED_PASSES = 12;
+
+const formatTime = (iso: string) => iso.replace('T', ' ').slice(0, 19);
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+
+export default function GroundStationPanel({ groundStations, onChangeStations, contactWindows, satellites, simulationDate }: Props) {
+  const [satelliteFilter, setSatelliteFilter] = useState("all");
+  const [error, setError] = useState("");
+  const [form, setForm] = useState({
+    name: "",
+    latitude: "",
+    longitude: "",
+    altitude: "",
+    minElevation: "5"
+  });
+
+  const handleAddStation = (e: React.FormEvent) => {
+    e.preventDefault();
+    const latitude = Number(form.latitude);
+    const longitude = Number(form.longitude);
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      setError("Latitude must be within ±90° and longitude within ±180°");
+      return;
+    }
+
+    onChangeStations([
+      ...groundStations,
+      {
+        id: `station-${Date.now()}`,
+        name: form.name,
+        latitude,
+        longitude,
+        altitude: Number(form.altitude || 0),
+        minElevation: Number(form.minElevation || 0)
+      }
+    ]);
+    setForm({ name: "", latitude: "", longitude: "", altitude: "", minElevation: "5" });
+    setError("");
+  };
+
+  const handleRemoveStation = (id: string) => {
+    onChangeStations(groundStations.filter(station => station.id !== id));
+  };
+
+  const satelliteName = (id: string) => satellites.find(sat => sat.id === id)?.name ?? id;
+
+  const upcomingPasses = contactWindows
+    .filter(window => new Date(window.los) > simulationDate)
+    .filter(window => satelliteFilter === "all" || window.satelliteId === satelliteFilter)
+    .slice(0, MAX_LISTED_PASSES);
+
+  return (
+    <div className="p-6 border rounded-lg bg-white space-y-4">
+      <h2 className="text-2xl font-bold">📡 Ground Stations</h2>
+
+      {/* Station list */}
+      <div className="space-y-2">
+        {groundStations.length === 0 && (
+          <p className="text-sm text-gray-500">No ground stations configured - commands cannot be uplinked.</p>
+        )}
+        {groundStations.map(station => (
+          <div key={station.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md text-sm">
+            <div>
+              <span className="font-medium">{station.name}</span>
+              <span className="text-gray-500 ml-2">
+                {station.latitude.toFixed(2)}°, {station.longitude.toFixed(2)}° • {(station.altitude * 1000).toFixed(0)} m • mask {station.minElevation}°
+              </span>
+            </div>
+            <button
+              onClick={() => handleRemoveStation(station.id)}
+              className="px-2 py-1 text-xs rounded bg-red-100 text-red-700 hover:bg-red-200"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Add station */}
+      <form onSubmit={handleAddStation} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            placeholder="e.g., Kiruna"
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lat (°)</label>
+          <input
+            placeholder="67.86"
+            value={form.latitude}
+            onChange={e => setForm({ ...form, latitude: e.target.value })}
+            type="number"
+            step="any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lon (°)</label>
+          <input
+            placeholder="20.96"
+            value={form.longitude}
+            onChange={e => setForm({ ...form, longitude: e.target.value })}
+            type="number"
+            step="any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Alt (km)</label>
+          <input
+            placeholder="0.4"
+            value={form.altitude}
+            onChange={e => setForm({ ...form, altitude: e.target.value })}
+            type="number"
+            min="0"
+            step="any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Mask (°)</label>
+          <input
+            value={form.minElevation}
+            onChange={e => setForm({ ...form, minElevation: e.target.value })}
+            type="number"
+            min="0"
+            max="45"
+            step="any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <button type="submit" className="col-span-2 md:col-span-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors">
+          Add Ground Station
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {/* Upcoming passes */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold">Upcoming Contacts (24h)</h3>
+          <select
+            value={satelliteFilter}
+            onChange={e => setSatelliteFilter(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="all">All satellites</option>
+            {satellites.map(sat => (
+              <option key={sat.id} value={sat.id}>{sat.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {upcomingPasses.length === 0 ? (
+          <p className="text-sm text-gray-500">No passes predicted in the next 24 hours.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-1 pr-2">Satellite</th>
+                  <th className="py-1 pr-2">Station</th>
+                  <th className="py-1 pr-2">AOS (UTC)</th>
+                  <th className="py-1 pr-2">TCA (UTC)</th>
+                  <th className="py-1 pr-2">LOS (UTC)</th>
+                  <th className="py-1 pr-2">Duration</th>
+                  <th className="py-1 pr-2">Max El</th>
+                  <th className="py-1 pr-2">Az AOS→LOS</th>
+                  <th className="py-1">Range</th>
+                </tr>
+              </thead>
+              <tbody>
+                {upcomingPasses.map(pass => {
+                  const inProgress = new Date(pass.aos) <= simulationDate;
+                  return (
+                    <tr key={pass.id} className={`border-b last:border-0 ${inProgress ? 'bg-green-50 font-medium' : ''}`}>
+                      <td className="py-1 pr-2">{satelliteName(pass.satelliteId)}</td>
+                      <td className="py-1 pr-2">{pass.stationName}</td>
+                      <td className="py-1 pr-2">{formatTime(pass.aos)}</td>
+                      <td className="py-1 pr-2">{formatTime(pass.tca)}</td>
+                      <td className="py-1 pr-2">{formatTime(pass.los)}</td>
+                      <td className="py-1 pr-2">{formatDuration(pass.duration)}</td>
+                      <td className="py-1 pr-2">{pass.maxElevation.toFixed(1)}°</td>
+                      <td className="py-1 pr-2">{pass.aosAzimuth.toFixed(0)}° → {pass.losAzimuth.toFixed(0)}°</td>
+                      <td className="py-1">{pass.minRange.toFixed(0)} km</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useMemo } from "react";
+import { GroundStation, Satellite } from "../types/Satellite";
+import { OrbitUtils, SatelliteSimulator } from "../utils/SatelliteSimulator";
+import { stateVectorToElements } from "../utils/orbitalMechanics";
+import {
+  LonLat,
+  SOUTH_ATLANTIC_ANOMALY,
+  isInSouthAtlanticAnomaly,
+  nightPolygon,
+  splitAtAntimeridian,
+  subsolarPoint
+} from "../utils/geography";
+import { CONTINENTS } from "../data/continents";
+
+interface Props {
+  satellites: Satellite[];
+  simulators: Map<string, SatelliteSimulator>;
+  simulationDate: Date;
+  groundStations?: GroundStation[];
+}
+
+interface Track {
+  past: string[]; // SVG point lists, one per antimeridian-free segment
+  future: string[];
+}
+
+const TRACK_REFRESH = 60; // simulation seconds between ground track refreshes
+const TRACK_SAMPLES = 120; // per orbit
+const SATELLITE_COLORS = ["#22d3ee", "#a78bfa", "#f472b6", "#34d399", "#fbbf24", "#60a5fa"];
+
+// Equirectangular projection onto a 360 x 180 viewBox centred on (0, 0)
+const toSvgPoints = (points: LonLat[]) => points.map(([lon, lat]) => `${lon},${-lat}`).join(" ");
+
+const statusColor = (satellite: Satellite, index: number) => {
+  switch (satellite.status) {
+    case 'danger': return '#ef4444';
+    case 'warning': return '#f59e0b';
+    default: return SATELLITE_COLORS[index % SATELLITE_COLORS.length];
+  }
+};
+
+export default function GroundTrackMap({ satellites, simulators, simulationDate, groundStations = [] }: Props) {
+  const trackRevision = Math.floor(simulationDate.getTime() / 1000 / TRACK_REFRESH);
+  const maneuverCount = Array.from(simulators.values()).reduce((sum, sim) => sum + sim.getManeuvers().length, 0);
+
+  // One orbit behind and one ahead of the current position
+  const tracks = useMemo(() => {
+    const result = new Map<string, Track>();
+    simulators.forEach((simulator, id) => {
+      const t = simulator.toSimulationTime(simulationDate);
+      const { orbitalPeriod } = stateVectorToElements(simulator.propagateTo(t));
+      const period = Math.min(orbitalPeriod, 86400);
+      const step = period / TRACK_SAMPLES;
+
+      const segments = (start: number, end: number) =>
+        splitAtAntimeridian(simulator.getGroundTrack(start, end, step))
+          .filter(segment => segment.length > 1)
+          .map(segment => toSvgPoints(segment.map(p => [p.longitude, p.latitude])));
+
+      result.set(id, { past: segments(t - period, t), future: segments(t, t + period) });
+    });
+    return result;
+  }, [simulators, trackRevision, maneuverCount]);
+
+  const night = useMemo(() => toSvgPoints(nightPolygon(simulationDate)), [trackRevision]);
+  const sun = subsolarPoint(simulationDate);
+
+  const positions = satellites.map((sat, index) => {
+    const simulator = simulators.get(sat.id);
+    const eci = sat.currentPosition ?? simulator?.propagateTo(simulator.toSimulationTime(simulationDate)).position;
+    if (!eci) return null;
+    const point = OrbitUtils.calculateGroundTrack(eci, simulationDate);
+    return {
+      satellite: sat,
+      color: statusColor(sat, index),
+      ...point,
+      inSaa: isInSouthAtlanticAnomaly(point.latitude, point.longitude)
+    };
+  });
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">🗺️ Ground Tracks</h2>
+
+      <svg viewBox="-180 -90 360 180" className="w-full rounded-lg bg-sky-900" preserveAspectRatio="xMidYMid meet">
+        {/* Basemap */}
+        {CONTINENTS.map(({ name, outline }) => (
+          <polygon key={name} points={toSvgPoints(outline)} fill="#3f6212" stroke="#65a30d" strokeWidth={0.2} />
+        ))}
+        {[-60, -30, 0, 30, 60].map(lat => (
+          <line key={`lat${lat}`} x1={-180} x2={180} y1={-lat} y2={-lat} stroke="#ffffff" strokeOpacity={0.15} strokeWidth={0.2} />
+        ))}
+        {[-150, -120, -90, -60, -30, 0, 30, 60, 90, 120, 150].map(lon => (
+          <line key={`lon${lon}`} x1={lon} x2={lon} y1={-90} y2={90} stroke="#ffffff" strokeOpacity={0.15} strokeWidth={0.2} />
+        ))}
+
+        {/* Overlays */}
+        <polygon points={toSvgPoints(SOUTH_ATLANTIC_ANOMALY)} fill="#c026d3" fillOpacity={0.25} stroke="#e879f9" strokeWidth={0.3} strokeDasharray="1.5 1" />
+        <polygon points={night} fill="#020617" fillOpacity={0.45} />
+        <circle cx={sun.longitude} cy={-sun.latitude} r={2.5} fill="#fde047" stroke="#f59e0b" strokeWidth={0.4} />
+
+        {groundStations.map(station => (
+          <g key={station.id}>
+            <polygon
+              points={`${station.longitude},${-station.latitude - 2} ${station.longitude - 1.8},${-station.latitude + 1.2} ${station.longitude + 1.8},${-station.latitude + 1.2}`}
+              fill="#f8fafc"
+              stroke="#0f172a"
+              strokeWidth={0.3}
+            />
+            <title>{station.name}</title>
+          </g>
+        ))}
+
+        {/* Ground tracks */}
+        {satellites.map((sat, index) => {
+          const track = tracks.get(sat.id);
+          if (!track) return null;
+          const color = statusColor(sat, index);
+          return (
+            <g key={sat.id}>
+              {track.past.map((points, i) => (
+                <polyline key={`past${i}`} points={points} fill="none" stroke={color} strokeOpacity={0.4} strokeWidth={0.5} />
+              ))}
+              {track.future.map((points, i) => (
+                <polyline key={`future${i}`} points={points} fill="none" stroke={color} strokeWidth={0.6} strokeDasharray="2 1" />
+              ))}
+            </g>
+          );
+        })}
+
+        {positions.map(position => position && (
+          <g key={position.satellite.id}>
+            {position.inSaa && (
+              <circle cx={position.longitude} cy={-position.latitude} r={3.5} fill="none" stroke="#e879f9" strokeWidth={0.5} />
+            )}
+            <circle cx={position.longitude} cy={-position.latitude} r={1.8} fill={position.color} stroke="#ffffff" strokeWidth={0.4} />
+            <text x={position.longitude + 3} y={-position.latitude + 1.2} fontSize={4} fill="#ffffff">
+              {position.satellite.name}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600">
+        <span><span className="inline-block w-4 border-t-2 border-gray-400 opacity-50 align-middle mr-1"></span>Past orbit</span>
+        <span><span className="inline-block w-4 border-t-2 border-dashed border-gray-700 align-middle mr-1"></span>Next orbit</span>
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-slate-900 opacity-60 align-middle mr-1"></span>Night side</span>
+        <span><span className="inline-block w-3 h-3 rounded-sm bg-fuchsia-500 opacity-40 align-middle mr-1"></span>South Atlantic Anomaly</span>
+        <span><span className="inline-block w-3 h-3 rounded-full bg-yellow-300 align-middle mr-1"></span>Subsolar point</span>
+        {groundStations.length > 0 && <span>▲ Ground station</span>}
+      </div>
+
+      {positions.some(p => p?.inSaa) && (
+        <div className="mt-2 text-sm text-fuchsia-700">
+          ☢️ In the SAA: {positions.filter(p => p?.inSaa).map(p => p!.satellite.name).join(", ")}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import { currentStormLevel, G_SCALE_LABELS, GeomagneticScale, KP_HISTORY_WINDOW, kpToGScale, KpSample } from "../utils/geomagnetic";
+
+interface Props {
+  kpHistory: KpSample[];
+}
+
+// Chart area in SVG units: x spans the history window, y spans Kp 0-9
+const WIDTH = 720;
+const HEIGHT = 180;
+const THREE_HOURS = 3 * 3600 * 1000;
+
+const barColor = (kp: number) => kp >= 4.67 ? '#ef4444' : kp >= 3.67 ? '#facc15' : '#22c55e';
+
+const scaleBadge = (scale: GeomagneticScale) => {
+  if (scale >= 4) return 'bg-red-600 text-white';
+  if (scale >= 2) return 'bg-orange-500 text-white';
+  if (scale === 1) return 'bg-yellow-400 text-gray-900';
+  return 'bg-green-600 text-white';
+};
+
+export default function KpChart({ kpHistory }: Props) {
+  const now = Date.now(); // re-rendered as each poll extends the history
+  const start = now - KP_HISTORY_WINDOW;
+  const x = (time: number) => ((time - start) / KP_HISTORY_WINDOW) * WIDTH;
+  const y = (kp: number) => HEIGHT - (kp / 9) * HEIGHT;
+
+  const level = useMemo(() => currentStormLevel(kpHistory), [kpHistory]);
+  const threeHour = kpHistory.filter(sample => sample.product === '3h');
+  const oneMinute = kpHistory
+    .filter(sample => sample.product === '1m')
+    .map(sample => `${x(new Date(sample.time).getTime()).toFixed(1)},${y(sample.kp).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold">🌪️ Planetary Kp Index</h2>
+        {level && (
+          <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-600">Kp {level.kp.toFixed(2)}</span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${scaleBadge(level.scale)}`}>
+              {G_SCALE_LABELS[level.scale]}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {kpHistory.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">Waiting for NOAA Kp data…</div>
+      ) : (
+        <>
+          <svg viewBox={`-24 -6 ${WIDTH + 30} ${HEIGHT + 24}`} className="w-full">
+            {/* G-scale thresholds */}
+            {[5, 6, 7, 8, 9].map(kp => (
+              <g key={kp}>
+                <line x1={0} x2={WIDTH} y1={y(kp)} y2={y(kp)} stroke="#e5e7eb" strokeDasharray="4 3" />
+                <text x={WIDTH + 3} y={y(kp) + 3} fontSize={9} fill="#6b7280">G{kpToGScale(kp)}</text>
+              </g>
+            ))}
+            {[0, 3, 6, 9].map(kp => (
+              <text key={kp} x={-6} y={y(kp) + 3} fontSize={9} fill="#6b7280" textAnchor="end">{kp}</text>
+            ))}
+
+            {threeHour.map(sample => {
+              const time = new Date(sample.time).getTime();
+              return (
+                <rect
+                  key={sample.time}
+                  x={x(time) + 1}
+                  y={y(sample.kp)}
+                  width={Math.max(0, x(time + THREE_HOURS) - x(time) - 2)}
+                  height={HEIGHT - y(sample.kp)}
+                  fill={barColor(sample.kp)}
+                  opacity={0.8}
+                >
+                  <title>{`${new Date(sample.time).toUTCString()}: Kp ${sample.kp.toFixed(2)}`}</title>
+                </rect>
+              );
+            })}
+            {oneMinute && <polyline points={oneMinute} fill="none" stroke="#2563eb" strokeWidth={1.5} />}
+
+            <line x1={0} x2={WIDTH} y1={HEIGHT} y2={HEIGHT} stroke="#9ca3af" />
+            {[72, 48, 24, 0].map(hours => (
+              <text key={hours} x={x(now - hours * 3600 * 1000)} y={HEIGHT + 14} fontSize={9} fill="#6b7280" textAnchor="middle">
+                {hours === 0 ? 'now' : `-${hours}h`}
+              </text>
+            ))}
+          </svg>
+          <div className="flex space-x-4 mt-2 text-xs text-gray-600">
+            <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-green-500" />3-hour Kp</span>
+            <span><span className="inline-block w-3 h-0.5 mr-1 align-middle bg-blue-600" />1-minute estimate</span>
+            <span>Source: NOAA SWPC</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+export interface Notification {
+  kind: "success" | "warning" | "error";
+  title: string;
+  details: string[];
+}
+
+interface Props {
+  notification: Notification | null;
+  onDismiss: () => void;
+}
+
+const STYLES: Record<Notification["kind"], string> = {
+  success: "bg-green-50 border-green-600 text-green-900",
+  warning: "bg-yellow-50 border-yellow-600 text-yellow-900",
+  error: "bg-red-50 border-red-600 text-red-900"
+};
+
+export default function NotificationBanner({ notification, onDismiss }: Props) {
+  if (!notification) return null;
+
+  return (
+    <div className={`sticky top-4 z-50 p-4 rounded-lg border-l-4 shadow-lg ${STYLES[notification.kind]}`} role="status">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="font-semibold mb-1">{notification.title}</h3>
+          <ul className="text-sm space-y-1">
+            {notification.details.map((line, index) => (
+              <li key={index}>{line}</li>
+            ))}
+          </ul>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="ml-4 px-2 py-1 rounded text-sm font-medium hover:bg-black hover:bg-opacity-10"
+          aria-label="Dismiss notification"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Satellite } from "../types/Satellite";
+import { isChargingExposed, isProtonExposed, POLAR_CAP_INCLINATION, RadiationEnvironment, S_SCALE_LABELS } from "../utils/radiation";
+
+interface Props {
+  radiation: RadiationEnvironment | null;
+  satellites: Satellite[];
+}
+
+const levelColor = (active: boolean, severe: boolean) =>
+  !active ? 'bg-green-100 text-green-800' : severe ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800';
+
+export default function RadiationPanel({ radiation, satellites }: Props) {
+  if (!radiation) {
+    return (
+      <div className="p-6 border rounded-lg bg-white">
+        <h2 className="text-2xl font-bold mb-4">☢️ Radiation Environment</h2>
+        <div className="text-center py-8 text-gray-500">Waiting for GOES particle flux data…</div>
+      </div>
+    );
+  }
+
+  const protonExposed = satellites.filter(isProtonExposed);
+  const chargingExposed = satellites.filter(isChargingExposed);
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold">☢️ Radiation Environment</h2>
+        <div className="text-sm text-gray-600">GOES, {new Date(radiation.time).toLocaleTimeString()}</div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div className="p-3 rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-700">Solar Radiation Storm</span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${levelColor(radiation.protonScale > 0, radiation.protonScale >= 3)}`}>
+              {S_SCALE_LABELS[radiation.protonScale]}
+            </span>
+          </div>
+          <div className="text-gray-900">≥10 MeV protons: {radiation.protonFlux?.toExponential(2) ?? 'N/A'} pfu</div>
+          <div className="text-xs text-gray-500 mt-1">
+            Reaches MEO/GEO and LEO above {POLAR_CAP_INCLINATION}° inclination
+            {radiation.protonScale > 0 && ` - ${protonExposed.length} of ${satellites.length} satellites exposed`}
+          </div>
+          {radiation.protonScale > 0 && protonExposed.length > 0 && (
+            <div className="text-xs text-gray-700 mt-1">{protonExposed.map(sat => sat.name).join(', ')}</div>
+          )}
+        </div>
+
+        <div className="p-3 rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-700">Deep-Dielectric Charging</span>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${levelColor(radiation.chargingRisk !== 'nominal', radiation.chargingRisk === 'high')}`}>
+              {radiation.chargingRisk}
+            </span>
+          </div>
+          <div className="text-gray-900">≥2 MeV electrons: {radiation.electronFlux?.toExponential(2) ?? 'N/A'} pfu</div>
+          <div className="text-xs text-gray-500 mt-1">
+            Reaches MEO and GEO
+            {radiation.chargingRisk !== 'nominal' && ` - ${chargingExposed.length} of ${satellites.length} satellites exposed`}
+          </div>
+          {radiation.chargingRisk !== 'nominal' && chargingExposed.length > 0 && (
+            <div className="text-xs text-gray-700 mt-1">{chargingExposed.map(sat => sat.name).join(', ')}</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
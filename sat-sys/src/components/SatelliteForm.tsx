@@ -1,13 +1,16 @@
 import { useState } from "react";
-import { Satellite, OrbitType } from "../types/Satellite";
-import { fetchTLEByNoradId, fetchTLEFromCelesTrak, CELESTRAK_GROUPS } from "../utils/api";
-import * as satellite from "satellite.js";
+import { Satellite, OrbitType, PerturbationModel } from "../types/Satellite";
+import { fetchTLEByNoradId, CELESTRAK_GROUPS, CelesTrakGroupResult, getGroupName } from "../utils/api";
+import { diagonalCovariance } from "../utils/collisionProbability";
+import { DEFAULT_PROPULSION } from "../utils/maneuverPlanner";
+import { satelliteFromTle } from "../utils/tle";
 
 interface Props {
   onAdd: (satellite: Satellite) => void;
+  onLoadGroup: (group: string, limit: number) => Promise<CelesTrakGroupResult & { added: Satellite[] }>;
 }
 
-export default function SatelliteForm({ onAdd }: Props) {
+export default function SatelliteForm({ onAdd, onLoadGroup }: Props) {
   const [activeTab, setActiveTab] = useState<'manual' | 'api'>('manual');
   const [noradId, setNoradId] = useState("");
   const [selectedGroup, setSelectedGroup] = useState("stations");
@@ -21,12 +24,25 @@ export default function SatelliteForm({ onAdd }: Props) {
     altitude: "", 
     inclination: "", 
     velocity: "",
-    // LEO specific fields
+    // Classical orbital elements (optional, default to 0)
     eccentricity: "",
     argumentOfPeriapsis: "",
-    // Polar orbit specific fields
     rightAscensionOfAscendingNode: "",
-    meanAnomaly: ""
+    meanAnomaly: "",
+    // Perturbation model
+    perturbationModel: "j2" as PerturbationModel,
+    ballisticCoefficient: "",
+    // Position uncertainty (1-sigma, meters) and hard-body radius
+    sigmaRadial: "",
+    sigmaAlongTrack: "",
+    sigmaCrossTrack: "",
+    hardBodyRadius: "",
+    // Spacecraft mass and propulsion (optional)
+    dryMass: "",
+    propellantMass: "",
+    isp: "",
+    maxThrust: "",
+    areaToMass: ""
   });
 
   // Load satellite by NORAD ID
@@ -41,36 +57,16 @@ export default function SatelliteForm({ onAdd }: Props) {
     
     try {
       const tleData = await fetchTLEByNoradId(noradId);
-      
-      // Parse TLE and calculate current position
-      const satrec = satellite.twoline2satrec(tleData.line1, tleData.line2);
-      const now = new Date();
-      const positionAndVelocity = satellite.propagate(satrec, now);
-      
-      if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
-        const gmst = satellite.gstime(now);
-        const geodeticCoords = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
-        
-        const newSatellite: Satellite = {
-          id: noradId,
-          name: tleData.name,
-          orbitType: "LEO", // Default for TLE satellites
-          altitude: geodeticCoords.height,
-          inclination: 0, // Extract from TLE if needed
-          velocity: 7.8, // Approximate LEO velocity
-          noradId: noradId,
-          tle: {
-            line1: tleData.line1,
-            line2: tleData.line2
-          }
-        };
-        
-        onAdd(newSatellite);
-        setNoradId("");
-        setError(`✅ Successfully loaded ${tleData.name}`);
-      } else {
-        setError("Could not calculate satellite position");
-      }
+
+      // Orbit summary comes from the mean elements; OMM data is kept alongside the generated TLE
+      const newSatellite: Satellite = {
+        ...satelliteFromTle(tleData.name, tleData.line1, tleData.line2),
+        meanElements: tleData.meanElements
+      };
+
+      onAdd(newSatellite);
+      setNoradId("");
+      setError(`✅ Successfully loaded ${tleData.name}`);
     } catch (err) {
       setError(`Failed to load satellite: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -78,44 +74,20 @@ export default function SatelliteForm({ onAdd }: Props) {
     }
   };
 
-  // Load all satellites from a group
+  // Load satellites from a group (cached sets are used when fresh or when CelesTrak is unreachable)
   const handleLoadGroup = async () => {
     setLoading(true);
     setError("");
     
     try {
-      const tleDataArray = await fetchTLEFromCelesTrak(selectedGroup);
-      
-      // Add first 5 satellites from the group (to avoid overwhelming the UI)
-      const satellitesToAdd = tleDataArray.slice(0, 5);
-      
-      satellitesToAdd.forEach((tleData, index) => {
-        const satrec = satellite.twoline2satrec(tleData.line1, tleData.line2);
-        const now = new Date();
-        const positionAndVelocity = satellite.propagate(satrec, now);
-        
-        if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
-          const gmst = satellite.gstime(now);
-          const geodeticCoords = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
-          
-          const newSatellite: Satellite = {
-            id: `${selectedGroup}-${index}`,
-            name: tleData.name,
-            orbitType: "LEO",
-            altitude: geodeticCoords.height,
-            inclination: 0,
-            velocity: 7.8,
-            tle: {
-              line1: tleData.line1,
-              line2: tleData.line2
-            }
-          };
-          
-          onAdd(newSatellite);
-        }
-      });
-      
-      setError(`✅ Loaded ${satellitesToAdd.length} satellites from ${selectedGroup}`);
+      // Add the first 5 satellites of the group (to avoid overwhelming the UI)
+      const result = await onLoadGroup(selectedGroup, 5);
+      const fetchedAt = new Date(result.fetchedAt).toLocaleString();
+      const source = result.offline
+        ? `offline - cached set from ${fetchedAt}`
+        : result.source === 'cache' ? `cached set from ${fetchedAt}` : 'CelesTrak';
+
+      setError(`✅ Loaded ${result.added.length} of ${result.elementSets.length} satellites from ${getGroupName(selectedGroup)} (${source})`);
     } catch (err) {
       setError(`Failed to load group: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
@@ -133,15 +105,36 @@ export default function SatelliteForm({ onAdd }: Props) {
       altitude: Number(form.altitude),
       inclination: Number(form.inclination),
       velocity: Number(form.velocity),
+      // All six classical elements apply to every orbit type
+      eccentricity: Number(form.eccentricity || 0),
+      argumentOfPeriapsis: Number(form.argumentOfPeriapsis || 0),
+      rightAscensionOfAscendingNode: Number(form.rightAscensionOfAscendingNode || 0),
+      meanAnomaly: Number(form.meanAnomaly || 0),
+      perturbationModel: form.perturbationModel,
     };
 
-    // Add orbit-specific parameters
-    if (form.orbitType === "LEO") {
-      satellite.eccentricity = Number(form.eccentricity);
-      satellite.argumentOfPeriapsis = Number(form.argumentOfPeriapsis);
-    } else if (form.orbitType === "Polar") {
-      satellite.rightAscensionOfAscendingNode = Number(form.rightAscensionOfAscendingNode);
-      satellite.meanAnomaly = Number(form.meanAnomaly);
+    if (form.perturbationModel === "j2-drag" && form.ballisticCoefficient) {
+      satellite.ballisticCoefficient = Number(form.ballisticCoefficient);
+    }
+
+    if (form.sigmaRadial && form.sigmaAlongTrack && form.sigmaCrossTrack) {
+      satellite.positionCovariance = diagonalCovariance(
+        Number(form.sigmaRadial) / 1000,
+        Number(form.sigmaAlongTrack) / 1000,
+        Number(form.sigmaCrossTrack) / 1000
+      );
+    }
+    if (form.hardBodyRadius) {
+      satellite.hardBodyRadius = Number(form.hardBodyRadius);
+    }
+    if (form.dryMass && form.propellantMass) {
+      satellite.spacecraft = {
+        dryMass: Number(form.dryMass),
+        propellantMass: Number(form.propellantMass),
+        isp: Number(form.isp || DEFAULT_PROPULSION.isp),
+        maxThrust: Number(form.maxThrust || DEFAULT_PROPULSION.thrust),
+        areaToMass: form.areaToMass ? Number(form.areaToMass) : undefined
+      };
     }
 
     onAdd(satellite);
@@ -154,7 +147,18 @@ export default function SatelliteForm({ onAdd }: Props) {
       eccentricity: "",
       argumentOfPeriapsis: "",
       rightAscensionOfAscendingNode: "",
-      meanAnomaly: ""
+      meanAnomaly: "",
+      perturbationModel: "j2",
+      ballisticCoefficient: "",
+      sigmaRadial: "",
+      sigmaAlongTrack: "",
+      sigmaCrossTrack: "",
+      hardBodyRadius: "",
+      dryMass: "",
+      propellantMass: "",
+      isp: "",
+      maxThrust: "",
+      areaToMass: ""
     });
     setError("✅ Satellite added successfully");
   };
@@ -271,70 +275,208 @@ export default function SatelliteForm({ onAdd }: Props) {
             </div>
           </div>
 
-          {/* LEO specific parameters */}
-          {form.orbitType === "LEO" && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Orbital elements */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Eccentricity (0-1)</label>
+              <input 
+                placeholder="e.g., 0.01" 
+                value={form.eccentricity}
+                onChange={e => setForm({ ...form, eccentricity: e.target.value })} 
+                type="number"
+                min="0"
+                max="0.99"
+                step="0.001"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Argument of Periapsis (°)</label>
+              <input 
+                placeholder="e.g., 0" 
+                value={form.argumentOfPeriapsis}
+                onChange={e => setForm({ ...form, argumentOfPeriapsis: e.target.value })} 
+                type="number"
+                min="0"
+                max="360"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Right Ascension of Ascending Node (°)</label>
+              <input 
+                placeholder="e.g., 0" 
+                value={form.rightAscensionOfAscendingNode}
+                onChange={e => setForm({ ...form, rightAscensionOfAscendingNode: e.target.value })} 
+                type="number"
+                min="0"
+                max="360"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Mean Anomaly (°)</label>
+              <input 
+                placeholder="e.g., 0" 
+                value={form.meanAnomaly}
+                onChange={e => setForm({ ...form, meanAnomaly: e.target.value })} 
+                type="number"
+                min="0"
+                max="360"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          {/* Position uncertainty */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Position Uncertainty (optional, defaults apply)</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Eccentricity (0-1)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Radial σ (m)</label>
                 <input 
-                  placeholder="e.g., 0.01" 
-                  value={form.eccentricity}
-                  onChange={e => setForm({ ...form, eccentricity: e.target.value })} 
+                  placeholder="e.g., 100" 
+                  value={form.sigmaRadial}
+                  onChange={e => setForm({ ...form, sigmaRadial: e.target.value })} 
+                  type="number"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Along-track σ (m)</label>
+                <input 
+                  placeholder="e.g., 500" 
+                  value={form.sigmaAlongTrack}
+                  onChange={e => setForm({ ...form, sigmaAlongTrack: e.target.value })} 
+                  type="number"
+                  min="0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cross-track σ (m)</label>
+                <input 
+                  placeholder="e.g., 100" 
+                  value={form.sigmaCrossTrack}
+                  onChange={e => setForm({ ...form, sigmaCrossTrack: e.target.value })} 
                   type="number"
                   min="0"
-                  max="1"
-                  step="0.01"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Argument of Periapsis (°)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Hard-Body Radius (m)</label>
                 <input 
-                  placeholder="e.g., 0" 
-                  value={form.argumentOfPeriapsis}
-                  onChange={e => setForm({ ...form, argumentOfPeriapsis: e.target.value })} 
+                  placeholder="e.g., 5" 
+                  value={form.hardBodyRadius}
+                  onChange={e => setForm({ ...form, hardBodyRadius: e.target.value })} 
                   type="number"
                   min="0"
-                  max="360"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
                 />
               </div>
             </div>
-          )}
+          </div>
 
-          {/* Polar orbit specific parameters */}
-          {form.orbitType === "Polar" && (
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Spacecraft properties */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Spacecraft (optional, enables fuel accounting)</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Right Ascension of Ascending Node (°)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Dry Mass (kg)</label>
                 <input 
-                  placeholder="e.g., 0" 
-                  value={form.rightAscensionOfAscendingNode}
-                  onChange={e => setForm({ ...form, rightAscensionOfAscendingNode: e.target.value })} 
+                  placeholder="e.g., 450" 
+                  value={form.dryMass}
+                  onChange={e => setForm({ ...form, dryMass: e.target.value })} 
+                  type="number"
+                  min="1"
+                  step="any"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required={form.propellantMass !== ""}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Propellant (kg)</label>
+                <input 
+                  placeholder="e.g., 50" 
+                  value={form.propellantMass}
+                  onChange={e => setForm({ ...form, propellantMass: e.target.value })} 
                   type="number"
                   min="0"
-                  max="360"
+                  step="any"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required={form.dryMass !== ""}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Isp (s)</label>
+                <input 
+                  placeholder={`e.g., ${DEFAULT_PROPULSION.isp}`} 
+                  value={form.isp}
+                  onChange={e => setForm({ ...form, isp: e.target.value })} 
+                  type="number"
+                  min="1"
+                  step="any"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Mean Anomaly (°)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Thrust (N)</label>
                 <input 
-                  placeholder="e.g., 0" 
-                  value={form.meanAnomaly}
-                  onChange={e => setForm({ ...form, meanAnomaly: e.target.value })} 
+                  placeholder={`e.g., ${DEFAULT_PROPULSION.thrust}`} 
+                  value={form.maxThrust}
+                  onChange={e => setForm({ ...form, maxThrust: e.target.value })} 
+                  type="number"
+                  min="0.001"
+                  step="any"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Area-to-Mass (m²/kg)</label>
+                <input 
+                  placeholder="e.g., 0.01" 
+                  value={form.areaToMass}
+                  onChange={e => setForm({ ...form, areaToMass: e.target.value })} 
                   type="number"
                   min="0"
-                  max="360"
+                  step="any"
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
                 />
               </div>
             </div>
-          )}
+          </div>
+
+          {/* Perturbation model */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Perturbation Model</label>
+              <select 
+                value={form.perturbationModel}
+                onChange={e => setForm({ ...form, perturbationModel: e.target.value as PerturbationModel })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="two-body">Two-body (Kepler only)</option>
+                <option value="j2">J2 secular rates</option>
+                <option value="j2-drag">J2 + atmospheric drag</option>
+              </select>
+            </div>
+            {form.perturbationModel === "j2-drag" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ballistic Coefficient (kg/m²)</label>
+                <input 
+                  placeholder={form.areaToMass ? "From area-to-mass" : "e.g., 50"} 
+                  value={form.ballisticCoefficient}
+                  onChange={e => setForm({ ...form, ballisticCoefficient: e.target.value })} 
+                  type="number"
+                  min="1"
+                  max="1000"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            )}
+          </div>
 
           <button 
             type="submit" 
@@ -385,7 +527,7 @@ export default function SatelliteForm({ onAdd }: Props) {
               >
                 {CELESTRAK_GROUPS.map(group => (
                   <option key={group} value={group}>
-                    {group.charAt(0).toUpperCase() + group.slice(1)}
+                    {getGroupName(group)}
                   </option>
                 ))}
               </select>
@@ -398,7 +540,7 @@ export default function SatelliteForm({ onAdd }: Props) {
               </button>
             </div>
             <p className="text-sm text-gray-600">
-              Select a group and load real satellites from CelesTrak
+              Select a group and load real satellites from CelesTrak. Groups are cached for two hours and reused when offline.
             </p>
           </div>
         </div>
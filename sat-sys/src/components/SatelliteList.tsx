@@ -1,4 +1,9 @@
 import { Satellite } from "../types/Satellite";
+import { OrbitUtils } from "../utils/SatelliteSimulator";
+import { ballisticCoefficientOf } from "../utils/orbitalMechanics";
+import { deltaVBudget } from "../utils/maneuverPlanner";
+
+const MAX_BUDGET_BAR = 100; // m/s shown as a full budget bar
 
 interface Props {
   satellites: Satellite[];
@@ -31,6 +36,12 @@ export default function SatelliteList({ satellites, onRemove, onExecuteAction }:
     return `(${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`;
   };
 
+  const formatLifetime = (satellite: Satellite) => {
+    const days = OrbitUtils.estimateOrbitalLifetime(satellite.altitude, ballisticCoefficientOf(satellite));
+    if (!isFinite(days)) return '> 25 years';
+    return days > 365 ? `${(days / 365.25).toFixed(1)} years` : `${days.toFixed(0)} days`;
+  };
+
   const formatVelocity = (velocity?: { x: number; y: number; z: number }) => {
     if (!velocity) return 'N/A';
     const magnitude = Math.sqrt(velocity.x**2 + velocity.y**2 + velocity.z**2);
@@ -98,7 +109,8 @@ export default function SatelliteList({ satellites, onRemove, onExecuteAction }:
               </div>
 
               {/* Orbital Parameters */}
-              {(satellite.eccentricity !== undefined || satellite.argumentOfPeriapsis !== undefined) && (
+              {(satellite.eccentricity !== undefined || satellite.argumentOfPeriapsis !== undefined ||
+                satellite.rightAscensionOfAscendingNode !== undefined || satellite.meanAnomaly !== undefined) && (
                 <div className="mt-3 pt-3 border-t border-gray-200">
                   <h4 className="font-medium text-gray-700 mb-2">Orbital Parameters</h4>
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
@@ -126,6 +138,65 @@ export default function SatelliteList({ satellites, onRemove, onExecuteAction }:
                         <div className="text-gray-900">{satellite.meanAnomaly.toFixed(1)}°</div>
                       </div>
                     )}
+                    {satellite.perturbationModel && (
+                      <div>
+                        <span className="font-medium text-gray-700">Perturbations:</span>
+                        <div className="text-gray-900">{satellite.perturbationModel}</div>
+                      </div>
+                    )}
+                    {satellite.perturbationModel === 'j2-drag' && (
+                      <div>
+                        <span className="font-medium text-gray-700">Est. Lifetime:</span>
+                        <div className="text-gray-900">{formatLifetime(satellite)}</div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Spacecraft and propellant budget */}
+              {satellite.spacecraft && (
+                <div className="mt-3 pt-3 border-t border-gray-200">
+                  <h4 className="font-medium text-gray-700 mb-2">Spacecraft</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-700">Propellant:</span>
+                      <div className="text-gray-900">{satellite.spacecraft.propellantMass.toFixed(3)} kg</div>
+                    </div>
+                    <div>
+                      <span className="font-medium text-gray-700">ΔV Budget:</span>
+                      <div className={`font-semibold ${deltaVBudget(satellite.spacecraft) < 1 ? 'text-red-700' : 'text-gray-900'}`}>
+                        {deltaVBudget(satellite.spacecraft).toFixed(2)} m/s
+                      </div>
+                    </div>
+                    <div>
+                      <span className="font-medium text-gray-700">Mass (dry / wet):</span>
+                      <div className="text-gray-900">
+                        {satellite.spacecraft.dryMass.toFixed(0)} / {(satellite.spacecraft.dryMass + satellite.spacecraft.propellantMass).toFixed(1)} kg
+                      </div>
+                    </div>
+                    <div>
+                      <span className="font-medium text-gray-700">Thruster:</span>
+                      <div className="text-gray-900">{satellite.spacecraft.isp} s Isp, {satellite.spacecraft.maxThrust} N</div>
+                    </div>
+                    {satellite.hardBodyRadius !== undefined && (
+                      <div>
+                        <span className="font-medium text-gray-700">Hard-Body Radius:</span>
+                        <div className="text-gray-900">{satellite.hardBodyRadius} m</div>
+                      </div>
+                    )}
+                    {satellite.spacecraft.areaToMass !== undefined && (
+                      <div>
+                        <span className="font-medium text-gray-700">Area-to-Mass:</span>
+                        <div className="text-gray-900">{satellite.spacecraft.areaToMass} m²/kg</div>
+                      </div>
+                    )}
+                  </div>
+                  <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600"
+                      style={{ width: `${Math.min(100, (deltaVBudget(satellite.spacecraft) / MAX_BUDGET_BAR) * 100)}%` }}
+                    />
                   </div>
                 </div>
               )}
@@ -160,6 +231,14 @@ export default function SatelliteList({ satellites, onRemove, onExecuteAction }:
                     <div className="mb-1">{satellite.tle.line1}</div>
                     <div>{satellite.tle.line2}</div>
                   </div>
+                  {satellite.meanElements && (
+                    <div className="grid grid-cols-2 gap-2 mt-2 text-xs text-gray-600">
+                      <div>OMM Epoch: {satellite.meanElements.epoch.replace('T', ' ').slice(0, 19)} UTC</div>
+                      <div>B*: {satellite.meanElements.bstar.toExponential(4)} 1/ER</div>
+                      <div>ṅ/2: {satellite.meanElements.meanMotionDot.toExponential(4)} rev/day²</div>
+                      <div>n̈/6: {satellite.meanElements.meanMotionDdot.toExponential(4)} rev/day³</div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -1,11 +1,15 @@
-import { useState } from "react";
+import { PcMethod } from "../utils/collisionProbability";
+import { SessionSettings } from "../utils/sessionStore";
 
 interface Props {
   isSimulationRunning: boolean;
-  onStartSimulation: () => void;
+  onStartSimulation: (speed: number) => void;
   onStopSimulation: () => void;
-  onPredictCollisions: () => void;
+  onPredictCollisions: (horizonDays: number, pcMethod: PcMethod) => void;
   satelliteCount: number;
+  simulationDate?: Date;
+  settings: SessionSettings;
+  onChangeSettings: (settings: SessionSettings) => void;
 }
 
 export default function SimulationControlPanel({ 
@@ -13,9 +17,16 @@ export default function SimulationControlPanel({
   onStartSimulation, 
   onStopSimulation, 
   onPredictCollisions,
-  satelliteCount 
+  satelliteCount,
+  simulationDate,
+  settings,
+  onChangeSettings
 }: Props) {
-  const [simulationSpeed, setSimulationSpeed] = useState(1);
+  // Speed and screening choices are part of the persisted session settings
+  const { simulationSpeed, screeningHorizonDays: screeningHorizon, pcMethod } = settings;
+  const setSimulationSpeed = (speed: number) => onChangeSettings({ ...settings, simulationSpeed: speed });
+  const setScreeningHorizon = (days: number) => onChangeSettings({ ...settings, screeningHorizonDays: days });
+  const setPcMethod = (method: PcMethod) => onChangeSettings({ ...settings, pcMethod: method });
 
   return (
     <div className="p-6 border rounded-lg bg-gradient-to-br from-blue-50 to-indigo-50">
@@ -50,7 +61,7 @@ export default function SimulationControlPanel({
           <div className="flex space-x-3">
             {!isSimulationRunning ? (
               <button
-                onClick={onStartSimulation}
+                onClick={() => onStartSimulation(simulationSpeed)}
                 disabled={satelliteCount === 0}
                 className="flex-1 bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors font-medium"
               >
@@ -76,14 +87,51 @@ export default function SimulationControlPanel({
               <span>Simulation stopped</span>
             )}
           </div>
+
+          {simulationDate && (
+            <div className="text-sm text-gray-600">
+              <span className="font-medium">Simulation Time:</span>{' '}
+              <span className="font-mono text-xs">{simulationDate.toISOString().replace('T', ' ').slice(0, 19)} UTC</span>
+            </div>
+          )}
         </div>
 
         {/* Analysis Tools */}
         <div className="space-y-4">
           <h3 className="text-lg font-semibold">Analysis Tools</h3>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Screening Horizon
+            </label>
+            <select
+              value={screeningHorizon}
+              onChange={(e) => setScreeningHorizon(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value={1}>1 day</option>
+              <option value={3}>3 days</option>
+              <option value={7}>7 days</option>
+              <option value={14}>14 days</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Collision Probability Method
+            </label>
+            <select
+              value={pcMethod}
+              onChange={(e) => setPcMethod(e.target.value as PcMethod)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="foster">Foster (numerical integral)</option>
+              <option value="chan">Chan (series)</option>
+            </select>
+          </div>
           
           <button
-            onClick={onPredictCollisions}
+            onClick={() => onPredictCollisions(screeningHorizon, pcMethod)}
             disabled={satelliteCount < 2}
             className="w-full bg-orange-600 text-white py-2 px-4 rounded-md hover:bg-orange-700 disabled:bg-gray-400 transition-colors font-medium"
           >
@@ -0,0 +1,81 @@
+import { BZ_SOUTH_THRESHOLD, latestValue, leadTimeMinutes, SOLAR_WIND_WINDOW, SolarWindSample } from "../utils/solarWind";
+
+interface Props {
+  solarWind: SolarWindSample[];
+}
+
+// Trace area in SVG units: x spans the sample window
+const WIDTH = 720;
+const HEIGHT = 70;
+
+type Field = 'speed' | 'density' | 'bz' | 'bt';
+
+export default function SolarWindPanel({ solarWind }: Props) {
+  const now = Date.now(); // re-rendered as each poll extends the samples
+  const x = (time: string) => ((new Date(time).getTime() - (now - SOLAR_WIND_WINDOW)) / SOLAR_WIND_WINDOW) * WIDTH;
+
+  // Polyline of one field scaled to [min, max]
+  const trace = (field: Field, min: number, max: number) => solarWind
+    .filter(sample => sample[field] !== undefined)
+    .map(sample => {
+      const value = Math.min(max, Math.max(min, sample[field]!));
+      return `${x(sample.time).toFixed(1)},${(HEIGHT - ((value - min) / (max - min)) * HEIGHT).toFixed(1)}`;
+    })
+    .join(" ");
+
+  const speed = latestValue(solarWind, 'speed');
+  const density = latestValue(solarWind, 'density');
+  const bz = latestValue(solarWind, 'bz');
+  const bt = latestValue(solarWind, 'bt');
+  const bzRange = Math.max(20, ...solarWind.map(sample => Math.abs(sample.bz ?? 0)));
+  const bzY = (value: number) => HEIGHT - ((value + bzRange) / (2 * bzRange)) * HEIGHT;
+
+  return (
+    <div className="p-6 border rounded-lg bg-white">
+      <h2 className="text-2xl font-bold mb-4">🌬️ Solar Wind at L1</h2>
+
+      {solarWind.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">Waiting for NOAA real-time solar wind data…</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm mb-4">
+            <div>
+              <span className="font-medium text-gray-700">Speed:</span>
+              <div className="text-gray-900">{speed !== undefined ? `${speed.toFixed(0)} km/s` : 'N/A'}</div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Density:</span>
+              <div className="text-gray-900">{density !== undefined ? `${density.toFixed(1)} p/cm³` : 'N/A'}</div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Bz (GSM):</span>
+              <div className={bz !== undefined && bz <= BZ_SOUTH_THRESHOLD ? 'font-semibold text-red-700' : 'text-gray-900'}>
+                {bz !== undefined ? `${bz.toFixed(1)} nT` : 'N/A'}
+              </div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Bt:</span>
+              <div className="text-gray-900">{bt !== undefined ? `${bt.toFixed(1)} nT` : 'N/A'}</div>
+            </div>
+            <div>
+              <span className="font-medium text-gray-700">Lead Time to Earth:</span>
+              <div className="text-gray-900">{speed !== undefined ? `~${Math.round(leadTimeMinutes(speed))} min` : 'N/A'}</div>
+            </div>
+          </div>
+
+          <div className="text-xs text-gray-600 mb-1">Bz, last 2 hours (dashed: {BZ_SOUTH_THRESHOLD} nT)</div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16 bg-gray-50 rounded">
+            <line x1={0} x2={WIDTH} y1={bzY(0)} y2={bzY(0)} stroke="#9ca3af" />
+            <line x1={0} x2={WIDTH} y1={bzY(BZ_SOUTH_THRESHOLD)} y2={bzY(BZ_SOUTH_THRESHOLD)} stroke="#ef4444" strokeDasharray="4 3" />
+            <polyline points={trace('bz', -bzRange, bzRange)} fill="none" stroke="#7c3aed" strokeWidth={1.5} />
+          </svg>
+
+          <div className="text-xs text-gray-600 mt-3 mb-1">Speed, last 2 hours (250-900 km/s)</div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-16 bg-gray-50 rounded">
+            <polyline points={trace('speed', 250, 900)} fill="none" stroke="#ea580c" strokeWidth={1.5} />
+          </svg>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Coarse land outlines for the offline basemap, [longitude, latitude] in degrees
+ * Simplified by hand to a few dozen vertices per landmass; good enough for ground tracks
+ */
+
+import { LonLat } from '../utils/geography';
+
+export const CONTINENTS: { name: string; outline: LonLat[] }[] = [
+  {
+    name: 'North America',
+    outline: [
+      [-168, 66], [-162, 70], [-156, 71.3], [-140, 69.6], [-128, 70], [-115, 68.5], [-95, 72], [-82, 73],
+      [-68, 70], [-62, 66], [-64, 60], [-78, 62], [-94, 59], [-92, 57], [-82, 55], [-79, 51], [-66, 52],
+      [-56, 52], [-60, 47], [-66, 45], [-70, 42], [-74, 40.5], [-76, 37], [-76, 35], [-81, 31], [-80, 27],
+      [-81, 25], [-83, 29], [-90, 30], [-97, 28], [-97, 22], [-94, 18.5], [-90, 21], [-87, 21], [-88, 16],
+      [-84, 15], [-83, 10], [-79.5, 9], [-77.5, 8], [-80, 7.5], [-85, 10], [-87, 13], [-92, 14.5],
+      [-96, 15.7], [-105, 20], [-105.7, 22.5], [-109, 26], [-112.5, 29.5], [-114.7, 31.7], [-113, 28.5],
+      [-110, 23], [-112, 24.7], [-114.5, 27.5], [-117, 32.5], [-120.6, 34.5], [-124, 40], [-124, 46],
+      [-124.7, 48.4], [-127, 50], [-131, 54], [-136, 58], [-140, 59.8], [-146, 60.5], [-152, 59],
+      [-158, 56.5], [-164, 54.5], [-158, 58], [-162, 60], [-165, 62], [-165, 64.5], [-168, 66]
+    ]
+  },
+  {
+    name: 'Baffin Island',
+    outline: [[-62, 66.5], [-68, 70], [-78, 72.5], [-90, 73], [-80, 70], [-72, 67], [-65, 62], [-62, 66.5]]
+  },
+  {
+    name: 'Victoria Island',
+    outline: [[-118, 70], [-104, 68.5], [-101, 70], [-105, 73], [-117, 73], [-118, 70]]
+  },
+  {
+    name: 'Ellesmere Island',
+    outline: [
+      [-120, 74.5], [-110, 75], [-100, 74], [-95, 77], [-90, 80], [-70, 82.5], [-62, 82], [-78, 78],
+      [-90, 76.5], [-105, 77], [-118, 76], [-120, 74.5]
+    ]
+  },
+  {
+    name: 'Greenland',
+    outline: [
+      [-73, 78], [-60, 82], [-32, 83.5], [-18, 81], [-20, 75], [-22, 70], [-32, 68], [-40, 65], [-43, 60],
+      [-48, 61], [-53, 66], [-55, 70], [-60, 76], [-73, 78]
+    ]
+  },
+  {
+    name: 'Iceland',
+    outline: [[-22.5, 64], [-22, 66.4], [-16, 66.5], [-13.5, 65], [-18.5, 63.4], [-22.5, 64]]
+  },
+  {
+    name: 'Cuba',
+    outline: [[-85, 21.9], [-79, 23.2], [-74.2, 20.2], [-77.5, 19.9], [-85, 21.9]]
+  },
+  {
+    name: 'Hispaniola',
+    outline: [[-74.4, 18.4], [-68.3, 18.6], [-70, 19.7], [-73, 19.9], [-74.4, 18.4]]
+  },
+  {
+    name: 'South America',
+    outline: [
+      [-77.5, 8], [-72, 12], [-62, 10.5], [-52, 5], [-50, 0], [-44, -2.5], [-35, -5], [-35, -9],
+      [-39, -13.5], [-41, -22], [-48, -26], [-53, -34], [-58, -38.5], [-62, -39], [-65, -42], [-67, -46],
+      [-69, -51], [-68.5, -54], [-72, -53], [-75, -50], [-74, -44], [-73.5, -37], [-71.5, -30],
+      [-70.5, -18.5], [-76, -14], [-81, -6], [-80, -1], [-78, 3], [-77.5, 8]
+    ]
+  },
+  {
+    name: 'Great Britain',
+    outline: [
+      [-5.7, 50], [1.4, 51.2], [1.7, 52.7], [0, 53.5], [-1.5, 55], [-2, 57], [-4, 58.6], [-5, 58.6],
+      [-6.2, 56.5], [-4.8, 55], [-3, 54], [-3, 53.3], [-4.5, 52.8], [-5, 51.7], [-3, 51.4], [-5.7, 50]
+    ]
+  },
+  {
+    name: 'Ireland',
+    outline: [[-6, 52.2], [-6, 54], [-7.5, 55.3], [-10, 54], [-10.3, 51.8], [-8, 51.5], [-6, 52.2]]
+  },
+  {
+    name: 'Eurasia',
+    outline: [
+      [-9.5, 37], [-9, 43], [-2, 43.5], [-1.5, 46.5], [-4.5, 48.5], [1.5, 50.5], [4.5, 52.5], [8.5, 54],
+      [8.5, 57], [10.5, 57.7], [12, 55.5], [14, 54], [21, 55], [21, 57], [24, 59.5], [30, 60], [25, 65.5],
+      [21.5, 65], [17.5, 61], [18.5, 59.5], [16, 56], [12.7, 56], [11, 58.8], [8, 58], [5.5, 59], [5, 62],
+      [14, 67], [20, 70], [28, 71], [41, 67], [44, 68.5], [54, 68.5], [60, 69.5], [69, 73], [80, 73.5],
+      [88, 75.5], [104, 77.5], [113, 73.5], [130, 71], [140, 72.5], [160, 70], [170, 70], [180, 68.5],
+      [180, 65], [177, 64.5], [179, 62.5], [170, 60], [163, 59.5], [162, 56], [156.5, 51], [156, 57.5],
+      [143, 59.5], [137, 54], [141, 52], [140, 48], [135, 43.5], [130, 42.5], [129, 35.5], [126.5, 35],
+      [126, 37.5], [125, 39.5], [121.5, 39], [122, 37], [119, 37], [120.5, 34], [122, 30], [119.5, 25],
+      [113, 22], [108, 21.5], [106, 19], [109, 12], [105, 8.7], [100.5, 13.5], [99.5, 9], [103.5, 1.3],
+      [98.5, 8], [98, 16], [94.5, 16], [91.5, 22.5], [87, 21.5], [80, 15.5], [80, 9.5], [77, 8], [73, 17],
+      [72.5, 21], [67, 24.5], [57, 25.5], [56.5, 27], [50, 30], [48, 29.5], [51, 24.5], [56, 26],
+      [59.5, 22.5], [52, 16.5], [43.5, 12.5], [39, 21], [35, 28], [32.5, 30], [34.5, 31.5], [36, 34.5],
+      [36, 36.5], [30, 36.3], [26.5, 38.5], [26, 40.5], [23, 40.5], [23.5, 38], [21.5, 37], [19.5, 41.8],
+      [13.5, 45.5], [12.3, 44.5], [18.5, 40.2], [16, 38], [12, 41.9], [8.8, 44.4], [3, 43.3], [3.2, 41.9],
+      [0, 39.5], [-2, 36.8], [-5.6, 36], [-9.5, 37]
+    ]
+  },
+  {
+    name: 'Novaya Zemlya',
+    outline: [[52, 71], [56, 70.7], [58, 74], [69, 77], [64, 76.5], [55, 74], [52, 71]]
+  },
+  {
+    name: 'Africa',
+    outline: [
+      [-17, 21], [-16.5, 14.5], [-15, 11], [-12, 7], [-8, 4.5], [-2, 5], [4.5, 6.3], [9, 4], [9.8, 1],
+      [12, -5], [13, -12], [11.8, -17], [15, -27], [18.5, -34.5], [22, -34], [27, -33.5], [32.5, -28.5],
+      [35.5, -24], [35, -19.5], [40.5, -15], [40, -10], [39.5, -5], [42, -0.5], [48, 5], [51.3, 11.8],
+      [44, 10.5], [43.2, 12.5], [39, 16.5], [35, 24], [32.5, 30], [29, 30.9], [20, 31], [19.8, 30.5],
+      [15.2, 32.3], [11, 33.5], [10, 37.3], [3, 36.8], [-2, 35], [-6, 35.8], [-9.8, 30], [-13, 27.5], [-17, 21]
+    ]
+  },
+  {
+    name: 'Madagascar',
+    outline: [[49.3, -12], [50.5, -15.5], [49.5, -17], [47, -25], [45, -25.5], [43.3, -22], [44, -17], [46.5, -15.5], [49.3, -12]]
+  },
+  {
+    name: 'Sri Lanka',
+    outline: [[79.8, 6.1], [79.9, 9.8], [81.9, 7.3], [80.6, 5.9], [79.8, 6.1]]
+  },
+  {
+    name: 'Japan',
+    outline: [
+      [130, 31.3], [131.5, 31.5], [132.5, 34], [135.5, 33.5], [139.8, 35], [141, 38], [141.5, 41.5],
+      [145.5, 43.3], [141.8, 45.4], [140, 43], [140, 40.5], [137, 37], [133, 35.5], [130.8, 34], [130, 31.3]
+    ]
+  },
+  {
+    name: 'Taiwan',
+    outline: [[120.1, 23], [121.5, 25.3], [121.9, 24.5], [120.8, 22], [120.1, 23]]
+  },
+  {
+    name: 'Luzon',
+    outline: [[120, 18.5], [122.3, 18.5], [122, 14], [124, 12.5], [120.6, 14.2], [120, 16.5], [120, 18.5]]
+  },
+  {
+    name: 'Mindanao',
+    outline: [[122, 7], [125.5, 9.8], [126.5, 7], [125.4, 5.6], [122, 7]]
+  },
+  {
+    name: 'Sumatra',
+    outline: [[95.3, 5.6], [98, 4], [104, -1], [106, -5.9], [102, -4], [98.8, -0.5], [95.3, 5.6]]
+  },
+  {
+    name: 'Java',
+    outline: [[105, -6.8], [114.5, -7.8], [114.4, -8.7], [106, -7.6], [105, -6.8]]
+  },
+  {
+    name: 'Borneo',
+    outline: [[109, 1.5], [111, -3], [116, -4], [117.5, 1], [119, 5], [117, 7], [115, 5], [111, 1.7], [109, 1.5]]
+  },
+  {
+    name: 'New Guinea',
+    outline: [
+      [131, -1.3], [135, -3.4], [138, -1.6], [141, -2.6], [145.8, -5.3], [150.5, -10.6], [147, -10.2],
+      [144, -7.7], [141, -9.1], [138, -8.4], [137.8, -5.2], [133, -4], [131, -1.3]
+    ]
+  },
+  {
+    name: 'Australia',
+    outline: [
+      [113.5, -22], [114, -26.5], [115, -34], [118, -35], [124, -33.8], [131, -31.5], [135, -34.8],
+      [138, -35.5], [140, -38], [146.5, -39], [150, -37.5], [153, -32], [153.5, -25], [150, -22],
+      [146, -18.5], [145.5, -15], [142.5, -10.7], [141.5, -13], [141.5, -17], [139.5, -17.5], [136, -15],
+      [137, -12], [132.5, -11.5], [130, -13], [129.5, -15], [126, -14], [122, -17.5], [121, -19.5],
+      [117, -20.7], [113.5, -22]
+    ]
+  },
+  {
+    name: 'Tasmania',
+    outline: [[144.6, -40.7], [148.3, -40.9], [148, -43.2], [146, -43.6], [144.6, -40.7]]
+  },
+  {
+    name: 'New Zealand North Island',
+    outline: [[172.7, -34.4], [178.5, -37.7], [177, -39.5], [175, -41.5], [173, -39.5], [174.5, -37], [172.7, -34.4]]
+  },
+  {
+    name: 'New Zealand South Island',
+    outline: [[172.7, -40.5], [174.3, -41.7], [172.7, -43.6], [171, -45.5], [169, -46.7], [166.5, -46], [168, -44], [172.7, -40.5]]
+  },
+  {
+    name: 'Antarctica',
+    outline: [
+      [-180, -90], [-180, -78], [-160, -78], [-150, -76], [-135, -74], [-120, -73.5], [-100, -73], [-80, -73],
+      [-75, -70], [-62, -64], [-58, -64], [-60, -70], [-60, -75], [-40, -78], [-30, -76], [-15, -72], [0, -70],
+      [20, -70], [40, -69], [60, -67], [80, -67], [100, -65.5], [120, -66.5], [140, -66.5], [160, -70],
+      [170, -72], [165, -78], [180, -78], [180, -90]
+    ]
+  }
+];
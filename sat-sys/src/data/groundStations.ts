@@ -0,0 +1,14 @@
+/**
+ * Default ground station network: well-known polar and mid-latitude sites
+ */
+
+import { GroundStation } from '../types/Satellite';
+
+export const DEFAULT_GROUND_STATIONS: GroundStation[] = [
+  { id: 'svalbard', name: 'Svalbard (SvalSat)', latitude: 78.23, longitude: 15.41, altitude: 0.5, minElevation: 5 },
+  { id: 'fairbanks', name: 'Fairbanks', latitude: 64.86, longitude: -147.85, altitude: 0.3, minElevation: 5 },
+  { id: 'wallops', name: 'Wallops Island', latitude: 37.94, longitude: -75.46, altitude: 0.01, minElevation: 5 },
+  { id: 'santiago', name: 'Santiago', latitude: -33.15, longitude: -70.67, altitude: 0.72, minElevation: 5 },
+  { id: 'hartebeesthoek', name: 'Hartebeesthoek', latitude: -25.89, longitude: 27.69, altitude: 1.55, minElevation: 5 },
+  { id: 'canberra', name: 'Canberra', latitude: -35.4, longitude: 148.98, altitude: 0.69, minElevation: 10 }
+];
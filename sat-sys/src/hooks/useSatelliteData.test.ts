@@ -0,0 +1,173 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConjunctionEvent, Satellite, SuggestedAction, ThreatAssessment } from '../types/Satellite';
+import { SESSION_STORE, withStore } from '../utils/database';
+import { loadSession, migrateSession, saveSession, SESSION_SCHEMA_VERSION } from '../utils/sessionStore';
+import { satelliteFromTle } from '../utils/tle';
+import { useSatelliteData } from './useSatelliteData';
+
+// The feeds never answer, so only the restored session drives the hook
+vi.mock('../utils/api', async importOriginal => {
+  const pending = () => new Promise<never>(() => {});
+  return {
+    ...await importOriginal<typeof import('../utils/api')>(),
+    fetchConjunctionData: vi.fn(pending),
+    fetchLatestCMEPrediction: vi.fn(pending),
+    fetchSpaceWeatherAlerts: vi.fn(pending),
+    fetchPlanetaryKp: vi.fn(pending),
+    fetchKpForecast: vi.fn(pending),
+    fetchSolarFlux: vi.fn(pending),
+    fetchSolarWind: vi.fn(pending),
+    fetchGoesParticleFlux: vi.fn(pending),
+    fetchCelesTrakGroup: vi.fn(pending)
+  };
+});
+
+const SESSION_SAVE_DELAY = 2000;
+const iss = satelliteFromTle(
+  'ISS (ZARYA)',
+  '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927',
+  '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537'
+);
+
+const conjunction = (source: ConjunctionEvent['source'], objectName: string): ConjunctionEvent => ({
+  id: `conj-${iss.id}-${objectName}`,
+  satelliteId: iss.id,
+  objectName,
+  tca: '2030-01-01T00:00:00.000Z',
+  missDistance: 0.2,
+  relativeVelocity: 14,
+  probability: 1e-3,
+  risk: 'high',
+  source
+});
+
+const storedRecord = () => withStore(SESSION_STORE, 'readonly', store => store.get('current'));
+const elapse = (ms: number) => act(() => new Promise(resolve => setTimeout(resolve, ms)));
+
+beforeEach(async () => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.clear());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('session restore', () => {
+  it('never overwrites a session this build cannot read', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const newer = { schemaVersion: SESSION_SCHEMA_VERSION + 1, savedAt: '2025-01-01T00:00:00.000Z', fleet: ['sat-1'] };
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(newer, 'current'));
+
+    const { result, unmount } = renderHook(() => useSatelliteData());
+    await waitFor(() => expect(result.current.alerts.some(alert => alert.includes('could not be restored'))).toBe(true));
+    act(() => result.current.setSatellites([iss]));
+    await elapse(SESSION_SAVE_DELAY + 500);
+    unmount();
+
+    expect(await storedRecord()).toEqual(newer);
+  }, 10000);
+
+  it('saves changes once an empty store was read', async () => {
+    const { result, unmount } = renderHook(() => useSatelliteData());
+    await elapse(50);
+    act(() => result.current.setSatellites([iss]));
+    await elapse(SESSION_SAVE_DELAY + 500);
+    unmount();
+
+    expect((await loadSession())!.satellites.map(sat => sat.id)).toEqual([iss.id]);
+  }, 10000);
+
+  it('keeps restored threat assessments through the first render cycles', async () => {
+    const assessment: ThreatAssessment = {
+      satelliteId: iss.id,
+      threatLevel: 'critical',
+      threats: [{ type: 'collision', severity: 9, description: 'DEBRIS 1 - Miss distance: 0.2km' }],
+      recommendedActions: [],
+      lastAssessment: '2025-01-01T00:00:00.000Z'
+    };
+    await saveSession({
+      ...migrateSession({ schemaVersion: SESSION_SCHEMA_VERSION })!,
+      satellites: [iss],
+      conjunctions: [conjunction('feed', 'DEBRIS 1'), conjunction('screening', 'DEBRIS 2'), conjunction('cdm', 'DEBRIS 3')],
+      threatAssessments: [assessment]
+    });
+
+    const { result, unmount } = renderHook(() => useSatelliteData());
+    await waitFor(() => expect(result.current.satellites).toHaveLength(1));
+    await elapse(100);
+
+    expect(result.current.conjunctions.map(event => event.source)).toEqual(['feed', 'screening', 'cdm']);
+    const restored = result.current.threatAssessments.get(iss.id);
+    expect(restored?.threatLevel).toBe('critical');
+    expect(restored?.threats.filter(threat => threat.type === 'collision')).toHaveLength(3);
+    unmount();
+  });
+});
+
+describe('rollbackAction', () => {
+  const craft: Satellite = {
+    id: 'craft-1',
+    name: 'Craft',
+    orbitType: 'LEO',
+    altitude: 500,
+    inclination: 51.6,
+    velocity: 7.6,
+    eccentricity: 0,
+    rightAscensionOfAscendingNode: 0,
+    argumentOfPeriapsis: 0,
+    meanAnomaly: 0,
+    spacecraft: { dryMass: 480, propellantMass: 20, isp: 220, maxThrust: 1 }
+  };
+
+  const burn = (simulationDate: Date, hoursAhead: number): SuggestedAction => ({
+    id: `burn-${hoursAhead}`,
+    type: 'orbit_adjustment',
+    description: `Prograde burn in ${hoursAhead} h`,
+    priority: 'high',
+    parameters: {
+      deltaVVector: { r: 0, t: 1, n: 0 },
+      burnTime: new Date(simulationDate.getTime() + hoursAhead * 3600 * 1000).toISOString()
+    }
+  });
+
+  it('rolls back a maneuver with every later one, restoring their trajectory and propellant', async () => {
+    const { result, unmount } = renderHook(() => useSatelliteData());
+    await elapse(50);
+    act(() => result.current.setSatellites([craft]));
+    await waitFor(() => expect(result.current.simulators.has(craft.id)).toBe(true));
+
+    const simulator = result.current.simulators.get(craft.id)!;
+    const start = result.current.simulationDate;
+    const checkTime = simulator.toSimulationTime(start) + 4 * 3600;
+
+    // Entry ids carry the execution time, so the burns are executed a few milliseconds apart
+    act(() => { result.current.executeAction(craft.id, burn(start, 1)); });
+    const afterFirstBurn = simulator.propagateTo(checkTime).position;
+    await elapse(5);
+    act(() => { result.current.executeAction(craft.id, burn(start, 2)); });
+    await elapse(5);
+    act(() => { result.current.executeAction(craft.id, burn(start, 3)); });
+
+    const [first, second, third] = result.current.actionLog;
+    const propellant = () => result.current.satellites[0].spacecraft!.propellantMass;
+    expect(simulator.getManeuvers()).toHaveLength(3);
+    expect(propellant()).toBeCloseTo(20 - first.fuelUsed - second.fuelUsed - third.fuelUsed, 9);
+
+    act(() => { expect(result.current.rollbackAction(second.id)).toBe(true); });
+
+    expect(result.current.actionLog.map(entry => entry.status)).toEqual(['executed', 'rolled_back', 'rolled_back']);
+    expect(simulator.getManeuvers().map(m => m.id)).toEqual([first.id]);
+    expect(propellant()).toBeCloseTo(20 - first.fuelUsed, 9);
+    const restored = simulator.propagateTo(checkTime).position;
+    expect(restored.x).toBeCloseTo(afterFirstBurn.x, 9);
+    expect(restored.y).toBeCloseTo(afterFirstBurn.y, 9);
+    expect(restored.z).toBeCloseTo(afterFirstBurn.z, 9);
+
+    // Rolled-back entries cannot be rolled back again
+    act(() => { expect(result.current.rollbackAction(third.id)).toBe(false); });
+    unmount();
+  });
+});
@@ -1,33 +1,231 @@
-import { useState, useEffect, useCallback } from "react";
-import { Satellite, ConjunctionEvent, SpaceWeatherAlert, ThreatAssessment, SuggestedAction } from "../types/Satellite";
-import { fetchConjunctionData, fetchLatestCMEPrediction, fetchGeomagneticStorm, fetchSpaceWeatherAlerts, generateSuggestedAction } from "../utils/api";
-import { createSatelliteSimulator, OrbitUtils } from "../utils/SatelliteSimulator";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { Satellite, ConjunctionEvent, SpaceWeatherAlert, ThreatAssessment, SuggestedAction, GroundStation, ActionLogEntry, SpaceWeatherImpact } from "../types/Satellite";
+import { fetchConjunctionData, fetchLatestCMEPrediction, fetchPlanetaryKp, fetchSolarWind, fetchGoesParticleFlux, fetchKpForecast, fetchSolarFlux, fetchSpaceWeatherAlerts, generateSuggestedAction, fetchCelesTrakGroup, CelesTrakGroupResult } from "../utils/api";
+import { actionImpulse, createSatelliteSimulator, SatelliteSimulator } from "../utils/SatelliteSimulator";
+import { screenConjunctions, ScreeningObject } from "../utils/conjunctionScreening";
+import { calculateThreatLevel, computeCollisionProbability, DEFAULT_HARD_BODY_RADIUS, DEFAULT_POSITION_COVARIANCE, PcMethod } from "../utils/collisionProbability";
+import { DEFAULT_PLANNER_OPTIONS, deltaVBudget, ManeuverPlan, planAvoidanceManeuver, propellantForDeltaV, propulsionFor, SpacecraftPropulsion } from "../utils/maneuverPlanner";
+import { predictContactWindows } from "../utils/passPrediction";
+import { assessUplinkFeasibility, UplinkAssessment } from "../utils/uplinkFeasibility";
+import { DEFAULT_GROUND_STATIONS } from "../data/groundStations";
+import { DEFAULT_SESSION_SETTINGS, loadSession, saveSession, SessionSettings, SessionSnapshot } from "../utils/sessionStore";
+import { ballisticCoefficientOf, elementsToStateVector } from "../utils/orbitalMechanics";
+import { satelliteFromTle } from "../utils/tle";
+import { currentStormLevel, GeomagneticScale, KpForecastSample, KpSample, mergeKpHistory, stormTransitionAlert } from "../utils/geomagnetic";
+import { ChargingRisk, chargingTransitionAlert, protonTransitionAlert, radiationEnvironment, RadiationEnvironment, RadiationScale, radiationThreats } from "../utils/radiation";
+import { assessFleetImpact, ImpactDrivers, MIN_IMPACT_SCORE, saaDwellFraction, withImpacts } from "../utils/spaceWeatherImpact";
+import { detectShock, detectSouthwardBz, latestValue, mergeSolarWind, shockAlert, SolarWindSample, southwardBzAlert } from "../utils/solarWind";
+import { forecastFleetDrag, MODERATE_SOLAR_FLUX, SolarFlux } from "../utils/dragForecast";
+
+const CONTACT_REFRESH = 3600; // simulation seconds between contact window predictions
+const CONTACT_HORIZON = 86400; // seconds of contact windows predicted ahead
+const SESSION_SAVE_DELAY = 2000; // ms; the fleet changes every simulation tick, so saves are batched
+const KP_POLL_INTERVAL = 60000; // ms; the 1-minute Kp product updates every minute
+const SOLAR_WIND_POLL_INTERVAL = 60000; // ms; L1 plasma and field are 1-minute averages
+const SHOCK_REALERT = 3600 * 1000; // ms; fronts closer than this to an alerted shock are the same shock
+const RADIATION_POLL_INTERVAL = 5 * 60000; // ms; GOES integral flux is published as 5-minute averages
+const DRAG_DRIVERS_POLL_INTERVAL = 60 * 60000; // ms; F10.7 is measured three times a day, the Kp forecast issued every few hours
+const DRAG_FORECAST_REFRESH = 3600; // simulation seconds between drag forecasts along the Kp forecast
 
 export const useSatelliteData = () => {
   const [satellites, setSatellites] = useState<Satellite[]>([]);
   const [alerts, setAlerts] = useState<string[]>([]);
   const [conjunctions, setConjunctions] = useState<ConjunctionEvent[]>([]);
+  const [screenedConjunctions, setScreenedConjunctions] = useState<ConjunctionEvent[]>([]); // from our own screening runs
+  const [importedConjunctions, setImportedConjunctions] = useState<ConjunctionEvent[]>([]); // from imported CDM files
   const [spaceWeatherAlerts, setSpaceWeatherAlerts] = useState<SpaceWeatherAlert[]>([]);
   const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(new Set()); // Track dismissed alerts
   const [threatAssessments, setThreatAssessments] = useState<Map<string, ThreatAssessment>>(new Map());
-  const [simulators, setSimulators] = useState<Map<string, any>>(new Map());
+  const [simulators, setSimulators] = useState<Map<string, SatelliteSimulator>>(new Map());
+  const [trajectoryRevision, setTrajectoryRevision] = useState(0); // bumped when simulators are added or removed or a maneuver changes
   const [loading, setLoading] = useState(false);
   const [isSimulationRunning, setIsSimulationRunning] = useState(false);
   const [isOfflineMode, setIsOfflineMode] = useState(false);
+  const [kpHistory, setKpHistory] = useState<KpSample[]>([]);
+  const [solarWind, setSolarWind] = useState<SolarWindSample[]>([]);
+  const [radiation, setRadiation] = useState<RadiationEnvironment | null>(null);
+  const [solarFlux, setSolarFlux] = useState<SolarFlux | null>(null);
+  const [kpForecast, setKpForecast] = useState<KpForecastSample[]>([]);
+  const [stormImpacts, setStormImpacts] = useState<SpaceWeatherImpact[]>([]); // of the current geomagnetic storm level
+  const [elementSetsOffline, setElementSetsOffline] = useState(false); // last CelesTrak group came from the cache
+  const [simulationEpoch] = useState(() => new Date()); // wall-clock instant at simulation time 0
+  const [simulationTime, setSimulationTime] = useState(0); // seconds since simulationEpoch
+  const [groundStations, setGroundStations] = useState<GroundStation[]>(DEFAULT_GROUND_STATIONS);
+  const [actionLog, setActionLog] = useState<ActionLogEntry[]>([]);
+  const [settings, setSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [sessionRestored, setSessionRestored] = useState(false);
+
+  const operator = settings.operator;
+  const setOperator = useCallback((name: string) => setSettings(prev => ({ ...prev, operator: name })), []);
+
+  // Executed burns of the restored action log, replayed once each satellite's simulator exists
+  const pendingBurns = useRef<ActionLogEntry[]>([]);
+
+  // Restore the previous session from IndexedDB. Saving starts only once the stored session was restored or
+  // none existed: a record this build cannot read, or a failed load, must not be overwritten.
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session) {
+          pendingBurns.current = session.actionLog.filter(entry => entry.status === 'executed' && entry.burnTime);
+          setSatellites(session.satellites);
+          // Assessments are recomputed from these, so they come back with them
+          setConjunctions(session.conjunctions.filter(event => event.source !== 'screening' && event.source !== 'cdm'));
+          setScreenedConjunctions(session.conjunctions.filter(event => event.source === 'screening'));
+          setImportedConjunctions(session.conjunctions.filter(event => event.source === 'cdm'));
+          setDismissedAlerts(new Set(session.dismissedAlertIds));
+          setThreatAssessments(new Map(session.threatAssessments.map(assessment => [assessment.satelliteId, assessment])));
+          setActionLog(session.actionLog);
+          setGroundStations(session.groundStations);
+          setSettings(session.settings);
+        }
+        setSessionRestored(true);
+      })
+      .catch(error => {
+        console.warn('Could not restore the previous session:', error);
+        setAlerts(prev => [...prev, '⚠️ The saved session could not be restored and is kept as it was; changes made now will not be saved']);
+      });
+  }, []);
+
+  // Save the session as it changes, at most once per SESSION_SAVE_DELAY; nothing is saved until the restore
+  // succeeded, so an empty initial state never overwrites the stored session
+  const sessionSnapshot = useRef<SessionSnapshot | null>(null);
+  const pendingSave = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    if (!sessionRestored) return;
+    sessionSnapshot.current = {
+      satellites,
+      conjunctions: [...conjunctions, ...screenedConjunctions, ...importedConjunctions],
+      dismissedAlertIds: [...dismissedAlerts],
+      threatAssessments: [...threatAssessments.values()],
+      actionLog,
+      groundStations,
+      settings
+    };
+    if (pendingSave.current) return;
+    pendingSave.current = setTimeout(() => {
+      pendingSave.current = null;
+      if (sessionSnapshot.current) {
+        saveSession(sessionSnapshot.current).catch(error => console.warn('Could not save the session:', error));
+      }
+    }, SESSION_SAVE_DELAY);
+  }, [sessionRestored, satellites, conjunctions, screenedConjunctions, importedConjunctions, dismissedAlerts, threatAssessments, actionLog, groundStations, settings]);
+
+  // Reapply restored burns in execution order, at their logged times, so the trajectory matches the
+  // deducted propellant and the burns can still be rolled back
+  const replayBurns = (simulator: SatelliteSimulator, satelliteId: string) => {
+    const burns = pendingBurns.current.filter(entry => entry.satelliteId === satelliteId);
+    if (burns.length === 0) return;
+    pendingBurns.current = pendingBurns.current.filter(entry => entry.satelliteId !== satelliteId);
+
+    burns.forEach(entry => {
+      const impulse = actionImpulse(entry.action);
+      if (impulse) simulator.applyImpulse(entry.id, simulator.toSimulationTime(new Date(entry.burnTime!)), impulse);
+    });
+  };
 
-  // Initialize simulators when satellites change
+  // Initialize simulators when satellites are added or removed; position updates keep the same simulators
   useEffect(() => {
+    const membershipChanged = satellites.length !== simulators.size || satellites.some(sat => !simulators.has(sat.id));
+    if (!membershipChanged) return;
+
     const newSimulators = new Map();
     satellites.forEach(sat => {
       if (!simulators.has(sat.id)) {
-        newSimulators.set(sat.id, createSatelliteSimulator(sat));
+        // New satellites join the shared simulation clock at the current simulation time
+        const simulator = createSatelliteSimulator(sat, simulationEpoch);
+        simulator.calculatePosition(simulationTime);
+        replayBurns(simulator, sat.id);
+        newSimulators.set(sat.id, simulator);
       } else {
         newSimulators.set(sat.id, simulators.get(sat.id));
       }
     });
     setSimulators(newSimulators);
+    setTrajectoryRevision(revision => revision + 1);
   }, [satellites]);
 
+  // Latest simulators and clock for callbacks running on intervals
+  const simulatorsRef = useRef(simulators);
+  const simulationTimeRef = useRef(simulationTime);
+  const satellitesRef = useRef(satellites);
+  simulatorsRef.current = simulators;
+  simulationTimeRef.current = simulationTime;
+  satellitesRef.current = satellites;
+  const solarWindRef = useRef(solarWind);
+  solarWindRef.current = solarWind;
+  const trajectoryRevisionRef = useRef(trajectoryRevision);
+  trajectoryRevisionRef.current = trajectoryRevision;
+
+  // Burns are sized for the satellite's own propulsion and limited by its remaining delta-V budget
+  const propulsionOptions = useCallback((satelliteId: string): { propulsion: SpacecraftPropulsion; maxDeltaV: number } => {
+    const satellite = satellitesRef.current.find(sat => sat.id === satelliteId);
+    return {
+      propulsion: propulsionFor(satellite),
+      maxDeltaV: satellite?.spacecraft
+        ? Math.min(DEFAULT_PLANNER_OPTIONS.maxDeltaV, deltaVBudget(satellite.spacecraft))
+        : DEFAULT_PLANNER_OPTIONS.maxDeltaV
+    };
+  }, []);
+
+  // Passes over the ground station network, predicted in hourly blocks of simulation time. The simulators
+  // are read from the ref: the simulation tick replaces the map every second without changing any trajectory.
+  const contactRevision = Math.floor(simulationTime / CONTACT_REFRESH);
+  const contactWindows = useMemo(() => {
+    const start = new Date(simulationEpoch.getTime() + contactRevision * CONTACT_REFRESH * 1000);
+    return predictContactWindows(simulatorsRef.current, groundStations, start, new Date(start.getTime() + CONTACT_HORIZON * 1000));
+  }, [trajectoryRevision, groundStations, contactRevision, simulationEpoch]);
+
+  // Current simulation date, for callbacks running on intervals; TCAs are compared against it, not the wall clock
+  const simulationNow = useCallback(
+    () => new Date(simulationEpoch.getTime() + simulationTimeRef.current * 1000),
+    [simulationEpoch]
+  );
+
+  // Maneuver plans are cached per conjunction, since planning runs many trial propagations
+  const maneuverPlans = useRef(new Map<string, ManeuverPlan | null>());
+
+  const suggestAction = useCallback((event: ConjunctionEvent): SuggestedAction => {
+    const simulator = simulatorsRef.current.get(event.satelliteId);
+    if (!simulator || event.risk === 'low') return generateSuggestedAction(event, null, simulationNow());
+
+    if (!maneuverPlans.current.has(event.id)) {
+      const options = propulsionOptions(event.satelliteId);
+      maneuverPlans.current.set(event.id, options.maxDeltaV > 0
+        ? planAvoidanceManeuver(event, simulator, { ...options, currentTime: simulationTimeRef.current })
+        : null); // out of propellant
+    }
+    return generateSuggestedAction(event, maneuverPlans.current.get(event.id), simulationNow());
+  }, [propulsionOptions, simulationNow]);
+
+  // SAA dwell per satellite, over a simulated day of ground track; kept until the day or a trajectory changes
+  const saaFractionCache = useRef(new Map<string, { key: string; fraction: number }>());
+
+  /**
+   * Per-satellite impact of storm conditions; SAA dwell comes from a day of each LEO satellite's ground track
+   */
+  const fleetImpact = useCallback((kp: number, withSolarWind: boolean) => {
+    const drivers: ImpactDrivers = { kp };
+    if (withSolarWind) {
+      const samples = solarWindRef.current;
+      drivers.solarWind = { speed: latestValue(samples, 'speed'), density: latestValue(samples, 'density'), bz: latestValue(samples, 'bz') };
+    }
+    const day = Math.floor(simulationTimeRef.current / 86400);
+    const key = `${trajectoryRevisionRef.current}:${day}`;
+    const saaFractions = new Map<string, number>();
+    satellitesRef.current.forEach(sat => {
+      const simulator = simulatorsRef.current.get(sat.id);
+      if (!simulator || sat.altitude >= 2000) return;
+      let cached = saaFractionCache.current.get(sat.id);
+      if (cached?.key !== key) {
+        cached = { key, fraction: saaDwellFraction(simulator, day * 86400) };
+        saaFractionCache.current.set(sat.id, cached);
+      }
+      saaFractions.set(sat.id, cached.fraction);
+    });
+    return assessFleetImpact(satellitesRef.current, drivers, saaFractions);
+  }, []);
+
   // Real-time threat monitoring
   useEffect(() => {
     const monitorThreats = async () => {
@@ -42,10 +240,9 @@ export const useSatelliteData = () => {
         }
 
         // Use Promise.allSettled to handle individual API failures gracefully
-        const [conjunctionResult, cmeResult, geomagneticResult, weatherResult] = await Promise.allSettled([
-          fetchConjunctionData(),
+        const [conjunctionResult, cmeResult, weatherResult] = await Promise.allSettled([
+          fetchConjunctionData(satellites.map(sat => sat.noradId).filter((id): id is string => Boolean(id))),
           fetchLatestCMEPrediction(),
-          fetchGeomagneticStorm(),
           fetchSpaceWeatherAlerts()
         ]);
         console.log('CME Result:', cmeResult);
@@ -55,16 +252,11 @@ export const useSatelliteData = () => {
         // Extract data from successful promises, use fallback for failed ones
         const conjunctionData = conjunctionResult.status === 'fulfilled' && Array.isArray(conjunctionResult.value) ? conjunctionResult.value : [];
         const cmeEvent = cmeResult.status === 'fulfilled' && Array.isArray(cmeResult.value) ? cmeResult.value : [];        
-        const geomagneticData = geomagneticResult.status === 'fulfilled' && Array.isArray(geomagneticResult.value) ? geomagneticResult.value : [];
         const weatherAlerts = weatherResult.status === 'fulfilled' && Array.isArray(weatherResult.value) ? weatherResult.value : [];
 
-        // Check if we're in offline mode (all APIs failed)
-        const allFailed = conjunctionResult.status === 'rejected' && 
-                         cmeResult.status === 'rejected' && 
-                         geomagneticResult.status === 'rejected' && 
-                         weatherResult.status === 'rejected';
-        
-        setIsOfflineMode(allFailed);
+        // Offline whenever the conjunction feed is unreachable; its last events are kept rather than cleared
+        const conjunctionFeedFailed = conjunctionResult.status === 'rejected';
+        setIsOfflineMode(conjunctionFeedFailed);
 
         // Process conjunction alerts - only for satellites that exist in the system
         const conjunctionAlerts: string[] = [];
@@ -78,7 +270,7 @@ export const useSatelliteData = () => {
             return; // Skip this conjunction if the satellite doesn't exist
           }
 
-          const timeUntil = new Date(c.tca).getTime() - Date.now();
+          const timeUntil = new Date(c.tca).getTime() - simulationNow().getTime();
           const hoursUntil = Math.round(timeUntil / (1000 * 60 * 60));
 
           // uniqueid generation
@@ -90,8 +282,8 @@ export const useSatelliteData = () => {
           }
 
           // Add suggested action and unique ID (NEW: based on stable properties to avoid index issues)
-          const suggestedAction = generateSuggestedAction(c);
-          const enhancedConjunction = { ...c, id: uniqueId, suggestedAction };
+          const feedConjunction: ConjunctionEvent = { ...c, id: uniqueId, source: 'feed' };
+          const enhancedConjunction: ConjunctionEvent = { ...feedConjunction, suggestedAction: suggestAction(feedConjunction) };
           newConjunctions.push(enhancedConjunction);
           
           if (c.risk === "high") {
@@ -131,10 +323,9 @@ export const useSatelliteData = () => {
                 const spaceWeatherAlert: SpaceWeatherAlert = {
                   id: `cme-${prediction.predictedMethodName}`, // Adjusted ID since cmeID is not present
                   type: 'cme',
-                  severity: 'medium', // Adjust severity based on Kp range or other criteria
+                  severity: 'medium',
                   message: `CME predicted by ${prediction.predictedMethodName}: Arrival on ${predictedArrival.toISOString()} with Kp range ${prediction.predictedMaxKpLowerRange}-${prediction.predictedMaxKpUpperRange}`,
                   timestamp: submissionTime.toISOString(),
-                  affectedSatellites: satellites.map(sat => sat.id), // Only affect existing satellites
                   suggestedAction: {
                     id: `action-cme-${prediction.predictedMethodName}`,
                   type: 'monitor',
@@ -144,67 +335,27 @@ export const useSatelliteData = () => {
                   successProbability: 0.9
                   }
                 };
-                newSpaceWeatherAlerts.push(spaceWeatherAlert);
-            }
-          }
-        }
-
-        // Process geomagnetic storm alerts ---- still needs work
-        const geomagneticAlerts: string[] = [];
-        const newGeomagAlerts: SpaceWeatherAlert[] = []; // Optional: for consistency, create dismissable geomagnetic alerts
-
-        if (geomagneticData.length > 0) {
-          const latestKp = geomagneticData[geomagneticData.length - 1];
-          if (latestKp.kp_index > 5) {
-
-            
-            // Generate unique ID for geomagnetic (assuming latestKp has observedTime or similar field)
-            const geoId = `geomag-${new Date(latestKp.time_tag).getTime()}`; // Adjust field name if needed (e.g., latestKp.time_tag)
-            
-            // // Skip if dismissed or already exists
-            if (dismissedAlerts.has(geoId) || spaceWeatherAlerts.some(alert => alert.id === geoId)) {
-            } else {
-            
-            geomagneticAlerts.push(
-              `🌪️ GEOMAGNETIC STORM: Kp index ${latestKp.kp_index} - Monitor satellite health`
-            );
-            // Optional: Create a dismissable alert for geomagnetic
-              const geomagAlert: SpaceWeatherAlert = {
-                id: geoId,
-                type: 'geomagnetic',
-                severity: latestKp.kp_index > 7 ? 'critical' : 'high',
-                message: `Kp index ${latestKp.kp_index}`,
-                timestamp: latestKp.time_tag,
-                affectedSatellites: satellites.map(sat => sat.id),
-                suggestedAction: {
-                  id: `action-geomag-${geoId}`,
-                  type: 'monitor',
-                  description: 'Increase monitoring frequency',
-                  priority: 'medium',
-                  estimatedTimeToExecute: 0,
-                  successProbability: 1.0
-                }
-              };
-              newGeomagAlerts.push(geomagAlert);
+                // Scored against the upper end of the forecast Kp range; the solar wind is not yet measured
+                const forecastKp = prediction.predictedMaxKpUpperRange ?? prediction.predictedMaxKpLowerRange ?? 5;
+                newSpaceWeatherAlerts.push(withImpacts(spaceWeatherAlert, fleetImpact(forecastKp, false)));
             }
           }
         }
 
         // Update state
-        setConjunctions(newConjunctions);
-        setSpaceWeatherAlerts(prev => [...prev, ...newSpaceWeatherAlerts, ...newGeomagAlerts]);
-        setAlerts([...conjunctionAlerts, ...cmeAlerts, ...geomagneticAlerts]);
-
-        // Update threat assessments
-        updateThreatAssessments(newConjunctions);
+        if (!conjunctionFeedFailed) {
+          setConjunctions(newConjunctions);
+        }
+        setSpaceWeatherAlerts(prev => [...prev, ...newSpaceWeatherAlerts.filter(alert => !prev.some(existing => existing.id === alert.id))]);
+        setAlerts([...conjunctionAlerts, ...cmeAlerts]);
 
       } catch (error) {
         console.error("Error monitoring threats:", error);
         // Don't add network errors to alerts - just log them
         // Only add user-friendly error messages for critical issues
         if (error instanceof Error && (error.message.includes('Network Error') || error.message.includes('ERR_NETWORK'))) {
-          console.warn("Network connectivity issue - using cached/mock data");
-          // Continue with mock data or cached data instead of showing error
+          console.warn("Network connectivity issue - keeping the last data received");
+          // Continue with the last data received instead of showing an error
           return;
         }
         // For other errors, add a user-friendly message
@@ -220,31 +371,176 @@ export const useSatelliteData = () => {
     return () => clearInterval(interval);
   }, [satellites]); // Re-run when satellites change
 
+  // Planetary Kp: rolling history, with an alert whenever the storm scale changes rather than on every poll
+  const stormScale = useRef<GeomagneticScale>(0);
+  useEffect(() => {
+    let history: KpSample[] = [];
+
+    const pollKp = async () => {
+      try {
+        history = mergeKpHistory(history, await fetchPlanetaryKp());
+      } catch (error) {
+        console.warn('Planetary Kp unavailable, keeping the previous history:', error);
+        return;
+      }
+      setKpHistory(history);
+
+      const level = currentStormLevel(history);
+      if (!level || level.scale === stormScale.current) return;
+      const impacts = level.scale > 0 ? fleetImpact(level.kp, true) : [];
+      const alert = stormTransitionAlert(level, stormScale.current, satellitesRef.current.map(sat => sat.id));
+      const rising = level.scale > stormScale.current;
+      stormScale.current = level.scale;
+      setStormImpacts(impacts);
+      setSpaceWeatherAlerts(prev => [...prev, rising ? withImpacts(alert, impacts) : alert]);
+    };
+
+    pollKp();
+    const interval = setInterval(pollKp, KP_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fleetImpact]);
+
+  // Solar wind at L1: alerts for shock arrivals and sustained southward Bz, with the lead time to Earth
+  const lastShockTime = useRef(0);
+  useEffect(() => {
+    let history: SolarWindSample[] = [];
+
+    const pollSolarWind = async () => {
+      try {
+        history = mergeSolarWind(history, await fetchSolarWind());
+      } catch (error) {
+        console.warn('Solar wind data unavailable, keeping the previous samples:', error);
+        return;
+      }
+      setSolarWind(history);
+
+      const satelliteIds = satellitesRef.current.map(sat => sat.id);
+      const newAlerts: SpaceWeatherAlert[] = [];
+      const shock = detectShock(history);
+      if (shock && new Date(shock.time).getTime() - lastShockTime.current > SHOCK_REALERT) {
+        lastShockTime.current = new Date(shock.time).getTime();
+        newAlerts.push(shockAlert(shock, satelliteIds));
+      }
+      const southwardBz = detectSouthwardBz(history);
+      if (southwardBz) newAlerts.push(southwardBzAlert(southwardBz, latestValue(history, 'speed'), satelliteIds));
+
+      // Each event has a stable id, so it is raised once however many polls see it
+      if (newAlerts.length > 0) {
+        setSpaceWeatherAlerts(prev => [...prev, ...newAlerts.filter(alert => !prev.some(existing => existing.id === alert.id))]);
+      }
+    };
+
+    pollSolarWind();
+    const interval = setInterval(pollSolarWind, SOLAR_WIND_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // GOES particle flux: alerts on solar radiation storm and charging risk changes, for the orbits each reaches
+  const protonScale = useRef<RadiationScale>(0);
+  const chargingRisk = useRef<ChargingRisk>('nominal');
+  useEffect(() => {
+    const pollRadiation = async () => {
+      let environment: RadiationEnvironment | null;
+      try {
+        const { protons, electrons } = await fetchGoesParticleFlux();
+        environment = radiationEnvironment(protons, electrons);
+      } catch (error) {
+        console.warn('GOES particle flux unavailable, keeping the previous radiation environment:', error);
+        return;
+      }
+      if (!environment) return;
+      setRadiation(environment);
+
+      const newAlerts: SpaceWeatherAlert[] = [];
+      if (environment.protonScale !== protonScale.current) {
+        newAlerts.push(protonTransitionAlert(environment, protonScale.current, satellitesRef.current));
+        protonScale.current = environment.protonScale;
+      }
+      if (environment.chargingRisk !== chargingRisk.current) {
+        newAlerts.push(chargingTransitionAlert(environment, chargingRisk.current, satellitesRef.current));
+        chargingRisk.current = environment.chargingRisk;
+      }
+      if (newAlerts.length > 0) setSpaceWeatherAlerts(prev => [...prev, ...newAlerts]);
+    };
+
+    pollRadiation();
+    const interval = setInterval(pollRadiation, RADIATION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Thermosphere drivers for the drag forecast; each keeps its previous value when its product is unavailable
+  useEffect(() => {
+    const pollDragDrivers = async () => {
+      const [flux, forecast] = await Promise.allSettled([fetchSolarFlux(), fetchKpForecast()]);
+      if (flux.status === 'fulfilled') setSolarFlux(flux.value);
+      else console.warn('10.7 cm solar flux unavailable, keeping the previous value:', flux.reason);
+      if (forecast.status === 'fulfilled') setKpForecast(forecast.value);
+      else console.warn('Kp forecast unavailable, keeping the previous forecast:', forecast.reason);
+    };
+
+    pollDragDrivers();
+    const interval = setInterval(pollDragDrivers, DRAG_DRIVERS_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Storm-driven decay and along-track error per LEO satellite, against a quiet-time prediction. Forecasts
+  // follow the element sets and drag properties, not the positions the simulation tick writes every second,
+  // and start from the simulation clock in hourly blocks.
+  const currentKp = currentStormLevel(kpHistory)?.kp;
+  const dragElements = satellites
+    .map(sat => `${sat.id}:${sat.tle ? sat.tle.line1 + sat.tle.line2 : sat.altitude}:${ballisticCoefficientOf(sat)}`)
+    .join('|');
+  const dragRevision = Math.floor(simulationTime / DRAG_FORECAST_REFRESH);
+  const dragForecasts = useMemo(() => currentKp === undefined
+    ? []
+    : forecastFleetDrag(
+        satellitesRef.current,
+        solarFlux ?? MODERATE_SOLAR_FLUX,
+        currentKp,
+        kpForecast,
+        simulationEpoch.getTime() + dragRevision * DRAG_FORECAST_REFRESH * 1000
+      ),
+  [dragElements, solarFlux, currentKp, kpForecast, dragRevision, simulationEpoch]);
+
   // Update threat assessments for each satellite
   const updateThreatAssessments = useCallback((conjunctions: ConjunctionEvent[]) => {
     const newAssessments = new Map<string, ThreatAssessment>();
     
     satellites.forEach(sat => {
       const satelliteConjunctions = conjunctions.filter(c => c.satelliteId === sat.id);
+      const radiationThreatsForSat = radiation ? radiationThreats(radiation, sat) : [];
+      const stormImpact = stormImpacts.find(impact => impact.satelliteId === sat.id && impact.score >= MIN_IMPACT_SCORE);
+      const spaceWeatherThreats = stormImpact ? stormImpact.factors.filter(factor => factor.score >= MIN_IMPACT_SCORE).map(factor => ({
+        type: 'space_weather' as const,
+        severity: Math.round(factor.score),
+        description: factor.description
+      })) : [];
       
-      if (satelliteConjunctions.length > 0) {
-        const threats = satelliteConjunctions.map(c => ({
-          type: 'collision' as const,
-          severity: c.risk === 'high' ? 9 : c.risk === 'medium' ? 6 : 3,
-          timeToImpact: (new Date(c.tca).getTime() - Date.now()) / (1000 * 60), // minutes
-          description: `${c.objectName} - Miss distance: ${c.missDistance}km`
-        }));
-
-        const threatLevel = satelliteConjunctions.some(c => c.risk === 'high') ? 'critical' :
-                           satelliteConjunctions.some(c => c.risk === 'medium') ? 'high' : 'medium';
-
-        const recommendedActions = satelliteConjunctions
-          .filter(c => c.suggestedAction)
-          .map(c => c.suggestedAction!)
-          .sort((a, b) => {
-            const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-            return priorityOrder[b.priority] - priorityOrder[a.priority];
-          });
+      if (satelliteConjunctions.length > 0 || radiationThreatsForSat.length > 0 || spaceWeatherThreats.length > 0) {
+        const threats = [
+          ...satelliteConjunctions.map(c => ({
+            type: 'collision' as const,
+            severity: c.risk === 'high' ? 9 : c.risk === 'medium' ? 6 : 3,
+            timeToImpact: (new Date(c.tca).getTime() - simulationNow().getTime()) / (1000 * 60), // minutes
+            description: `${c.objectName} - Miss distance: ${c.missDistance}km`
+          })),
+          ...radiationThreatsForSat,
+          ...spaceWeatherThreats
+        ];
+
+        const collisionLevel = satelliteConjunctions.length === 0 ? 'low' :
+                               satelliteConjunctions.some(c => c.risk === 'high') ? 'critical' :
+                               satelliteConjunctions.some(c => c.risk === 'medium') ? 'high' : 'medium';
+        const radiationSeverity = Math.max(0, ...radiationThreatsForSat.map(threat => threat.severity));
+        const radiationLevel = radiationSeverity >= 9 ? 'critical' : radiationSeverity >= 7 ? 'high' : radiationSeverity >= 4 ? 'medium' : 'low';
+        const levelOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+        const levels: ThreatAssessment['threatLevel'][] = [collisionLevel, radiationLevel, stormImpact?.severity ?? 'low'];
+        const threatLevel = levels.reduce((worst, level) => levelOrder[level] > levelOrder[worst] ? level : worst);
+
+        const recommendedActions = [
+          ...satelliteConjunctions.filter(c => c.suggestedAction).map(c => c.suggestedAction!),
+          ...(stormImpact ? [stormImpact.suggestedAction] : [])
+        ].sort((a, b) => levelOrder[b.priority] - levelOrder[a.priority]);
 
         newAssessments.set(sat.id, {
           satelliteId: sat.id,
@@ -257,19 +553,28 @@ export const useSatelliteData = () => {
     });
 
     setThreatAssessments(newAssessments);
-  }, [satellites]);
+  }, [satellites, radiation, stormImpacts, simulationNow]);
+
+  // Reassess whenever feed, screening or imported conjunctions change
+  useEffect(() => {
+    updateThreatAssessments([...conjunctions, ...screenedConjunctions, ...importedConjunctions]);
+  }, [conjunctions, screenedConjunctions, importedConjunctions, updateThreatAssessments]);
 
   // Simulation functions
-  const startSimulation = useCallback(() => {
+  const startSimulation = useCallback((speed: number = 1) => {
     setIsSimulationRunning(true);
+
+    // 1 minute of simulation time per real second at 1x speed
+    const timeStep = 60 * speed;
     
     const simulationInterval = setInterval(() => {
+      setSimulationTime(prev => prev + timeStep);
       setSimulators(prevSimulators => {
         const updatedSimulators = new Map();
         
         prevSimulators.forEach((simulator, satelliteId) => {
           // Update simulation time
-          simulator.calculatePosition(60); // 1 minute time step
+          simulator.calculatePosition(timeStep);
           
           // Update satellite position in state
           const state = simulator.getCurrentState();
@@ -304,29 +609,6 @@ export const useSatelliteData = () => {
     }
   }, []);
 
-  const executeAction = useCallback((satelliteId: string, action: SuggestedAction): boolean => {
-    const simulator = simulators.get(satelliteId);
-    if (!simulator) return false;
-
-    const success = simulator.executeAction(action);
-    
-    if (success) {
-      // Update satellite with new parameters
-      setSatellites(prevSats => 
-        prevSats.map(sat => 
-          sat.id === satelliteId 
-            ? { ...sat, lastUpdated: new Date().toISOString() }
-            : sat
-        )
-      );
-      
-      // Add execution alert
-      setAlerts(prev => [...prev, `✅ Action executed for ${satellites.find(s => s.id === satelliteId)?.name}: ${action.description}`]);
-    }
-    
-    return success;
-  }, [simulators, satellites]);
-
   // const dismissAlert = useCallback((alertId: string): void => {
   //   console.log('Dismissing alert:', alertId);
     
@@ -345,50 +627,336 @@ export const useSatelliteData = () => {
   //   return !dismissedAlerts.has(alertId);
   // });
 
-  // Collision prediction between satellites
-  const predictCollisions = useCallback(() => {
-    const collisionPredictions: string[] = [];
-    
-    for (let i = 0; i < satellites.length; i++) {
-      for (let j = i + 1; j < satellites.length; j++) {
-        const sat1 = simulators.get(satellites[i].id);
-        const sat2 = simulators.get(satellites[j].id);
-        
-        if (sat1 && sat2) {
-          const prediction = OrbitUtils.predictCollisionRisk(sat1, sat2);
-          
-          if (prediction.risk !== 'low') {
-            collisionPredictions.push(
-              `⚠️ ${prediction.risk.toUpperCase()} collision risk between ${satellites[i].name} and ${satellites[j].name} - Min distance: ${prediction.minDistance.toFixed(2)}km`
-            );
-          }
-        }
+  // Settings of the last screening run, reused when re-screening after a maneuver
+  const lastScreening = useRef<{ horizonDays: number; pcMethod: PcMethod } | null>(null);
+
+  // Conjunction screening between our satellites
+  const predictCollisions = useCallback((horizonDays: number = 7, pcMethod: PcMethod = 'foster') => {
+    lastScreening.current = { horizonDays, pcMethod };
+
+    const objects: ScreeningObject[] = satellites
+      .filter(sat => simulators.has(sat.id))
+      .map(sat => {
+        const simulator = simulators.get(sat.id)!;
+        // Pure propagation - screening never advances the live simulators
+        return { id: sat.id, name: sat.name, stateAt: (t: number) => simulator.propagateTo(t) };
+      });
+
+    if (objects.length < 2) return;
+
+    // Geometry may have changed since the last run; replan everything
+    maneuverPlans.current.clear();
+
+    const approaches = screenConjunctions(objects, {
+      startTime: simulationTime,
+      horizon: horizonDays * 86400
+    });
+
+    const events: ConjunctionEvent[] = approaches.map(approach => {
+      const tca = new Date(simulationEpoch.getTime() + approach.tca * 1000);
+      const missDistance = Number(approach.missDistance.toFixed(3));
+      const primary = satellites.find(sat => sat.id === approach.primaryId)!;
+      const secondary = satellites.find(sat => sat.id === approach.secondaryId)!;
+      const primaryCovariance = primary.positionCovariance ?? DEFAULT_POSITION_COVARIANCE;
+      const secondaryCovariance = secondary.positionCovariance ?? DEFAULT_POSITION_COVARIANCE;
+      const combinedHardBodyRadius = (primary.hardBodyRadius ?? DEFAULT_HARD_BODY_RADIUS) +
+                                     (secondary.hardBodyRadius ?? DEFAULT_HARD_BODY_RADIUS);
+
+      const primaryState = simulators.get(approach.primaryId)!.propagateTo(approach.tca);
+      const secondaryState = simulators.get(approach.secondaryId)!.propagateTo(approach.tca);
+
+      const probability = computeCollisionProbability({
+        primaryState,
+        secondaryState,
+        primaryCovariance,
+        secondaryCovariance,
+        hardBodyRadius: combinedHardBodyRadius
+      }, pcMethod);
+
+      const event: ConjunctionEvent = {
+        id: `screen-${approach.primaryId}-${approach.secondaryId}-${tca.getTime()}`,
+        satelliteId: approach.primaryId,
+        objectName: secondary.name,
+        objectId: approach.secondaryId,
+        tca: tca.toISOString(),
+        missDistance,
+        relativeVelocity: Number(approach.relativeVelocity.toFixed(3)),
+        probability,
+        risk: calculateThreatLevel(missDistance, probability),
+        source: 'screening',
+        relativePosition: approach.relativePosition,
+        relativeVelocityVector: approach.relativeVelocityVector,
+        primaryState,
+        secondaryState,
+        primaryFrame: simulators.get(approach.primaryId)!.getReferenceFrame(),
+        secondaryFrame: simulators.get(approach.secondaryId)!.getReferenceFrame(),
+        primaryCovariance,
+        secondaryCovariance,
+        combinedHardBodyRadius,
+        pcMethod
+      };
+      return { ...event, suggestedAction: suggestAction(event) };
+    });
+
+    setScreenedConjunctions(events);
+    setAlerts(prev => [
+      ...prev,
+      `🔍 Screening complete: ${events.length} conjunction(s) found over the next ${horizonDays} day(s)`
+    ]);
+  }, [satellites, simulators, simulationTime, simulationEpoch, suggestAction]);
+
+  // Conjunction whose suggested action this is, if any
+  const findConjunctionForAction = useCallback((satelliteId: string, action: SuggestedAction) =>
+    [...conjunctions, ...screenedConjunctions, ...importedConjunctions]
+      .find(c => c.satelliteId === satelliteId && c.suggestedAction?.id === action.id),
+  [conjunctions, screenedConjunctions, importedConjunctions]);
+
+  // Verify an action can be uplinked before it must take effect; burns that miss their planned time
+  // are re-planned from the end of the next usable contact
+  const checkActionFeasibility = useCallback((satelliteId: string, action: SuggestedAction): { assessment: UplinkAssessment; action: SuggestedAction } => {
+    const simulator = simulators.get(satelliteId);
+    if (!simulator) {
+      return { assessment: { status: 'blocked', reason: 'Simulator not initialized yet - start the simulation first' }, action };
+    }
+
+    const satellite = satellites.find(sat => sat.id === satelliteId);
+    const event = findConjunctionForAction(satelliteId, action);
+    const now = simulator.toDate(simulationTime);
+    const deadline = event
+      ? new Date(event.tca)
+      : new Date(Math.max(new Date(action.parameters?.burnTime ?? 0).getTime(), now.getTime() + CONTACT_HORIZON * 1000));
+    const contactWindows = predictContactWindows(new Map([[satelliteId, simulator]]), groundStations, now, deadline);
+
+    const assessment = assessUplinkFeasibility({ action, satellite, contactWindows, now, deadline });
+    if (assessment.status !== 'rescheduled') return { assessment, action };
+
+    const uplinkEnd = new Date(assessment.uplinkEnd!);
+    let rescheduled: SuggestedAction = { ...action, parameters: { ...action.parameters, burnTime: uplinkEnd.toISOString() } };
+    if (event) {
+      const plan = planAvoidanceManeuver(event, simulator, {
+        ...propulsionOptions(satelliteId),
+        currentTime: simulator.toSimulationTime(uplinkEnd),
+        minimumLeadTime: 0
+      });
+      if (!plan) {
+        return {
+          assessment: { ...assessment, status: 'blocked', reason: `${assessment.reason}, but no burn opportunity remains before TCA` },
+          action
+        };
       }
+      rescheduled = generateSuggestedAction(event, plan, now);
+    }
+
+    // A later burn may need more propellant than the original plan
+    const recheck = assessUplinkFeasibility({ action: rescheduled, satellite, contactWindows, now, deadline });
+    return recheck.status === 'blocked'
+      ? { assessment: recheck, action }
+      : { assessment, action: rescheduled };
+  }, [simulators, satellites, findConjunctionForAction, simulationTime, groundStations, propulsionOptions]);
+
+  // The trajectory changed: plans are stale and screening results must be refreshed
+  const refreshAfterManeuver = useCallback(() => {
+    maneuverPlans.current.clear();
+    if (lastScreening.current) {
+      predictCollisions(lastScreening.current.horizonDays, lastScreening.current.pcMethod);
+    }
+  }, [predictCollisions]);
+
+  const executeAction = useCallback((satelliteId: string, action: SuggestedAction): boolean => {
+    const simulator = simulators.get(satelliteId);
+    if (!simulator) return false;
+
+    // Each execution gets its own maneuver, so it can be rolled back individually
+    const entryId = `log-${Date.now()}-${satelliteId}`;
+    const success = simulator.executeAction(action, entryId);
+    
+    if (success) {
+      const satellite = satellites.find(s => s.id === satelliteId);
+      const segment = simulator.getManeuvers().find(m => m.id === entryId);
+      const { deltaV, deltaVVector } = action.parameters ?? {};
+      const appliedDeltaV = deltaVVector ? Math.hypot(deltaVVector.r, deltaVVector.t, deltaVVector.n) : deltaV ?? 0;
+      const fuelUsed = propellantForDeltaV(appliedDeltaV, propulsionFor(satellite));
+
+      // Update satellite with its post-burn state and deduct the propellant burned
+      const state = simulator.getCurrentState();
+      setSatellites(prevSats => 
+        prevSats.map(sat => 
+          sat.id === satelliteId 
+            ? {
+                ...sat,
+                currentPosition: state.position,
+                currentVelocity: state.velocity,
+                spacecraft: sat.spacecraft && {
+                  ...sat.spacecraft,
+                  propellantMass: Math.max(0, sat.spacecraft.propellantMass - fuelUsed)
+                },
+                lastUpdated: new Date().toISOString()
+              }
+            : sat
+        )
+      );
+
+      setActionLog(prev => [...prev, {
+        id: entryId,
+        executedAt: new Date().toISOString(),
+        operator: operator || 'unknown',
+        satelliteId,
+        satelliteName: satellite?.name ?? satelliteId,
+        action,
+        conjunctionId: findConjunctionForAction(satelliteId, action)?.id,
+        burnTime: segment && simulator.toDate(segment.burnTime).toISOString(),
+        preBurnState: segment && elementsToStateVector(segment.referenceElements),
+        postBurnState: segment && elementsToStateVector(segment.elements),
+        deltaV: appliedDeltaV,
+        fuelUsed,
+        status: 'executed'
+      }]);
+      
+      // Add execution alert
+      setAlerts(prev => [...prev, `✅ Action executed for ${satellite?.name}: ${action.description}`]);
+      setTrajectoryRevision(revision => revision + 1);
+
+      refreshAfterManeuver();
     }
     
-    if (collisionPredictions.length > 0) {
-      setAlerts(prev => [...prev, ...collisionPredictions]);
+    return success;
+  }, [simulators, satellites, operator, findConjunctionForAction, refreshAfterManeuver]);
+
+  // Actions without a burn are operating procedures: nothing to propagate or uplink-check, only recorded
+  const acknowledgeAction = useCallback((satelliteId: string, action: SuggestedAction) => {
+    const satellite = satellitesRef.current.find(s => s.id === satelliteId);
+    setAlerts(prev => [...prev, `📋 Procedure acknowledged for ${satellite?.name ?? satelliteId} by ${operator || 'unknown'}: ${action.description}`]);
+  }, [operator]);
+
+  // Undo an executed maneuver, together with any later maneuvers of the same satellite, and refund their propellant
+  const rollbackAction = useCallback((entryId: string): boolean => {
+    const entry = actionLog.find(e => e.id === entryId && e.status === 'executed');
+    const simulator = entry && simulators.get(entry.satelliteId);
+    if (!entry || !simulator) return false;
+
+    const removed = new Set(simulator.removeManeuver(entry.id).map(m => m.id));
+    if (removed.size === 0) return false;
+
+    const refunded = actionLog.filter(e => removed.has(e.id)).reduce((sum, e) => sum + e.fuelUsed, 0);
+    const state = simulator.getCurrentState();
+    setSatellites(prevSats =>
+      prevSats.map(sat =>
+        sat.id === entry.satelliteId
+          ? {
+              ...sat,
+              currentPosition: state.position,
+              currentVelocity: state.velocity,
+              spacecraft: sat.spacecraft && { ...sat.spacecraft, propellantMass: sat.spacecraft.propellantMass + refunded },
+              lastUpdated: new Date().toISOString()
+            }
+          : sat
+      )
+    );
+
+    const rolledBackAt = new Date().toISOString();
+    setActionLog(prev => prev.map(e =>
+      removed.has(e.id) ? { ...e, status: 'rolled_back', rolledBackAt, rolledBackBy: operator || 'unknown' } : e
+    ));
+    setAlerts(prev => [
+      ...prev,
+      `↩️ Rolled back ${removed.size} maneuver(s) for ${entry.satelliteName}, restoring the pre-burn trajectory`
+    ]);
+    setTrajectoryRevision(revision => revision + 1);
+
+    refreshAfterManeuver();
+    return true;
+  }, [actionLog, simulators, operator, refreshAfterManeuver]);
+
+  // Add conjunctions parsed from CDM files; OBJECT1 designators are matched to our fleet by NORAD ID
+  const importConjunctions = useCallback((events: ConjunctionEvent[]) => {
+    const normalize = (designator: string) => designator.replace(/^0+(?=\d)/, '');
+    const matched = events.map(event => {
+      const satellite = satellites.find(sat =>
+        normalize(sat.noradId ?? sat.id) === normalize(event.satelliteId) || sat.id === event.satelliteId
+      );
+      const resolved = satellite ? { ...event, satelliteId: satellite.id } : event;
+      return { ...resolved, suggestedAction: suggestAction(resolved) };
+    });
+
+    // Newer messages for the same event replace older ones
+    setImportedConjunctions(prev => [
+      ...prev.filter(existing => !matched.some(event => event.id === existing.id)),
+      ...matched
+    ]);
+
+    const unmatched = matched.filter(event => !satellites.some(sat => sat.id === event.satelliteId)).length;
+    setAlerts(prev => [
+      ...prev,
+      `📥 Imported ${matched.length} CDM conjunction(s)${unmatched > 0 ? ` - ${unmatched} for satellites not in the fleet` : ''}`
+    ]);
+  }, [satellites, suggestAction]);
+
+  /**
+   * Add satellites from a CelesTrak group (cached when fresh or offline); satellites already in the fleet are skipped
+   */
+  const loadSatelliteGroup = useCallback(async (group: string, limit: number): Promise<CelesTrakGroupResult & { added: Satellite[] }> => {
+    let result: CelesTrakGroupResult;
+    try {
+      result = await fetchCelesTrakGroup(group);
+    } catch (error) {
+      setElementSetsOffline(true);
+      throw error;
     }
-  }, [satellites, simulators]);
+    setElementSetsOffline(result.offline);
+
+    const added: Satellite[] = [];
+    for (const elementSet of result.elementSets) {
+      if (added.length >= limit) break;
+      try {
+        const sat = satelliteFromTle(elementSet.name, elementSet.line1, elementSet.line2);
+        if (satellites.some(existing => existing.id === sat.id)) continue;
+        added.push({ ...sat, meanElements: elementSet.meanElements });
+      } catch (error) {
+        console.warn(`Skipping ${elementSet.name}:`, error);
+      }
+    }
+    setSatellites(prev => [...prev, ...added.filter(sat => !prev.some(existing => existing.id === sat.id))]);
+    return { ...result, added };
+  }, [satellites]);
 
   return { 
     satellites, 
     setSatellites, 
     alerts, 
-    conjunctions,       
+    conjunctions: [...conjunctions, ...screenedConjunctions, ...importedConjunctions],
     spaceWeatherAlerts,
     dismissedAlerts,
     setDismissedAlerts,
     threatAssessments,
     simulators,
+    groundStations,
+    setGroundStations,
+    contactWindows,
     loading, 
     setLoading,
     isSimulationRunning,
-    isOfflineMode,
+    isOfflineMode: isOfflineMode || elementSetsOffline,
+    kpHistory,
+    solarWind,
+    radiation,
+    solarFlux,
+    kpForecast,
+    dragForecasts,
+    simulationDate: new Date(simulationEpoch.getTime() + simulationTime * 1000),
     startSimulation,
     stopSimulation,
+    checkActionFeasibility,
     executeAction,
+    acknowledgeAction,
+    actionLog,
+    rollbackAction,
+    operator,
+    setOperator,
+    settings,
+    setSettings,
    // dismissAlert,
-    predictCollisions
+    predictCollisions,
+    importConjunctions,
+    loadSatelliteGroup
   };
 };
@@ -1,5 +1,7 @@
 export type OrbitType = "LEO" | "Polar" | "GEO" | "MEO";
 
+export type PerturbationModel = "two-body" | "j2" | "j2-drag";
+
 export interface Satellite {
   id: string;
   name: string;
@@ -12,12 +14,22 @@ export interface Satellite {
     line1: string;
     line2: string;
   };
+  meanElements?: MeanElements; // from an OMM; the TLE lines are generated from them
   
   // Orbital parameters for simulation
   eccentricity?: number; // for elliptical orbits
   argumentOfPeriapsis?: number; // degrees
   rightAscensionOfAscendingNode?: number; // degrees
   meanAnomaly?: number; // degrees
+  perturbationModel?: PerturbationModel; // defaults to two-body
+  ballisticCoefficient?: number; // kg/m² (mass / (Cd × area)), used by drag
+
+  // Conjunction assessment inputs
+  positionCovariance?: number[][]; // 3x3 position covariance in RTN (km²)
+  hardBodyRadius?: number; // meters
+
+  // Mass and propulsion; fuel accounting is skipped when omitted
+  spacecraft?: SpacecraftProperties;
   
   // Simulation state
   currentPosition?: {
@@ -36,15 +48,65 @@ export interface Satellite {
   noradId?: string;
 }
 
+// CCSDS OMM mean elements for SGP4/SDP4 (TEME frame)
+export interface MeanElements {
+  epoch: string; // ISO UTC
+  meanMotion: number; // rev/day
+  eccentricity: number;
+  inclination: number; // degrees
+  rightAscensionOfAscendingNode: number; // degrees
+  argumentOfPericenter: number; // degrees
+  meanAnomaly: number; // degrees
+  bstar: number; // 1/earth radii
+  meanMotionDot: number; // rev/day², as in the TLE (first derivative / 2)
+  meanMotionDdot: number; // rev/day³, as in the TLE (second derivative / 6)
+  ephemerisType?: number;
+  classificationType?: string; // U, C or S
+  elementSetNo?: number;
+  revAtEpoch?: number;
+  objectId?: string; // international designator, e.g. 1998-067A
+}
+
+// One satellite's element set as fetched from CelesTrak or Space-Track
+export interface ElementSet {
+  name: string;
+  line1: string;
+  line2: string;
+  meanElements?: MeanElements; // when fetched as OMM
+}
+
+export interface SpacecraftProperties {
+  dryMass: number; // kg
+  propellantMass: number; // kg remaining on board
+  isp: number; // s, thruster specific impulse
+  maxThrust: number; // N
+  areaToMass?: number; // m²/kg, drag cross-section
+}
+
+// Frames of exchanged state vectors: EME2000/GCRF inertial, TEME (SGP4 output), ITRF Earth-fixed
+export type ReferenceFrame = 'EME2000' | 'GCRF' | 'TEME' | 'ITRF';
+
 export interface ConjunctionEvent {
   id: string;
   satelliteId: string;
   objectName: string;
+  objectId?: string; // secondary object: our satellite id or catalog designator
   tca: string; // Time of Closest Approach
   missDistance: number; // in kilometers
   relativeVelocity: number; // in km/s
   probability: number; // collision probability
   risk: 'low' | 'medium' | 'high';
+  source?: 'screening' | 'feed' | 'cdm';
+  relativePosition?: Vector3; // km, secondary minus primary at TCA (ECI)
+  relativeVelocityVector?: Vector3; // km/s, secondary minus primary at TCA (ECI)
+  primaryState?: StateVector; // at TCA (ECI)
+  secondaryState?: StateVector; // at TCA (ECI)
+  primaryFrame?: ReferenceFrame; // inertial frame of primaryState, EME2000 if absent
+  secondaryFrame?: ReferenceFrame; // inertial frame of secondaryState, EME2000 if absent
+  primaryCovariance?: number[][]; // 3x3 RTN position covariance at TCA (km²)
+  secondaryCovariance?: number[][]; // 3x3 RTN position covariance at TCA (km²)
+  combinedHardBodyRadius?: number; // meters
+  pcMethod?: 'foster' | 'chan';
   suggestedAction?: SuggestedAction;
 }
 
@@ -72,11 +134,27 @@ export interface SpaceWeatherAlert {
   timestamp: string;
   affectedSatellites?: string[];
   suggestedAction?: SuggestedAction;
+  impacts?: SpaceWeatherImpact[]; // per affected satellite, most affected first
+}
+
+export type SpaceWeatherImpactFactor = 'drag' | 'auroral' | 'magnetopause' | 'charging' | 'seu';
+
+// How a space weather event affects one satellite, from its orbit
+export interface SpaceWeatherImpact {
+  satelliteId: string;
+  score: number; // 0-10
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  factors: Array<{
+    factor: SpaceWeatherImpactFactor;
+    score: number; // 0-10
+    description: string;
+  }>; // strongest first
+  suggestedAction: SuggestedAction;
 }
 
 export interface SuggestedAction {
   id: string;
-  type: 'orbit_adjustment' | 'power_down' | 'attitude_change' | 'evasive_maneuver' | 'communication_shutdown';
+  type: 'orbit_adjustment' | 'power_down' | 'attitude_change' | 'evasive_maneuver' | 'communication_shutdown' | 'monitor';
   description: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
   estimatedFuelCost?: number; // kg
@@ -86,9 +164,16 @@ export interface SuggestedAction {
     deltaV?: number; // m/s
     burnDuration?: number; // seconds
     newOrbit?: Partial<Satellite>;
+    burnTime?: string; // ISO UTC, impulsive burn epoch
+    burnDirection?: BurnDirection;
+    deltaVVector?: RTNVector; // m/s in the satellite's RTN frame at burn time
+    expectedMissDistance?: number; // km, after the maneuver
+    expectedProbability?: number; // collision probability after the maneuver
   };
 }
 
+export type BurnDirection = 'prograde' | 'retrograde' | 'radial_out' | 'radial_in' | 'normal' | 'anti_normal';
+
 export interface ThreatAssessment {
   satelliteId: string;
   threatLevel: 'low' | 'medium' | 'high' | 'critical';
@@ -109,3 +194,83 @@ export interface SimulationState {
   satellites: Map<string, Satellite>;
   threats: Map<string, ThreatAssessment>;
 }
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Radial, transverse (along-track), normal components
+export interface RTNVector {
+  r: number;
+  t: number;
+  n: number;
+}
+
+export interface StateVector {
+  position: Vector3; // km, ECI
+  velocity: Vector3; // km/s, ECI
+}
+
+export interface OrbitalElements {
+  semiMajorAxis: number; // km
+  eccentricity: number;
+  inclination: number; // radians
+  rightAscensionOfAscendingNode: number; // radians
+  argumentOfPeriapsis: number; // radians
+  meanAnomaly: number; // radians, at simulation time 0
+  meanMotion: number; // rad/s
+  orbitalPeriod: number; // seconds
+}
+
+export interface GeodeticPoint {
+  latitude: number; // degrees
+  longitude: number; // degrees, -180 to 180
+  altitude: number; // km
+}
+
+export interface GroundStation {
+  id: string;
+  name: string;
+  latitude: number; // degrees
+  longitude: number; // degrees
+  altitude: number; // km above the ellipsoid
+  minElevation: number; // degrees, elevation mask
+}
+
+// A single pass of a satellite over a ground station
+export interface ContactWindow {
+  id: string;
+  satelliteId: string;
+  stationId: string;
+  stationName: string;
+  aos: string; // ISO timestamp, acquisition of signal
+  tca: string; // ISO timestamp, highest elevation
+  los: string; // ISO timestamp, loss of signal
+  duration: number; // seconds
+  maxElevation: number; // degrees
+  aosAzimuth: number; // degrees
+  tcaAzimuth: number; // degrees
+  losAzimuth: number; // degrees
+  minRange: number; // km, at TCA
+}
+
+// Executed action with the state around its burn, kept for audit and rollback
+export interface ActionLogEntry {
+  id: string; // also the maneuver id in the simulator
+  executedAt: string; // ISO timestamp, wall clock
+  operator: string;
+  satelliteId: string;
+  satelliteName: string;
+  action: SuggestedAction;
+  conjunctionId?: string; // originating conjunction
+  burnTime?: string; // ISO timestamp, simulation clock
+  preBurnState?: StateVector;
+  postBurnState?: StateVector;
+  deltaV: number; // m/s
+  fuelUsed: number; // kg
+  status: "executed" | "rolled_back";
+  rolledBackAt?: string; // ISO timestamp, wall clock
+  rolledBackBy?: string;
+}
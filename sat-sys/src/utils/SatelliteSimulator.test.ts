@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { Satellite, SuggestedAction, Vector3 } from '../types/Satellite';
+import { rtnBasis } from './collisionProbability';
+import { elementsToStateVector, propagateElements, stateVectorToElements, subtract } from './orbitalMechanics';
+import { createSatelliteSimulator } from './SatelliteSimulator';
+
+const epoch = new Date('2025-01-01T00:00:00Z');
+
+const satellite: Satellite = {
+  id: 'sat-1',
+  name: 'Test Sat',
+  orbitType: 'LEO',
+  altitude: 500,
+  inclination: 51.6,
+  velocity: 7.6,
+  eccentricity: 0,
+  rightAscensionOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0
+};
+
+const simulator = () => createSatelliteSimulator({ ...satellite }, epoch);
+
+const expectVectorClose = (actual: Vector3, expected: Vector3, digits: number) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+  expect(actual.z).toBeCloseTo(expected.z, digits);
+};
+
+const burnAction = (parameters: SuggestedAction['parameters']): SuggestedAction => ({
+  id: 'action-1',
+  type: 'orbit_adjustment',
+  description: 'Avoidance burn',
+  priority: 'high',
+  parameters
+});
+
+describe('applyImpulse', () => {
+  it('raises the semi-major axis with a prograde burn', () => {
+    const sim = simulator();
+    const before = stateVectorToElements(sim.propagateTo(1800)).semiMajorAxis;
+
+    const segment = sim.applyImpulse('burn-1', 600, { r: 0, t: 10, n: 0 });
+    const after = stateVectorToElements(sim.propagateTo(1800)).semiMajorAxis;
+
+    // da = 2 a² v dv / mu, about 18 km for 10 m/s at 500 km
+    expect(segment.elements.semiMajorAxis).toBeGreaterThan(segment.referenceElements.semiMajorAxis);
+    expect(after - before).toBeGreaterThan(15);
+    expect(after - before).toBeLessThan(21);
+  });
+
+  it('leaves the trajectory before the burn epoch unchanged', () => {
+    const reference = simulator();
+    const sim = simulator();
+    sim.applyImpulse('burn-1', 600, { r: 0, t: 10, n: 0 });
+
+    for (const t of [0, 300, 599]) {
+      expectVectorClose(sim.propagateTo(t).position, reference.propagateTo(t).position, 9);
+    }
+    expect(subtract(sim.propagateTo(1200).position, reference.propagateTo(1200).position)).not.toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('adds the RTN impulse along the radial, transverse and normal directions at the burn', () => {
+    const burnTime = 900;
+    const preBurn = simulator().propagateTo(burnTime);
+    const { R, T, N } = rtnBasis(preBurn);
+
+    for (const deltaV of [{ r: 5, t: 0, n: 0 }, { r: 0, t: -5, n: 0 }, { r: 0, t: 0, n: 5 }]) {
+      const sim = simulator();
+      sim.applyImpulse('burn', burnTime, deltaV);
+      const change = subtract(sim.propagateTo(burnTime).velocity, preBurn.velocity);
+      const expected = (axis: 'x' | 'y' | 'z') => (R[axis] * deltaV.r + T[axis] * deltaV.t + N[axis] * deltaV.n) / 1000;
+      expectVectorClose(change, { x: expected('x'), y: expected('y'), z: expected('z') }, 9);
+    }
+  });
+
+  it('discards later maneuvers planned on the old trajectory', () => {
+    const sim = simulator();
+    sim.applyImpulse('first', 1000, { r: 0, t: 1, n: 0 });
+    sim.applyImpulse('third', 3000, { r: 0, t: 1, n: 0 });
+    sim.applyImpulse('second', 2000, { r: 0, t: -1, n: 0 });
+
+    expect(sim.getManeuvers().map(m => m.id)).toEqual(['first', 'second']);
+  });
+});
+
+describe('removeManeuver', () => {
+  it('rolls back the maneuver and every later one, restoring the unmaneuvered trajectory', () => {
+    const reference = simulator();
+    const sim = simulator();
+    sim.applyImpulse('first', 600, { r: 0, t: 2, n: 0 });
+    sim.applyImpulse('second', 2400, { r: 0, t: 2, n: 0 });
+
+    expect(sim.removeManeuver('first').map(m => m.id)).toEqual(['first', 'second']);
+    expect(sim.getManeuvers()).toEqual([]);
+    expectVectorClose(sim.propagateTo(5000).position, reference.propagateTo(5000).position, 9);
+  });
+
+  it('keeps earlier maneuvers and ignores unknown ids', () => {
+    const sim = simulator();
+    sim.applyImpulse('first', 600, { r: 0, t: 2, n: 0 });
+    sim.applyImpulse('second', 2400, { r: 0, t: 2, n: 0 });
+
+    expect(sim.removeManeuver('unknown')).toEqual([]);
+    expect(sim.removeManeuver('second').map(m => m.id)).toEqual(['second']);
+    expect(sim.getManeuvers().map(m => m.id)).toEqual(['first']);
+  });
+});
+
+describe('executeAction', () => {
+  it('burns at the planned time when it is still ahead', () => {
+    const sim = simulator();
+    const burnTime = new Date(epoch.getTime() + 3600 * 1000).toISOString();
+
+    expect(sim.executeAction(burnAction({ deltaVVector: { r: 0, t: 1, n: 0 }, burnTime }))).toBe(true);
+    expect(sim.getManeuvers()).toMatchObject([{ id: 'action-1', burnTime: 3600, deltaV: { r: 0, t: 1, n: 0 } }]);
+  });
+
+  it('burns now when the planned time has passed, and prograde for a bare delta-V', () => {
+    const late = simulator();
+    late.calculatePosition(7200);
+    late.executeAction(burnAction({ deltaVVector: { r: 0, t: 1, n: 0 }, burnTime: epoch.toISOString() }));
+
+    const bare = simulator();
+    bare.calculatePosition(7200);
+    bare.executeAction(burnAction({ deltaV: 0.5 }));
+
+    expect(late.getManeuvers()).toMatchObject([{ burnTime: 7200, deltaV: { r: 0, t: 1, n: 0 } }]);
+    expect(bare.getManeuvers()).toMatchObject([{ burnTime: 7200, deltaV: { r: 0, t: 0.5, n: 0 } }]);
+  });
+
+  it('does nothing for actions without a burn', () => {
+    const sim = simulator();
+    expect(sim.executeAction(burnAction(undefined))).toBe(false);
+    expect(sim.getManeuvers()).toEqual([]);
+  });
+});
+
+describe('j2-drag propagation', () => {
+  const dragging: Satellite = { ...satellite, altitude: 350, perturbationModel: 'j2-drag', ballisticCoefficient: 50 };
+
+  it('gives the same states whatever order times are queried in', () => {
+    const forward = createSatelliteSimulator({ ...dragging }, epoch);
+    const backward = createSatelliteSimulator({ ...dragging }, epoch);
+    const times = [1800, 7200, 86400 + 123, 3 * 86400];
+
+    const forwardStates = times.map(t => forward.propagateTo(t));
+    const backwardStates = [...times].reverse().map(t => backward.propagateTo(t)).reverse();
+    expect(backwardStates).toEqual(forwardStates);
+  });
+
+  it('agrees with integrating the elements in one call', () => {
+    const sim = createSatelliteSimulator({ ...dragging }, epoch);
+    const initial = stateVectorToElements(sim.propagateTo(0));
+    const t = 2 * 86400 + 1800;
+
+    const direct = elementsToStateVector(propagateElements(initial, t, 'j2-drag', 50));
+    const cached = sim.propagateTo(t);
+    expectVectorClose(cached.position, direct.position, 3);
+  });
+});
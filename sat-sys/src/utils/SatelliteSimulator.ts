@@ -4,18 +4,63 @@
  */
 
 import * as satellite from 'satellite.js';
-import { Satellite, SuggestedAction } from '../types/Satellite';
+import { GeodeticPoint, OrbitalElements, PerturbationModel, ReferenceFrame, RTNVector, Satellite, StateVector, SuggestedAction, Vector3 } from '../types/Satellite';
+import { rtnToEciVector } from './collisionProbability';
+import {
+  DEFAULT_BALLISTIC_COEFFICIENT,
+  DRAG_SUBSTEP,
+  ballisticCoefficientOf,
+  EARTH_RADIUS,
+  MU_EARTH,
+  add,
+  dragDecayRate,
+  elementsToStateVector,
+  norm,
+  propagateElements,
+  stateVectorToElements,
+  subtract
+} from './orbitalMechanics';
+
+export interface EphemerisPoint extends StateVector {
+  time: number; // simulation seconds
+  date: Date;
+}
+
+/**
+ * Impulsive burn. After burnTime the trajectory is the previous one plus the difference between
+ * the post-burn and pre-burn osculating orbits, which keeps SGP4 fidelity for TLE satellites.
+ */
+export interface ManeuverSegment {
+  id: string;
+  burnTime: number; // simulation seconds
+  deltaV: RTNVector; // m/s
+  referenceElements: OrbitalElements; // osculating, before the burn
+  elements: OrbitalElements; // osculating, after the burn
+}
+
+/**
+ * Impulse (RTN, m/s) of an action: its planned delta-V vector, or a bare deltaV applied prograde.
+ * Null for actions without a burn (monitoring, power or attitude procedures).
+ */
+export function actionImpulse(action: SuggestedAction): RTNVector | null {
+  const { deltaV, deltaVVector } = action.parameters ?? {};
+  return deltaVVector ?? (deltaV ? { r: 0, t: deltaV, n: 0 } : null);
+}
 
 export class SatelliteSimulator {
   private satellite: Satellite;
+  private epoch: Date; // wall-clock instant at simulation time 0
   private time: number = 0; // simulation time in seconds
   private position: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 };
   private velocity: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 };
-  private orbitalElements: any;
+  private orbitalElements!: OrbitalElements;
   private satrec?: any; // satellite.js satellite record
+  private maneuvers: ManeuverSegment[] = []; // sorted by burn time
+  private dragCheckpoints = new WeakMap<OrbitalElements, OrbitalElements[]>(); // j2-drag elements at each DRAG_SUBSTEP from the key
 
-  constructor(satellite: Satellite) {
+  constructor(satellite: Satellite, epoch: Date = new Date()) {
     this.satellite = satellite;
+    this.epoch = epoch;
     this.initializeSimulation();
   }
 
@@ -23,199 +68,216 @@ export class SatelliteSimulator {
    * Initialize simulation based on satellite data
    */
   private initializeSimulation() {
+    this.dragCheckpoints = new WeakMap();
     if (this.satellite.tle) {
       // Use satellite.js for TLE-based satellites
       this.satrec = satellite.twoline2satrec(
         this.satellite.tle.line1,
         this.satellite.tle.line2
       );
-      this.updatePositionFromTLE();
     } else {
       // Use custom orbital mechanics for manually defined satellites
       this.orbitalElements = this.calculateOrbitalElements();
-      this.calculatePosition();
     }
+    this.calculatePosition(0);
   }
 
   /**
-   * Update position using satellite.js TLE data
+   * Propagate a TLE with SGP4/SDP4 to the given simulation time
    */
-  private updatePositionFromTLE() {
-    if (!this.satrec) return;
+  private propagateTLE(t: number): StateVector | null {
+    const positionAndVelocity = satellite.propagate(this.satrec, this.toDate(t));
+    const { position, velocity } = positionAndVelocity;
 
-    const now = new Date();
-    const positionAndVelocity = satellite.propagate(this.satrec, now);
-    
-    if (positionAndVelocity.position && typeof positionAndVelocity.position !== 'boolean') {
-      const gmst = satellite.gstime(now);
-      const geodeticCoords = satellite.eciToGeodetic(positionAndVelocity.position, gmst);
-      
-      this.position = {
-        x: positionAndVelocity.position.x,
-        y: positionAndVelocity.position.y,
-        z: positionAndVelocity.position.z
-      };
+    if (typeof position === 'boolean' || typeof velocity === 'boolean') return null;
 
-      if (positionAndVelocity.velocity && typeof positionAndVelocity.velocity !== 'boolean') {
-        this.velocity = {
-          x: positionAndVelocity.velocity.x,
-          y: positionAndVelocity.velocity.y,
-          z: positionAndVelocity.velocity.z
-        };
-      }
-
-      // Update satellite altitude from TLE
-      this.satellite.altitude = geodeticCoords.height;
-    }
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      velocity: { x: velocity.x, y: velocity.y, z: velocity.z }
+    };
   }
 
   /**
-   * Calculate orbital elements based on satellite parameters
+   * Calculate orbital elements based on satellite parameters.
+   * All six classical elements are honored regardless of orbit type.
    */
-  private calculateOrbitalElements() {
-    const { altitude, inclination, velocity, orbitType } = this.satellite;
+  private calculateOrbitalElements(): OrbitalElements {
+    const { altitude, inclination } = this.satellite;
+    const toRadians = (degrees: number = 0) => (degrees * Math.PI) / 180;
     
-    // Earth's radius in km
-    const earthRadius = 6371;
-    const semiMajorAxis = altitude + earthRadius;
-    
-    // Convert inclination to radians
-    const inclinationRad = (inclination * Math.PI) / 180;
+    const semiMajorAxis = altitude + EARTH_RADIUS;
     
     // Calculate orbital period (Kepler's third law)
-    const mu = 3.986004418e5; // Earth's gravitational parameter (km³/s²)
-    const orbitalPeriod = 2 * Math.PI * Math.sqrt(Math.pow(semiMajorAxis, 3) / mu);
+    const orbitalPeriod = 2 * Math.PI * Math.sqrt(Math.pow(semiMajorAxis, 3) / MU_EARTH);
     
     // Calculate mean motion (rad/s)
     const meanMotion = 2 * Math.PI / orbitalPeriod;
     
-    let orbitalElements = {
+    return {
       semiMajorAxis,
-      inclination: inclinationRad,
+      eccentricity: this.satellite.eccentricity ?? 0,
+      inclination: toRadians(inclination),
+      rightAscensionOfAscendingNode: toRadians(this.satellite.rightAscensionOfAscendingNode),
+      argumentOfPeriapsis: toRadians(this.satellite.argumentOfPeriapsis),
+      meanAnomaly: toRadians(this.satellite.meanAnomaly),
       meanMotion,
-      orbitalPeriod,
-      eccentricity: 0,
-      argumentOfPeriapsis: 0,
-      rightAscensionOfAscendingNode: 0,
-      meanAnomaly: 0
+      orbitalPeriod
+    };
+  }
+
+  /**
+   * State at an arbitrary simulation time (seconds) without advancing the simulator.
+   * TLE satellites are propagated with SGP4/SDP4, manual ones with Kepler's equation.
+   * Burns before t are applied on top.
+   */
+  propagateTo(t: number): StateVector {
+    return this.propagateWithManeuvers(t, this.maneuvers.length);
+  }
+
+  /**
+   * State at time t including the first `count` maneuvers
+   */
+  private propagateWithManeuvers(t: number, count: number): StateVector {
+    if (count === 0) return this.propagateUnmaneuvered(t);
+
+    const segment = this.maneuvers[count - 1];
+    const previous = this.propagateWithManeuvers(t, count - 1);
+    if (segment.burnTime > t) return previous;
+
+    const after = this.propagateOsculating(segment.elements, t - segment.burnTime);
+    const before = this.propagateOsculating(segment.referenceElements, t - segment.burnTime);
+    return {
+      position: add(previous.position, subtract(after.position, before.position)),
+      velocity: add(previous.velocity, subtract(after.velocity, before.velocity))
     };
+  }
+
+  /**
+   * Propagate osculating elements with this satellite's perturbation model
+   */
+  private propagateOsculating(elements: OrbitalElements, dt: number): StateVector {
+    return elementsToStateVector(this.propagateMean(elements, dt, this.elementModel()));
+  }
 
-    // Add orbit-specific elements
-    if (orbitType === "LEO") {
-      orbitalElements.eccentricity = this.satellite.eccentricity || 0.01;
-      orbitalElements.argumentOfPeriapsis = (this.satellite.argumentOfPeriapsis || 0) * Math.PI / 180;
-    } else if (orbitType === "Polar") {
-      orbitalElements.rightAscensionOfAscendingNode = (this.satellite.rightAscensionOfAscendingNode || 0) * Math.PI / 180;
-      orbitalElements.meanAnomaly = (this.satellite.meanAnomaly || 0) * Math.PI / 180;
+  /**
+   * Propagate elements under a perturbation model. The drag decay is integrated substep by substep from the
+   * starting elements; the substeps are kept, so each query integrates at most one more step past the last one.
+   */
+  private propagateMean(elements: OrbitalElements, dt: number, model: PerturbationModel | undefined): OrbitalElements {
+    const ballisticCoefficient = ballisticCoefficientOf(this.satellite);
+    if (model !== 'j2-drag' || dt < 0) return propagateElements(elements, dt, model, ballisticCoefficient);
+
+    let checkpoints = this.dragCheckpoints.get(elements);
+    if (!checkpoints) {
+      checkpoints = [elements];
+      this.dragCheckpoints.set(elements, checkpoints);
     }
+    const index = Math.floor(dt / DRAG_SUBSTEP);
+    while (checkpoints.length <= index) {
+      checkpoints.push(propagateElements(checkpoints[checkpoints.length - 1], DRAG_SUBSTEP, model, ballisticCoefficient));
+    }
+    return propagateElements(checkpoints[index], dt - index * DRAG_SUBSTEP, model, ballisticCoefficient);
+  }
 
-    return orbitalElements;
+  /**
+   * State from the TLE or initial elements, ignoring maneuvers
+   */
+  private propagateUnmaneuvered(t: number): StateVector {
+    if (this.satrec) {
+      // SGP4 can fail (e.g. decayed orbit); fall back to the last known state
+      return this.propagateTLE(t) ?? {
+        position: { ...this.position },
+        velocity: { ...this.velocity }
+      };
+    }
+
+    // Propagate mean elements under the selected perturbation model and convert to ECI
+    return elementsToStateVector(this.propagateMean(this.orbitalElements, t, this.satellite.perturbationModel));
   }
 
   /**
-   * Calculate satellite position using Kepler's equation
+   * Perturbation model for propagating burn effects; J2 for TLE satellites
    */
-  private calculatePosition(timeStep: number = 1) {
-    this.time += timeStep;
-    
-    const { semiMajorAxis, eccentricity, inclination, 
-            rightAscensionOfAscendingNode, argumentOfPeriapsis, 
-            meanMotion, meanAnomaly } = this.orbitalElements;
+  private elementModel(): PerturbationModel {
+    return this.satellite.perturbationModel ?? (this.satrec ? 'j2' : 'two-body');
+  }
 
-    // Calculate current mean anomaly
-    const currentMeanAnomaly = meanAnomaly + meanMotion * this.time;
-    
-    // Solve Kepler's equation for eccentric anomaly
-    const eccentricAnomaly = this.solveKeplersEquation(currentMeanAnomaly, eccentricity);
-    
-    // Calculate true anomaly
-    const trueAnomaly = 2 * Math.atan2(
-      Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
-      Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2)
-    );
+  /**
+   * State at time t after an impulsive burn (ECI delta-V, km/s) at burnTime, without changing the simulator.
+   * Post-burn motion starts from the osculating elements of the burn state; callers trying many burns at
+   * the same epoch pass that state in rather than propagating to it each time.
+   */
+  propagateWithImpulse(burnTime: number, deltaV: Vector3, t: number, state: StateVector = this.propagateTo(burnTime)): StateVector {
+    const elements = stateVectorToElements({ position: state.position, velocity: add(state.velocity, deltaV) });
+    return this.propagateOsculating(elements, t - burnTime);
+  }
 
-    // Calculate orbital radius
-    const radius = semiMajorAxis * (1 - eccentricity * Math.cos(eccentricAnomaly));
+  /**
+   * States sampled between two simulation times, without advancing the simulator
+   */
+  getEphemeris(startTime: number, endTime: number, step: number): EphemerisPoint[] {
+    const points: EphemerisPoint[] = [];
+    for (let t = startTime; t <= endTime; t += step) {
+      points.push({ time: t, date: this.toDate(t), ...this.propagateTo(t) });
+    }
+    return points;
+  }
 
-    // Calculate position in orbital plane
-    const xOrbital = radius * Math.cos(trueAnomaly);
-    const yOrbital = radius * Math.sin(trueAnomaly);
+  /**
+   * Sub-satellite points sampled between two simulation times
+   */
+  getGroundTrack(startTime: number, endTime: number, step: number): (GeodeticPoint & { time: number })[] {
+    return this.getEphemeris(startTime, endTime, step).map(point => ({
+      time: point.time,
+      ...OrbitUtils.calculateGroundTrack(point.position, point.date)
+    }));
+  }
 
-    // Transform to Earth-centered inertial coordinates
-    const cosRAAN = Math.cos(rightAscensionOfAscendingNode);
-    const sinRAAN = Math.sin(rightAscensionOfAscendingNode);
-    const cosInc = Math.cos(inclination);
-    const sinInc = Math.sin(inclination);
-    const cosArgP = Math.cos(argumentOfPeriapsis);
-    const sinArgP = Math.sin(argumentOfPeriapsis);
+  /**
+   * Advance the simulation clock and update position
+   */
+  calculatePosition(timeStep: number = 1) {
+    this.time += timeStep;
 
-    // Rotation matrices for coordinate transformation
-    const x = xOrbital * (cosRAAN * cosArgP - sinRAAN * sinArgP * cosInc) - 
-              yOrbital * (cosRAAN * sinArgP + sinRAAN * cosArgP * cosInc);
-    
-    const y = xOrbital * (sinRAAN * cosArgP + cosRAAN * sinArgP * cosInc) - 
-              yOrbital * (sinRAAN * sinArgP - cosRAAN * cosArgP * cosInc);
-    
-    const z = xOrbital * sinArgP * sinInc + yOrbital * cosArgP * sinInc;
+    const state = this.propagateTo(this.time);
+    this.position = state.position;
+    this.velocity = state.velocity;
+
+    if (this.satrec) {
+      // Update satellite altitude from TLE
+      const gmst = satellite.gstime(this.getSimulationDate());
+      this.satellite.altitude = satellite.eciToGeodetic(this.position, gmst).height;
+    }
 
-    this.position = { x, y, z };
     return this.position;
   }
 
   /**
-   * Solve Kepler's equation using Newton-Raphson method
+   * Wall-clock date corresponding to a simulation time
    */
-  private solveKeplersEquation(meanAnomaly: number, eccentricity: number, maxIterations: number = 10): number {
-    let eccentricAnomaly = meanAnomaly; // Initial guess
-    
-    for (let i = 0; i < maxIterations; i++) {
-      const f = eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly) - meanAnomaly;
-      const fPrime = 1 - eccentricity * Math.cos(eccentricAnomaly);
-      
-      if (Math.abs(f) < 1e-6) break;
-      
-      eccentricAnomaly = eccentricAnomaly - f / fPrime;
-    }
-    
-    return eccentricAnomaly;
+  toDate(t: number): Date {
+    return new Date(this.epoch.getTime() + t * 1000);
   }
 
   /**
-   * Calculate orbital velocity
+   * Simulation time (seconds) corresponding to a wall-clock date
    */
-  private calculateVelocity() {
-    const { semiMajorAxis, eccentricity } = this.orbitalElements;
-    const mu = 3.986004418e5; // Earth's gravitational parameter
-    
-    // Vis-viva equation
-    const r = Math.sqrt(this.position.x**2 + this.position.y**2 + this.position.z**2);
-    const velocityMagnitude = Math.sqrt(mu * (2/r - 1/semiMajorAxis));
-    
-    // Calculate velocity components (simplified)
-    const velocityDirection = this.calculateVelocityDirection();
-    
-    this.velocity = {
-      x: velocityMagnitude * velocityDirection.x,
-      y: velocityMagnitude * velocityDirection.y,
-      z: velocityMagnitude * velocityDirection.z
-    };
-    
-    return this.velocity;
+  toSimulationTime(date: Date): number {
+    return (date.getTime() - this.epoch.getTime()) / 1000;
   }
 
   /**
-   * Calculate velocity direction (simplified)
+   * Wall-clock date corresponding to the current simulation time
    */
-  private calculateVelocityDirection() {
-    // Simplified velocity direction calculation
-    // In a real simulation, this would be more complex
-    const angle = Math.atan2(this.position.y, this.position.x) + Math.PI / 2;
-    
-    return {
-      x: Math.cos(angle),
-      y: Math.sin(angle),
-      z: 0
-    };
+  getSimulationDate(): Date {
+    return this.toDate(this.time);
+  }
+
+  /**
+   * Inertial frame of the propagated states: SGP4 output is TEME, manual orbits are taken as EME2000
+   */
+  getReferenceFrame(): ReferenceFrame {
+    return this.satrec ? 'TEME' : 'EME2000';
   }
 
   /**
@@ -226,6 +288,7 @@ export class SatelliteSimulator {
       position: this.position,
       velocity: this.velocity,
       simulationTime: this.time,
+      simulationDate: this.getSimulationDate(),
       orbitalElements: this.orbitalElements
     };
   }
@@ -239,43 +302,76 @@ export class SatelliteSimulator {
   }
 
   /**
-   * Execute suggested action (simulate orbital maneuver)
+   * Apply an impulsive burn (RTN delta-V, m/s) at a simulation time. Later maneuvers,
+   * planned on the old trajectory, are discarded.
    */
-  executeAction(action: SuggestedAction): boolean {
-    if (!action.parameters) return false;
+  applyImpulse(id: string, burnTime: number, deltaV: RTNVector): ManeuverSegment {
+    const state = this.propagateTo(burnTime);
+    const deltaVEci = rtnToEciVector({ r: deltaV.r / 1000, t: deltaV.t / 1000, n: deltaV.n / 1000 }, state);
+    const segment: ManeuverSegment = {
+      id,
+      burnTime,
+      deltaV,
+      referenceElements: stateVectorToElements(state),
+      elements: stateVectorToElements({ position: state.position, velocity: add(state.velocity, deltaVEci) })
+    };
 
-    const { deltaV, burnDuration, newOrbit } = action.parameters;
-    
-    if (deltaV && burnDuration) {
-      // Simulate burn
-      const acceleration = deltaV / burnDuration; // m/s²
-      const velocityChange = acceleration * burnDuration;
-      
-      // Apply velocity change (simplified)
-      const velocityMagnitude = Math.sqrt(
-        this.velocity.x**2 + this.velocity.y**2 + this.velocity.z**2
-      );
-      
-      const newVelocityMagnitude = velocityMagnitude + velocityChange / 1000; // Convert to km/s
-      
-      // Update velocity components proportionally
-      const scale = newVelocityMagnitude / velocityMagnitude;
-      this.velocity.x *= scale;
-      this.velocity.y *= scale;
-      this.velocity.z *= scale;
-      
-      // Update satellite velocity
-      this.satellite.velocity = newVelocityMagnitude;
-      
-      // If new orbit parameters provided, update them
-      if (newOrbit) {
-        this.updateSatellite(newOrbit);
-      }
-      
-      return true;
+    this.maneuvers = [...this.maneuvers.filter(m => m.burnTime < burnTime), segment];
+
+    // Refresh the current state in case the burn is at or before the current time
+    const current = this.propagateTo(this.time);
+    this.position = current.position;
+    this.velocity = current.velocity;
+    this.satellite.velocity = norm(this.velocity);
+
+    return segment;
+  }
+
+  /**
+   * Roll back a maneuver and every later one (they were planned on its trajectory).
+   * Returns the removed segments, empty if the maneuver is unknown.
+   */
+  removeManeuver(id: string): ManeuverSegment[] {
+    const index = this.maneuvers.findIndex(m => m.id === id);
+    if (index === -1) return [];
+
+    const removed = this.maneuvers.slice(index);
+    this.maneuvers = this.maneuvers.slice(0, index);
+
+    const current = this.propagateTo(this.time);
+    this.position = current.position;
+    this.velocity = current.velocity;
+    this.satellite.velocity = norm(this.velocity);
+
+    return removed;
+  }
+
+  /**
+   * Maneuvers applied so far
+   */
+  getManeuvers(): ManeuverSegment[] {
+    return [...this.maneuvers];
+  }
+
+  /**
+   * Execute suggested action as an impulsive burn. Planned burns use their RTN delta-V and
+   * burn time (or now, if that time has passed); a bare deltaV is applied prograde now.
+   */
+  executeAction(action: SuggestedAction, maneuverId: string = action.id): boolean {
+    const impulse = actionImpulse(action);
+    if (!action.parameters || !impulse) return false;
+
+    const { burnTime, newOrbit } = action.parameters;
+
+    const plannedTime = burnTime ? this.toSimulationTime(new Date(burnTime)) : this.time;
+    this.applyImpulse(maneuverId, Math.max(plannedTime, this.time), impulse);
+
+    // If new orbit parameters provided, update them
+    if (newOrbit) {
+      this.updateSatellite(newOrbit);
     }
-    
-    return false;
+
+    return true;
   }
 
   /**
@@ -283,6 +379,7 @@ export class SatelliteSimulator {
    */
   reset() {
     this.time = 0;
+    this.maneuvers = [];
     this.position = { x: 0, y: 0, z: 0 };
     this.velocity = { x: 0, y: 0, z: 0 };
     this.initializeSimulation();
@@ -313,6 +410,33 @@ export const OrbitUtils = {
     return Math.sqrt(mu / radius);
   },
 
+  /**
+   * Estimate orbital lifetime under atmospheric drag until reentry (~120 km)
+   * @returns Lifetime in days, or Infinity if longer than maxYears
+   */
+  estimateOrbitalLifetime(
+    altitudeKm: number,
+    ballisticCoefficient: number = DEFAULT_BALLISTIC_COEFFICIENT,
+    maxYears: number = 25
+  ): number {
+    const reentryRadius = EARTH_RADIUS + 120;
+    const maxSeconds = maxYears * 365.25 * 86400;
+    let semiMajorAxis = EARTH_RADIUS + altitudeKm;
+    let elapsed = 0;
+
+    while (semiMajorAxis > reentryRadius) {
+      const decayRate = dragDecayRate(semiMajorAxis, ballisticCoefficient);
+      if (decayRate === 0 || elapsed > maxSeconds) return Infinity;
+
+      // Limit each step to ~1 km of decay, between one hour and 30 days
+      const step = Math.min(30 * 86400, Math.max(3600, 1 / Math.abs(decayRate)));
+      semiMajorAxis += decayRate * step;
+      elapsed += step;
+    }
+
+    return elapsed / 86400;
+  },
+
   /**
    * Check if orbit is stable
    */
@@ -328,16 +452,15 @@ export const OrbitUtils = {
   },
 
   /**
-   * Calculate ground track coordinates
+   * Geodetic sub-satellite point for an ECI position at a given date
    */
-  calculateGroundTrack(position: { x: number; y: number; z: number }, time: number) {
-    const earthRadius = 6371;
-    const latitude = Math.asin(position.z / Math.sqrt(position.x**2 + position.y**2 + position.z**2));
-    const longitude = Math.atan2(position.y, position.x) - (time * 7.292115e-5); // Earth's rotation rate
-    
+  calculateGroundTrack(position: Vector3, date: Date): GeodeticPoint {
+    const geodetic = satellite.eciToGeodetic(position, satellite.gstime(date));
+
     return {
-      latitude: latitude * 180 / Math.PI,
-      longitude: longitude * 180 / Math.PI
+      latitude: satellite.degreesLat(geodetic.latitude),
+      longitude: satellite.degreesLong(geodetic.longitude),
+      altitude: geodetic.height
     };
   },
 
@@ -353,61 +476,14 @@ export const OrbitUtils = {
       (pos1.y - pos2.y)**2 + 
       (pos1.z - pos2.z)**2
     );
-  },
-
-  /**
-   * Predict collision risk between two satellites
-   */
-  predictCollisionRisk(sat1: SatelliteSimulator, sat2: SatelliteSimulator, timeHorizon: number = 3600): {
-    risk: 'low' | 'medium' | 'high';
-    minDistance: number;
-    timeToClosestApproach: number;
-    probability: number;
-  } {
-    let minDistance = Infinity;
-    let timeToClosestApproach = 0;
-    
-    // Simulate over time horizon
-    for (let t = 0; t < timeHorizon; t += 60) { // Check every minute
-      sat1.calculatePosition(60);
-      sat2.calculatePosition(60);
-      
-      const distance = this.calculateDistance(sat1, sat2);
-      if (distance < minDistance) {
-        minDistance = distance;
-        timeToClosestApproach = t;
-      }
-    }
-    
-    // Calculate risk based on minimum distance
-    let risk: 'low' | 'medium' | 'high' = 'low';
-    let probability = 0;
-    
-    if (minDistance < 1) {
-      risk = 'high';
-      probability = 0.001;
-    } else if (minDistance < 5) {
-      risk = 'medium';
-      probability = 0.0001;
-    } else {
-      risk = 'low';
-      probability = 0.00001;
-    }
-    
-    return {
-      risk,
-      minDistance,
-      timeToClosestApproach,
-      probability
-    };
   }
 };
 
 /**
  * Factory function to create satellite simulators
  */
-export function createSatelliteSimulator(satellite: Satellite): SatelliteSimulator {
-  return new SatelliteSimulator(satellite);
+export function createSatelliteSimulator(satellite: Satellite, epoch?: Date): SatelliteSimulator {
+  return new SatelliteSimulator(satellite, epoch);
 }
 
 export default SatelliteSimulator;
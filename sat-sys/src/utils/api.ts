@@ -1,87 +1,112 @@
 import axios from 'axios';
+import { ElementSet, SuggestedAction } from '../types/Satellite';
+import { calculateThreatLevel, estimateCollisionProbability } from './collisionProbability';
+import { ManeuverPlan } from './maneuverPlanner';
+import { OmmMessage, ommFromRecord } from './omm';
+import { meanElementsToTle } from './tle';
+import { CachedGroup, loadCachedGroup, saveCachedGroup } from './elementSetCache';
+import { KpForecastSample, KpSample } from './geomagnetic';
+import { SolarWindSample } from './solarWind';
+import { FluxSample } from './radiation';
+import { SolarFlux } from './dragForecast';
 
 // API Configuration
 const CME_PREDICTION_API = 'https://kauai.ccmc.gsfc.nasa.gov/CMEscoreboard/WS/get/predictions';;
 const CELESTRAK_BASE = 'https://celestrak.org/NORAD/elements/gp.php';
 const NOAA_SWPC_BASE = 'https://services.swpc.noaa.gov/json';
-const SPACETRACK_BASE = 'https://www.space-track.org';
+const NOAA_SWPC_PRODUCTS = 'https://services.swpc.noaa.gov/products';
 
 // Get NASA API key from environment (Vite only - browser safe)
 const NASA_API_KEY = import.meta.env.VITE_NASA_API_KEY || 'DEMO_KEY';
 
+// Space-Track is reached through the local proxy (server/) so credentials never reach the browser
+const SPACETRACK_PROXY_URL = import.meta.env.VITE_SPACETRACK_PROXY_URL || 'http://localhost:3001';
+
 // ==================== TLE DATA ====================
 
+// CelesTrak refreshes GP data about every two hours and asks clients not to download a group more often
+export const CELESTRAK_UPDATE_INTERVAL = 2 * 60 * 60 * 1000; // ms
+
+export interface CelesTrakGroupResult extends CachedGroup {
+  source: 'network' | 'cache';
+  offline: boolean; // CelesTrak unreachable, the cached set was used
+}
+
 /**
- * Fetch TLE data from CelesTrak (no auth required)
+ * Fetch a CelesTrak group as OMM (no auth required). A cached set younger than the update interval
+ * is used as is; when the download fails the cached set is returned regardless of age.
  * @param group - Satellite group (e.g., 'stations', 'visual', 'active')
- * @returns Array of TLE strings (3 lines per satellite: name, line1, line2)
  */
-// export async function fetchTLEFromCelesTrak(group: string = 'stations') {
-//   try {
-//     const response = await axios.get(CELESTRAK_BASE, {
-//       params: {
-//         GROUP: group,
-//         FORMAT: 'tle'
-//       }
-//     });
-    
-//     // Parse TLE data (3 lines per satellite)
-//     const lines = response.data.split('\n').filter((line: string) => line.trim());
-//     const satellites = [];
-    
-//     for (let i = 0; i < lines.length; i += 3) {
-//       if (i + 2 < lines.length) {
-//         satellites.push({
-//           name: lines[i].trim(),
-//           line1: lines[i + 1].trim(),
-//           line2: lines[i + 2].trim()
-//         });
-//       }
-//     }
-    
-//     return satellites;
-//   } catch (error) {
-//     console.error('Error fetching TLE from CelesTrak:', error);
-//     throw error;
-//   }
-// }
-
-export async function fetchTLEFromCelesTrak() {
-   // Mock data matching the structure expected in useSatelliteData.ts (with activityID, startTime, sourceLocation, cmeAnalyses)
-  const mockCME = [
-    {
-      activityID: '2025-001-001',
-      startTime: '2025-10-24T12:00:00Z', // Fixed start time
-      sourceLocation: 'Sun Center',
-      instruments: [{ displayName: 'SOHO' }],
-      cmeAnalyses: [{
-        speed: 1200,
-        latitude: 10,
-        longitude: -20,
-        time21_5: '2025-10-25T00:00:00Z'
-      }]
-    },
-    {
-      activityID: '2025-001-002',
-      startTime: '2025-10-23T18:00:00Z', // Fixed start time
-      sourceLocation: 'Sun East',
-      instruments: [{ displayName: 'STEREO' }],
-      cmeAnalyses: [{
-        speed: 1500,
-        latitude: 5,
-        longitude: 15,
-        time21_5: '2025-10-24T06:00:00Z'
-      }]
+export async function fetchCelesTrakGroup(group: string = 'stations'): Promise<CelesTrakGroupResult> {
+  const cached = await loadCachedGroup(group).catch(error => {
+    console.warn('Element set cache unavailable:', error);
+    return null;
+  });
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < CELESTRAK_UPDATE_INTERVAL) {
+    return { ...cached, source: 'cache', offline: false };
+  }
+
+  try {
+    const response = await axios.get(CELESTRAK_BASE, {
+      params: {
+        GROUP: group,
+        FORMAT: 'json'
+      },
+      timeout: 20000
+    });
+    if (!Array.isArray(response.data)) {
+      throw new Error(`Unexpected CelesTrak response for group ${group}: ${String(response.data).slice(0, 80)}`);
     }
-  ];
-  
-  return mockCME;
+
+    const elementSets: ElementSet[] = [];
+    response.data.forEach((record: Record<string, unknown>) => {
+      try {
+        elementSets.push(fromOmm(ommFromRecord(record)));
+      } catch (error) {
+        console.warn(`Skipping ${record.OBJECT_NAME ?? 'unnamed object'} in group ${group}:`, error);
+      }
+    });
+
+    const entry: CachedGroup = { group, fetchedAt: new Date().toISOString(), elementSets };
+    await saveCachedGroup(entry).catch(error => console.warn('Could not cache element sets:', error));
+    return { ...entry, source: 'network', offline: false };
+  } catch (error) {
+    if (!cached) throw error;
+    // A response (e.g. 403 when polled too often) means CelesTrak is reachable
+    const offline = !(axios.isAxiosError(error) && error.response);
+    console.warn(`CelesTrak request failed, using ${group} element sets cached at ${cached.fetchedAt}:`, error);
+    return { ...cached, source: 'cache', offline };
+  }
+}
+
+/**
+ * Element sets of a CelesTrak group, from the cache when fresh or offline
+ */
+export async function fetchTLEFromCelesTrak(group: string = 'stations'): Promise<ElementSet[]> {
+  return (await fetchCelesTrakGroup(group)).elementSets;
 }
 
 /**
- * Fetch TLE data for a specific satellite by NORAD ID from CelesTrak
+ * Fetch the element set for a specific satellite by NORAD ID from CelesTrak.
+ * OMM is preferred: it carries six-digit catalog numbers, which CelesTrak cannot serve as TLE.
  */
-export async function fetchTLEByNoradId(noradId: string) {
+export async function fetchTLEByNoradId(noradId: string): Promise<ElementSet> {
+  try {
+    const response = await axios.get(CELESTRAK_BASE, {
+      params: {
+        CATNR: noradId,
+        FORMAT: 'json'
+      }
+    });
+
+    if (!Array.isArray(response.data) || response.data.length === 0) {
+      throw new Error(`No GP data for NORAD ID ${noradId}`);
+    }
+    return fromOmm(ommFromRecord(response.data[0]));
+  } catch (ommError) {
+    console.warn('CelesTrak OMM lookup failed, trying TLE:', ommError);
+  }
+
   try {
     const response = await axios.get(CELESTRAK_BASE, {
       params: {
@@ -102,8 +127,47 @@ export async function fetchTLEByNoradId(noradId: string) {
     
     throw new Error('Invalid TLE data received');
   } catch (error) {
-    console.error('Error fetching TLE by NORAD ID:', error);
-    throw error;
+    console.warn('CelesTrak TLE lookup failed, trying Space-Track proxy:', error);
+    try {
+      return await fetchGPFromSpaceTrack(noradId);
+    } catch (proxyError) {
+      console.error('Error fetching TLE by NORAD ID:', proxyError);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Name, generated TLE lines and mean elements of an OMM
+ */
+function fromOmm(omm: OmmMessage): ElementSet {
+  const { line1, line2 } = meanElementsToTle(Number(omm.noradCatId), omm.meanElements);
+  return { name: omm.objectName, line1, line2, meanElements: omm.meanElements };
+}
+
+/**
+ * Fetch the latest GP element set for a satellite through the Space-Track proxy.
+ * GP records are OMMs; their TLE lines are used only when the OMM fields are incomplete.
+ */
+export async function fetchGPFromSpaceTrack(noradId: string): Promise<ElementSet> {
+  const response = await axios.get(`${SPACETRACK_PROXY_URL}/gp`, {
+    params: { noradIds: noradId }
+  });
+
+  const record = response.data[0];
+  if (!record) {
+    throw new Error(`No GP data for NORAD ID ${noradId}`);
+  }
+
+  try {
+    return fromOmm(ommFromRecord(record));
+  } catch (error) {
+    if (!record.TLE_LINE1 || !record.TLE_LINE2) throw error;
+    return {
+      name: record.OBJECT_NAME,
+      line1: record.TLE_LINE1,
+      line2: record.TLE_LINE2
+    };
   }
 }
 
@@ -159,80 +223,158 @@ export async function fetchLatestCMEPrediction() {
 
 // ==================== SPACE WEATHER ====================
 
-export interface GeomageticStorm {
-  time_tag: string;
-  kp_index: number;
-  observed?: string;
-  noaa_scale?: string;
+/**
+ * SWPC time tags are UTC without a zone, e.g. "2025-10-25 12:00:00.000"
+ */
+const swpcTime = (timeTag: string) => new Date(timeTag.trim().replace(' ', 'T').replace(/Z?$/, 'Z')).toISOString();
+
+type SwpcProductRow = Record<string, string | number | null>;
+
+/**
+ * SWPC product tables: rows are objects, or arrays after a header row in the older layout
+ */
+async function fetchSwpcProduct(path: string): Promise<SwpcProductRow[]> {
+  const response = await axios.get<Array<SwpcProductRow | Array<string | number | null>>>(
+    `${NOAA_SWPC_PRODUCTS}/${path}`,
+    { timeout: 10000 }
+  );
+  const [header, ...rows] = response.data;
+  if (!Array.isArray(header)) return response.data as SwpcProductRow[];
+  return rows.map(row => Object.fromEntries(header.map((key, index) => [String(key), (row as Array<string | number | null>)[index]])));
 }
 
+const productNumber = (value: string | number | null | undefined) => {
+  const number = value === null || value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
 /**
- * Fetch current Geomagnetic Storm data from NOAA
+ * Fetch the planetary Kp index from NOAA: 1-minute estimated Kp and the 3-hourly planetary Kp.
+ * Fails only when both products are unavailable.
  */
-export async function fetchGeomagneticStorm() {
-  // uncomment to test with api
-  // try {
-  //   const response = await axios.get<GeomageticStorm[]>(
-  //     `${NOAA_SWPC_BASE}/planetary_k_index_1m.json`,
-  //     {
-  //       timeout: 10000,
-  //       headers: {
-  //         'Accept': 'application/json',
-  //       }
-  //     }
-  //   );
-    
-  //   return response.data;
-  // } catch (error) {
-  //   console.error('Error fetching geomagnetic storm data:', error);
-  //   // Return empty array for network errors
-  //   if (axios.isAxiosError(error)) {
-  //     if (error.code === 'ERR_NETWORK' || error.message.includes('Network Error')) {
-  //       console.warn('Geomagnetic storm API network error - returning empty data');
-  //       return [];
-  //     }
-  //   }
-  //   throw error;
-  // }
-
-//mock data to test 
-const mockGeomag: GeomageticStorm[] = [
-    {
-      time_tag: '2025-10-25T12:00:00Z', // Fixed time tag
-      kp_index: 4,
-      observed: 'observed',
-      noaa_scale: 'G0'
-    },
-    {
-      time_tag: '2025-10-25T12:05:00Z', // Fixed time tag
-      kp_index: 6,
-      observed: 'observed',
-      noaa_scale: 'G2'
-    },
-    {
-      time_tag: '2025-10-25T12:10:00Z', // Fixed time tag
-      kp_index: 7.5,
-      observed: 'observed',
-      noaa_scale: 'G3'
-    }
-  ];
-  return mockGeomag;
+export async function fetchPlanetaryKp(): Promise<KpSample[]> {
+  const [oneMinute, threeHour] = await Promise.allSettled([
+    axios.get<Array<{ time_tag: string; kp_index: number; estimated_kp?: number }>>(
+      `${NOAA_SWPC_BASE}/planetary_k_index_1m.json`,
+      { timeout: 10000 }
+    ),
+    fetchSwpcProduct('noaa-planetary-k-index.json')
+  ]);
+
+  if (oneMinute.status === 'rejected' && threeHour.status === 'rejected') {
+    console.error('Error fetching planetary Kp:', oneMinute.reason);
+    throw oneMinute.reason;
+  }
+
+  const samples: KpSample[] = [];
+  if (oneMinute.status === 'fulfilled') {
+    oneMinute.value.data.forEach(record => {
+      samples.push({ time: swpcTime(record.time_tag), kp: record.estimated_kp ?? record.kp_index, product: '1m' });
+    });
+  }
+  if (threeHour.status === 'fulfilled') {
+    threeHour.value.forEach(record => {
+      const kp = productNumber(record.Kp ?? record.kp);
+      if (kp !== undefined) samples.push({ time: swpcTime(String(record.time_tag)), kp, product: '3h' });
+    });
+  }
+  return samples;
 }
 
 /**
- * Fetch Solar Wind data from NOAA
+ * Fetch the predicted 3-hourly planetary Kp for the next three days from NOAA
  */
-export async function fetchSolarWind() {
-  try {
-    const response = await axios.get(
-      `${NOAA_SWPC_BASE}/ace/swepam/swepam_1m.json`
+export async function fetchKpForecast(): Promise<KpForecastSample[]> {
+  const rows = await fetchSwpcProduct('noaa-planetary-k-index-forecast.json');
+  return rows
+    .filter(record => record.observed === 'predicted')
+    .map(record => ({ time: swpcTime(String(record.time_tag)), kp: productNumber(record.kp) }))
+    .filter((sample): sample is KpForecastSample => sample.kp !== undefined)
+    .sort((a, b) => a.time.localeCompare(b.time));
+}
+
+/**
+ * Fetch the latest observed 10.7 cm solar flux from NOAA, with its 90-day mean
+ * (the mean of the published measurements when the product has none)
+ */
+export async function fetchSolarFlux(): Promise<SolarFlux> {
+  const response = await axios.get<Array<{ time_tag: string; flux: number | null; ninety_day_mean?: number | null }>>(
+    `${NOAA_SWPC_BASE}/f107_cm_flux.json`,
+    { timeout: 10000 }
+  );
+  const records = response.data
+    .filter(record => typeof record.flux === 'number' && record.flux > 0)
+    .sort((a, b) => a.time_tag.localeCompare(b.time_tag));
+  const latest = records[records.length - 1];
+  if (!latest) throw new Error('No 10.7 cm flux measurements in the NOAA product');
+
+  const mean = records.reduce((sum, record) => sum + record.flux!, 0) / records.length;
+  return { time: swpcTime(latest.time_tag), f107: latest.flux!, f107Average: latest.ninety_day_mean ?? mean };
+}
+
+/**
+ * Fetch the last two hours of real-time solar wind plasma and magnetic field at L1 from NOAA.
+ * Fails only when both products are unavailable.
+ */
+export async function fetchSolarWind(): Promise<SolarWindSample[]> {
+  const [plasma, mag] = await Promise.allSettled([
+    fetchSwpcProduct('solar-wind/plasma-2-hour.json'),
+    fetchSwpcProduct('solar-wind/mag-2-hour.json')
+  ]);
+
+  if (plasma.status === 'rejected' && mag.status === 'rejected') {
+    console.error('Error fetching solar wind data:', plasma.reason);
+    throw plasma.reason;
+  }
+
+  const samples: SolarWindSample[] = [];
+  if (plasma.status === 'fulfilled') {
+    plasma.value.forEach(record => samples.push({
+      time: swpcTime(String(record.time_tag)),
+      speed: productNumber(record.speed),
+      density: productNumber(record.density),
+      temperature: productNumber(record.temperature)
+    }));
+  }
+  if (mag.status === 'fulfilled') {
+    mag.value.forEach(record => samples.push({
+      time: swpcTime(String(record.time_tag)),
+      bz: productNumber(record.bz_gsm),
+      bt: productNumber(record.bt)
+    }));
+  }
+  return samples;
+}
+
+/**
+ * Fetch six hours of GOES integral particle flux from NOAA: ≥10 MeV protons and ≥2 MeV electrons.
+ * Fails only when both products are unavailable.
+ */
+export async function fetchGoesParticleFlux(): Promise<{ protons: FluxSample[]; electrons: FluxSample[] }> {
+  const fetchChannel = async (product: string, energy: string): Promise<FluxSample[]> => {
+    const response = await axios.get<Array<{ time_tag: string; flux: number | null; energy: string }>>(
+      `${NOAA_SWPC_BASE}/goes/primary/${product}`,
+      { timeout: 10000 }
     );
-    
-    return response.data;
-  } catch (error) {
-    console.error('Error fetching solar wind data:', error);
-    throw error;
+    return response.data
+      .filter(record => record.energy === energy && typeof record.flux === 'number' && record.flux >= 0)
+      .map(record => ({ time: swpcTime(record.time_tag), flux: record.flux! }))
+      .sort((a, b) => a.time.localeCompare(b.time));
+  };
+
+  const [protons, electrons] = await Promise.allSettled([
+    fetchChannel('integral-protons-6-hour.json', '>=10 MeV'),
+    fetchChannel('integral-electrons-6-hour.json', '>=2 MeV')
+  ]);
+
+  if (protons.status === 'rejected' && electrons.status === 'rejected') {
+    console.error('Error fetching GOES particle flux:', protons.reason);
+    throw protons.reason;
   }
+  return {
+    protons: protons.status === 'fulfilled' ? protons.value : [],
+    electrons: electrons.status === 'fulfilled' ? electrons.value : []
+  };
 }
 
 /**
@@ -269,6 +411,7 @@ export async function fetchSpaceWeatherAlerts() {
 export interface ConjunctionEvent {
   satelliteId: string;
   objectName: string;
+  objectId?: string;
   tca: string; // Time of Closest Approach
   missDistance: number; // in kilometers
   relativeVelocity: number; // in km/s
@@ -277,53 +420,54 @@ export interface ConjunctionEvent {
 }
 
 /**
- * Enhanced conjunction data generator with more realistic scenarios
- * Note: Real CDM data requires Space-Track authentication and backend proxy
+ * Space-Track cdm_public record as returned by the proxy's /cdm endpoint
  */
-export async function fetchConjunctionData(): Promise<ConjunctionEvent[]> {
-  // TODO: Implement real Space-Track CDM API when backend is ready
-  // For now, return enhanced mock data for development
-  
-  const mockData: ConjunctionEvent[] = [
-    {
-      satelliteId: '25544', // ISS
-      objectName: 'DEBRIS-2024-001',
-      tca: new Date(Date.now() + 3600000).toISOString(), // 1 hour from now
-      missDistance: 0.5,
-      relativeVelocity: 14.2,
-      probability: 0.00001,
-      risk: 'high'
-    },
-    {
-      satelliteId: '25544',
-      objectName: 'DEBRIS-2024-045',
-      tca: new Date(Date.now() + 86400000).toISOString(), // 1 day from now
-      missDistance: 2.3,
-      relativeVelocity: 8.7,
-      probability: 0.000001,
-      risk: 'medium'
-    },
-    {
-      satelliteId: '43013', // Starlink
-      objectName: 'DEBRIS-2024-078',
-      tca: new Date(Date.now() + 7200000).toISOString(), // 2 hours from now
-      missDistance: 1.8,
-      relativeVelocity: 12.1,
-      probability: 0.000005,
-      risk: 'medium'
-    },
-    {
-      satelliteId: '43175', // Hubble
-      objectName: 'DEBRIS-2024-123',
-      tca: new Date(Date.now() + 172800000).toISOString(), // 2 days from now
-      missDistance: 5.2,
-      relativeVelocity: 6.8,
-      probability: 0.0000001,
-      risk: 'low'
-    }
-  ];
-  
-  return mockData;
+interface PublicCdmRecord {
+  CDM_ID: string;
+  TCA: string; // UTC, no zone designator
+  MIN_RNG: string; // meters
+  PC: string | null;
+  SAT_1_ID: string;
+  SAT_1_NAME: string;
+  SAT_2_ID: string;
+  SAT_2_NAME: string;
+}
+
+/**
+ * Fetch upcoming conjunctions for our satellites from Space-Track public CDMs (via the proxy).
+ * Throws when the proxy is unavailable; for offline development run the proxy against the mock Space-Track server.
+ */
+export async function fetchConjunctionData(noradIds: string[] = []): Promise<ConjunctionEvent[]> {
+  if (noradIds.length === 0) return [];
+
+  try {
+    const response = await axios.get<PublicCdmRecord[]>(`${SPACETRACK_PROXY_URL}/cdm`, {
+      params: { noradIds: noradIds.join(',') }
+    });
+
+    return response.data.map(record => {
+      // Report each event from our satellite's point of view
+      const ours = noradIds.includes(record.SAT_1_ID) ? 1 : 2;
+      const missDistance = Number(record.MIN_RNG) / 1000;
+      const relativeVelocity = 0; // not published in cdm_public
+      // Assume a typical LEO crossing speed when Space-Track publishes no Pc
+      const probability = record.PC ? Number(record.PC) : estimateCollisionProbability(missDistance, 10);
+
+      return {
+        satelliteId: ours === 1 ? record.SAT_1_ID : record.SAT_2_ID,
+        objectName: ours === 1 ? record.SAT_2_NAME : record.SAT_1_NAME,
+        objectId: ours === 1 ? record.SAT_2_ID : record.SAT_1_ID,
+        tca: new Date(`${record.TCA}Z`).toISOString(),
+        missDistance,
+        relativeVelocity,
+        probability,
+        risk: calculateThreatLevel(missDistance, probability)
+      };
+    });
+  } catch (error) {
+    console.warn('Space-Track proxy unavailable - no conjunction data:', error);
+    throw error;
+  }
 }
 
 // ==================== HELPER FUNCTIONS ====================
@@ -361,67 +505,97 @@ export function getGroupName(group: string): string {
     stations: 'Space Stations',
     visual: 'Brightest Satellites',
     active: 'Active Satellites',
+    analyst: 'Analyst Satellites',
     weather: 'Weather Satellites',
-    starlink: 'Starlink Constellation',
+    noaa: 'NOAA Satellites',
+    goes: 'GOES Satellites',
+    resource: 'Earth Resources Satellites',
+    sarsat: 'Search & Rescue (SARSAT)',
+    dmc: 'Disaster Monitoring Constellation',
+    tdrss: 'Tracking and Data Relay (TDRSS)',
     geo: 'Geostationary Satellites',
+    intelsat: 'Intelsat Satellites',
+    'gps-ops': 'GPS Operational',
+    galileo: 'Galileo Satellites',
+    beidou: 'BeiDou Satellites',
+    iridium: 'Iridium Satellites',
+    starlink: 'Starlink Constellation',
+    oneweb: 'OneWeb Constellation',
   };
   return names[group] || group;
 }
 
 /**
- * Calculate threat level based on miss distance and probability
- */
-export function calculateThreatLevel(missDistance: number, probability: number): 'low' | 'medium' | 'high' {
-  if (missDistance < 1 && probability > 0.00001) return 'high';
-  if (missDistance < 5 && probability > 0.000001) return 'medium';
-  return 'low';
-}
-
-/**
- * Generate suggested action based on threat assessment
+ * Generate suggested action for a conjunction.
+ * Burn parameters come from the maneuver planner when a plan is available, however far away TCA is.
+ * @param now - Current simulation date; TCAs from screening are on the simulation clock
  */
-export function generateSuggestedAction(conjunction: ConjunctionEvent) {
-  const timeToTCA = new Date(conjunction.tca).getTime() - Date.now();
+export function generateSuggestedAction(conjunction: ConjunctionEvent, plan?: ManeuverPlan | null, now: Date = new Date()): SuggestedAction {
+  const timeToTCA = new Date(conjunction.tca).getTime() - now.getTime();
   const hoursToTCA = timeToTCA / (1000 * 60 * 60);
-  
+  const id = `action-${conjunction.satelliteId}-${conjunction.objectName}-${new Date(conjunction.tca).getTime()}`;
+
+  const burn = plan
+    ? {
+        summary: `${plan.direction.replace('_', ' ')} burn of ${plan.deltaV.toFixed(3)} m/s at ${plan.burnDate.replace('T', ' ').slice(0, 19)} UTC` +
+          ` - miss distance ${plan.expectedMissDistance.toFixed(2)} km, Pc ${plan.expectedProbability.toExponential(1)}` +
+          (plan.targetMet ? '' : ' (target not reachable within the delta-V limit)'),
+        estimatedFuelCost: plan.propellantMass,
+        successProbability: 1 - plan.expectedProbability,
+        parameters: {
+          deltaV: plan.deltaV,
+          burnDuration: plan.burnDuration,
+          burnTime: plan.burnDate,
+          burnDirection: plan.direction,
+          deltaVVector: plan.deltaVVector,
+          expectedMissDistance: plan.expectedMissDistance,
+          expectedProbability: plan.expectedProbability
+        }
+      }
+    : null;
+
   if (conjunction.risk === 'high' && hoursToTCA < 24) {
     return {
+      id,
       type: 'evasive_maneuver',
-      description: `Execute emergency evasive maneuver - ${hoursToTCA.toFixed(1)}h until closest approach`,
+      description: `Execute emergency evasive maneuver - ${hoursToTCA.toFixed(1)}h until closest approach${burn ? `: ${burn.summary}` : ''}`,
       priority: 'critical',
-      estimatedFuelCost: 2.5,
+      estimatedFuelCost: burn?.estimatedFuelCost,
       estimatedTimeToExecute: 15,
-      successProbability: 0.85,
-      parameters: {
-        deltaV: 5.0, // m/s
-        burnDuration: 300 // seconds
-      }
+      successProbability: burn?.successProbability ?? 0.85,
+      parameters: burn?.parameters
     };
   } else if (conjunction.risk === 'medium' && hoursToTCA < 72) {
     return {
+      id,
       type: 'orbit_adjustment',
-      description: `Plan orbit adjustment maneuver - ${hoursToTCA.toFixed(1)}h until closest approach`,
+      description: `Plan orbit adjustment maneuver - ${hoursToTCA.toFixed(1)}h until closest approach${burn ? `: ${burn.summary}` : ''}`,
       priority: 'high',
-      estimatedFuelCost: 1.2,
+      estimatedFuelCost: burn?.estimatedFuelCost,
       estimatedTimeToExecute: 30,
-      successProbability: 0.92,
-      parameters: {
-        deltaV: 2.5, // m/s
-        burnDuration: 180 // seconds
-      }
+      successProbability: burn?.successProbability ?? 0.92,
+      parameters: burn?.parameters
+    };
+  } else if (burn) {
+    // Far enough out that an early, small burn is still the cheapest way to clear the event
+    return {
+      id,
+      type: 'orbit_adjustment',
+      description: `Plan early avoidance burn - ${hoursToTCA.toFixed(1)}h until closest approach: ${burn.summary}`,
+      priority: conjunction.risk === 'high' ? 'high' : 'medium',
+      estimatedFuelCost: burn.estimatedFuelCost,
+      estimatedTimeToExecute: 30,
+      successProbability: burn.successProbability,
+      parameters: burn.parameters
     };
   } else {
     return {
+      id,
       type: 'attitude_change',
       description: `Monitor situation - ${hoursToTCA.toFixed(1)}h until closest approach`,
       priority: 'medium',
-      estimatedFuelCost: 0.1,
       estimatedTimeToExecute: 5,
-      successProbability: 0.98,
-      parameters: {
-        deltaV: 0.5, // m/s
-        burnDuration: 60 // seconds
-      }
+      successProbability: 0.98
     };
   }
 }
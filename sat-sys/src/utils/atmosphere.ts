@@ -0,0 +1,132 @@
+/**
+ * Atmospheric density models used for drag perturbations
+ */
+
+// Exponential atmosphere reference table (Vallado, Fundamentals of Astrodynamics)
+// [base altitude (km), nominal density (kg/m³), scale height (km)]
+const EXPONENTIAL_ATMOSPHERE: Array<[number, number, number]> = [
+  [0, 1.225, 7.249],
+  [25, 3.899e-2, 6.349],
+  [30, 1.774e-2, 6.682],
+  [40, 3.972e-3, 7.554],
+  [50, 1.057e-3, 8.382],
+  [60, 3.206e-4, 7.714],
+  [70, 8.770e-5, 6.549],
+  [80, 1.905e-5, 5.799],
+  [90, 3.396e-6, 5.382],
+  [100, 5.297e-7, 5.877],
+  [110, 9.661e-8, 7.263],
+  [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636],
+  [140, 3.845e-9, 16.149],
+  [150, 2.070e-9, 22.523],
+  [180, 5.464e-10, 29.740],
+  [200, 2.789e-10, 37.105],
+  [250, 7.248e-11, 45.546],
+  [300, 2.418e-11, 53.628],
+  [350, 9.518e-12, 53.298],
+  [400, 3.725e-12, 58.515],
+  [450, 1.585e-12, 60.828],
+  [500, 6.967e-13, 63.822],
+  [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667],
+  [800, 1.170e-14, 124.64],
+  [900, 5.245e-15, 181.05],
+  [1000, 3.019e-15, 268.00],
+];
+
+/**
+ * Atmospheric density from the piecewise exponential model
+ * @param altitudeKm - Geodetic altitude above the surface (km)
+ * @returns Density in kg/m³
+ */
+export function exponentialAtmosphereDensity(altitudeKm: number): number {
+  const altitude = Math.max(0, altitudeKm);
+
+  let band = EXPONENTIAL_ATMOSPHERE[0];
+  for (const row of EXPONENTIAL_ATMOSPHERE) {
+    if (row[0] > altitude) break;
+    band = row;
+  }
+
+  const [baseAltitude, baseDensity, scaleHeight] = band;
+  return baseDensity * Math.exp(-(altitude - baseAltitude) / scaleHeight);
+}
+
+// ==================== THERMOSPHERE ====================
+
+/**
+ * Solar and geomagnetic drivers of thermospheric density
+ */
+export interface ThermosphereDrivers {
+  f107: number; // daily 10.7 cm solar flux (sfu)
+  f107Average: number; // centred ~81-day or 90-day mean (sfu)
+  ap: number; // planetary equivalent amplitude
+}
+
+// Kp thirds (0o, 0+, 1-, ... 9o) to ap
+const KP_TO_AP = [0, 2, 3, 4, 5, 6, 7, 9, 12, 15, 18, 22, 27, 32, 39, 48, 56, 67, 80, 94, 111, 132, 154, 179, 207, 236, 300, 400];
+
+/**
+ * Equivalent ap for a Kp value, interpolated between Kp thirds
+ */
+export function kpToAp(kp: number): number {
+  const index = Math.min(KP_TO_AP.length - 1, Math.max(0, kp * 3));
+  const lower = Math.floor(index);
+  const upper = Math.min(KP_TO_AP.length - 1, lower + 1);
+  return KP_TO_AP[lower] + (KP_TO_AP[upper] - KP_TO_AP[lower]) * (index - lower);
+}
+
+// Lower boundary of the diffusive thermosphere (Jacchia 1977 style): temperature and number densities (m⁻³)
+const BOUNDARY_ALTITUDE = 120; // km
+const BOUNDARY_TEMPERATURE = 380; // K
+const SHAPE_PARAMETER = 0.02; // 1/km, how fast temperature approaches the exospheric value
+const DIURNAL_MEAN = 1.1; // orbit-averaged temperature over the nighttime minimum (diurnal bulge)
+
+const BOLTZMANN = 1.380649e-23; // J/K
+const ATOMIC_MASS = 1.66054e-27; // kg
+const G_BOUNDARY = 9.80665 * (6378.137 / (6378.137 + BOUNDARY_ALTITUDE)) ** 2; // m/s² at 120 km
+
+// [molecular mass (amu), number density at 120 km (m⁻³), thermal diffusion coefficient]
+const SPECIES: Array<[number, number, number]> = [
+  [28.0134, 4.0e17, 0], // N2
+  [31.9988, 7.5e16, 0], // O2
+  [15.9994, 7.6e16, 0], // O
+  [4.0026, 3.4e13, -0.38] // He
+];
+
+/**
+ * Global exospheric temperature (K) from solar flux and geomagnetic activity (Jacchia 1971):
+ * the nighttime minimum from F10.7 raised by the diurnal bulge, plus storm heating from ap
+ */
+export function exosphericTemperature(drivers: ThermosphereDrivers): number {
+  const { f107, f107Average, ap } = drivers;
+  const nighttime = 379 + 3.24 * f107Average + 1.3 * (f107 - f107Average);
+  const storm = ap + 100 * (1 - Math.exp(-0.08 * ap));
+  return nighttime * DIURNAL_MEAN + storm;
+}
+
+/**
+ * Thermospheric density from the exospheric temperature, for altitudes above 120 km. Each species is in
+ * diffusive equilibrium above the 120 km boundary along a Bates temperature profile (Walker's closed form);
+ * below the boundary the exponential model is used.
+ * @param altitudeKm - Geodetic altitude above the surface (km)
+ * @returns Density in kg/m³
+ */
+export function thermosphereDensity(altitudeKm: number, drivers: ThermosphereDrivers): number {
+  if (altitudeKm <= BOUNDARY_ALTITUDE) return exponentialAtmosphereDensity(altitudeKm);
+
+  const exospheric = exosphericTemperature(drivers);
+  const radius = 6378.137;
+  // Geopotential height above the boundary (km)
+  const xi = (altitudeKm - BOUNDARY_ALTITUDE) * (radius + BOUNDARY_ALTITUDE) / (radius + altitudeKm);
+  const a = (exospheric - BOUNDARY_TEMPERATURE) / exospheric;
+  const decay = Math.exp(-SHAPE_PARAMETER * xi);
+  const temperatureRatio = (1 - a) / (1 - a * decay); // T(120) / T(z)
+
+  return SPECIES.reduce((density, [mass, boundaryDensity, thermalDiffusion]) => {
+    const gamma = (mass * ATOMIC_MASS * G_BOUNDARY) / (SHAPE_PARAMETER * 1e-3 * BOLTZMANN * exospheric);
+    const numberDensity = boundaryDensity * temperatureRatio ** (1 + thermalDiffusion + gamma) * Math.exp(-SHAPE_PARAMETER * gamma * xi);
+    return density + numberDensity * mass * ATOMIC_MASS;
+  }, 0);
+}
@@ -0,0 +1,188 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ConjunctionEvent } from '../types/Satellite';
+import { DEFAULT_POSITION_COVARIANCE } from './collisionProbability';
+import { cdmToConjunction, conjunctionToCdm, exportConjunctionAsCdm, formatCdmKvn, formatCdmXml, parseCdm } from './cdm';
+import { norm } from './orbitalMechanics';
+
+const SAMPLE_KVN = `CCSDS_CDM_VERS                    = 1.0
+CREATION_DATE                     = 2010-03-12T22:31:12.000
+ORIGINATOR                        = JSPOC
+MESSAGE_FOR                       = SATELLITE A
+MESSAGE_ID                        = 201113719185
+COMMENT Relative metadata
+TCA                               = 2010-03-13T22:37:52.618
+MISS_DISTANCE                     = 715 [m]
+RELATIVE_SPEED                    = 14762 [m/s]
+RELATIVE_POSITION_R               = 27.4 [m]
+RELATIVE_POSITION_T               = -70.2 [m]
+RELATIVE_POSITION_N               = 711.8 [m]
+RELATIVE_VELOCITY_R               = -7.2 [m/s]
+RELATIVE_VELOCITY_T               = -14692.0 [m/s]
+RELATIVE_VELOCITY_N               = -1437.2 [m/s]
+COLLISION_PROBABILITY             = 4.835E-05
+COLLISION_PROBABILITY_METHOD      = FOSTER-1992
+OBJECT                            = OBJECT1
+OBJECT_DESIGNATOR                 = 12345
+CATALOG_NAME                      = SATCAT
+OBJECT_NAME                       = SATELLITE A
+INTERNATIONAL_DESIGNATOR          = 1997-030E
+REF_FRAME                         = EME2000
+X                                 = 2570.097065 [km]
+Y                                 = 2244.654904 [km]
+Z                                 = 6281.497978 [km]
+X_DOT                             = 4.418769571 [km/s]
+Y_DOT                             = 4.833547743 [km/s]
+Z_DOT                             = -3.526774282 [km/s]
+CR_R                              = 4.142E+01 [m**2]
+CT_R                              = -8.579E+00 [m**2]
+CT_T                              = 2.533E+03 [m**2]
+CN_R                              = -2.313E+01 [m**2]
+CN_T                              = 1.336E+01 [m**2]
+CN_N                              = 7.098E+01 [m**2]
+OBJECT                            = OBJECT2
+OBJECT_DESIGNATOR                 = 30337
+CATALOG_NAME                      = SATCAT
+OBJECT_NAME                       = FENGYUN 1C DEB
+INTERNATIONAL_DESIGNATOR          = 1999-025AA
+REF_FRAME                         = EME2000
+X                                 = 2569.540800 [km]
+Y                                 = 2245.093614 [km]
+Z                                 = 6281.599946 [km]
+X_DOT                             = -2.888612500 [km/s]
+Y_DOT                             = -6.007247516 [km/s]
+Z_DOT                             = 3.328770172 [km/s]
+`;
+
+const expectVectorClose = (actual: { x: number; y: number; z: number } | undefined, expected: { x: number; y: number; z: number }, digits: number) => {
+  expect(actual).toBeDefined();
+  expect(actual!.x).toBeCloseTo(expected.x, digits);
+  expect(actual!.y).toBeCloseTo(expected.y, digits);
+  expect(actual!.z).toBeCloseTo(expected.z, digits);
+};
+
+describe('parseCdm', () => {
+  it('reads the relative metadata and both object segments from KVN', () => {
+    const cdm = parseCdm(SAMPLE_KVN);
+
+    expect(cdm.messageId).toBe('201113719185');
+    expect(cdm.tca).toBe('2010-03-13T22:37:52.618Z');
+    expect(cdm.missDistance).toBe(715);
+    expect(cdm.relativeSpeed).toBe(14762);
+    expect(cdm.relativePosition).toEqual({ r: 27.4, t: -70.2, n: 711.8 });
+    expect(cdm.collisionProbability).toBe(4.835e-5);
+
+    const [primary, secondary] = cdm.objects;
+    expect(primary.designator).toBe('12345');
+    expect(primary.refFrame).toBe('EME2000');
+    expect(primary.stateVector?.velocity.z).toBe(-3.526774282);
+    expect(primary.covariance?.[1][0]).toBe(-8.579);
+    expect(primary.covariance?.[0][1]).toBe(-8.579);
+    expect(secondary.name).toBe('FENGYUN 1C DEB');
+    expect(secondary.covariance).toBeUndefined();
+  });
+
+  it('maps to a conjunction in km with the message Pc', () => {
+    const event = cdmToConjunction(parseCdm(SAMPLE_KVN));
+
+    expect(event.satelliteId).toBe('12345');
+    expect(event.objectId).toBe('30337');
+    expect(event.missDistance).toBeCloseTo(0.715, 12);
+    expect(event.relativeVelocity).toBeCloseTo(14.762, 12);
+    expect(event.probability).toBe(4.835e-5);
+    expect(event.risk).toBe('medium');
+    expect(event.primaryFrame).toBe('EME2000');
+    expect(event.primaryCovariance?.[1][1]).toBeCloseTo(2.533e-3, 12);
+    expect(norm(event.relativePosition!)).toBeCloseTo(0.715, 2);
+  });
+
+  it('rejects messages that are not CDMs or use unsupported frames', () => {
+    expect(() => parseCdm('TCA = 2010-03-13T22:37:52.618\nMISS_DISTANCE = 715')).toThrow('Missing CCSDS_CDM_VERS');
+    expect(() => parseCdm(SAMPLE_KVN.replace('REF_FRAME                         = EME2000', 'REF_FRAME = MOD'))).toThrow('Unsupported REF_FRAME "MOD" for OBJECT1');
+    expect(() => parseCdm(SAMPLE_KVN.replace(/REF_FRAME .*\n/, ''))).toThrow('Missing REF_FRAME for OBJECT1');
+  });
+
+  it('reports an unreadable TCA as a parse error', () => {
+    expect(() => parseCdm(SAMPLE_KVN.replace('2010-03-13T22:37:52.618', 'tomorrow'))).toThrow('Invalid TCA "tomorrow"');
+  });
+
+  it('rotates Earth-fixed states to TEME, adding the Earth rotation to the velocity', () => {
+    const itrf = SAMPLE_KVN.replace(/REF_FRAME .*\n/g, 'REF_FRAME = ITRF-93\n');
+    const cdm = parseCdm(itrf);
+    const event = cdmToConjunction(cdm);
+    const fixed = cdm.objects[0].stateVector!;
+
+    expect(cdm.objects[0].refFrame).toBe('ITRF');
+    expect(event.primaryFrame).toBe('TEME');
+    expect(norm(event.primaryState!.position)).toBeCloseTo(norm(fixed.position), 9);
+    expect(event.primaryState!.position.z).toBeCloseTo(fixed.position.z, 9);
+    expect(norm(event.primaryState!.velocity)).not.toBeCloseTo(norm(fixed.velocity), 3);
+  });
+});
+
+describe('CDM round trip', () => {
+  const event: ConjunctionEvent = {
+    id: 'screen-1',
+    satelliteId: '25544',
+    objectName: 'COSMOS 2251 DEB',
+    objectId: '34454',
+    tca: '2025-06-01T12:00:00.000Z',
+    missDistance: 0.35,
+    relativeVelocity: 11.2,
+    probability: 2.5e-5,
+    risk: 'medium',
+    relativePosition: { x: 0.1, y: -0.2, z: 0.27 },
+    relativeVelocityVector: { x: -3, y: 2, z: 10.6 },
+    primaryState: { position: { x: 6778, y: 10, z: -20 }, velocity: { x: 0.01, y: 4.7, z: 6.0 } },
+    secondaryState: { position: { x: 6778.1, y: 9.8, z: -19.73 }, velocity: { x: -2.99, y: 6.7, z: 16.6 } },
+    primaryFrame: 'TEME',
+    secondaryFrame: 'TEME',
+    primaryCovariance: [[1e-4, 0, 0], [0, 2.5e-3, 1e-5], [0, 1e-5, 4e-4]],
+    pcMethod: 'chan'
+  };
+
+  it.each([['KVN', formatCdmKvn], ['XML', formatCdmXml]])('keeps states, frames, relative vectors and covariance through %s', (_, format) => {
+    const cdm = conjunctionToCdm(event, 'ISS (ZARYA)');
+    const parsed = parseCdm(format(cdm));
+    const back = cdmToConjunction(parsed);
+
+    expect(parsed.objects[0].name).toBe('ISS (ZARYA)');
+    expect(parsed.objects[0].refFrame).toBe('TEME');
+    expect(parsed.collisionProbabilityMethod).toBe('CHAN-1997');
+    expect(back.tca).toBe(event.tca);
+    expect(back.missDistance).toBeCloseTo(event.missDistance, 12);
+    expect(back.probability).toBeCloseTo(event.probability, 12);
+    expect(back.pcMethod).toBe('chan');
+    expect(back.primaryFrame).toBe('TEME');
+    expectVectorClose(back.primaryState?.position, event.primaryState!.position, 6);
+    expectVectorClose(back.secondaryState?.velocity, event.secondaryState!.velocity, 8);
+    expectVectorClose(back.relativePosition, event.relativePosition!, 8);
+    expectVectorClose(back.relativeVelocityVector, event.relativeVelocityVector!, 8);
+    back.primaryCovariance!.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(event.primaryCovariance![i][j], 10)));
+    back.secondaryCovariance!.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(DEFAULT_POSITION_COVARIANCE[i][j], 10)));
+  });
+
+  it('writes the full state and all 21 RTN covariance terms for both objects', () => {
+    const kvn = formatCdmKvn(conjunctionToCdm(event));
+    const covarianceLines = kvn.split('\n').filter(line => /^C(R|T|N|RDOT|TDOT|NDOT)_/.test(line));
+
+    expect(kvn.match(/^[XYZ](_DOT)?\s+=/gm)).toHaveLength(12);
+    expect(covarianceLines).toHaveLength(42);
+    expect(covarianceLines[20]).toMatch(/^CNDOT_NDOT\s+= 0\.000000e\+0 \[m\*\*2\/s\*\*2\]$/);
+    expect(kvn).toMatch(/CRDOT_R\s+= 0\.000000e\+0 \[m\*\*2\/s\]/);
+    expect(kvn.match(/COVARIANCE_METHOD\s+= (\w+)/g)).toEqual([
+      expect.stringMatching(/CALCULATED$/),
+      expect.stringMatching(/DEFAULT$/)
+    ]);
+  });
+
+  it('refuses to export without states at TCA or with an invalid TCA', () => {
+    expect(() => exportConjunctionAsCdm({ ...event, secondaryState: undefined })).toThrow('OBJECT2 (COSMOS 2251 DEB) has no state vector at TCA');
+    expect(() => exportConjunctionAsCdm({ ...event, tca: 'not a date' }, 'xml')).toThrow('Invalid TCA "not a date"');
+  });
+
+  it('writes EME2000 for states without a recorded frame', () => {
+    const unframed = { ...event, primaryFrame: undefined, secondaryFrame: undefined };
+    expect(formatCdmKvn(conjunctionToCdm(unframed))).toMatch(/REF_FRAME\s+= EME2000/);
+  });
+});
@@ -0,0 +1,503 @@
+/**
+ * CCSDS Conjunction Data Message (CDM, CCSDS 508.0-B-1) parsing and serialization
+ * Supports the KVN (keyword = value) and XML encodings
+ */
+
+import * as satellite from 'satellite.js';
+import { ConjunctionEvent, ReferenceFrame, RTNVector, StateVector, Vector3 } from '../types/Satellite';
+import { calculateThreatLevel, computeCollisionProbability, DEFAULT_POSITION_COVARIANCE, estimateCollisionProbability, rtnBasis, rtnToEciVector } from './collisionProbability';
+import { add, cross, dot, scale } from './orbitalMechanics';
+
+export type CdmFormat = 'kvn' | 'xml';
+
+export interface CdmObject {
+  designator: string; // OBJECT_DESIGNATOR (catalog number)
+  name: string; // OBJECT_NAME
+  internationalDesignator?: string;
+  maneuverable?: string; // YES / NO / N/A
+  refFrame?: ReferenceFrame; // REF_FRAME of the state vector
+  stateVector?: StateVector; // km, km/s
+  covariance?: number[][]; // 3x3 RTN position covariance (m²)
+}
+
+export interface CdmMessage {
+  version: string;
+  creationDate: string;
+  originator: string;
+  messageFor?: string;
+  messageId: string;
+  tca: string;
+  missDistance: number; // m
+  relativeSpeed?: number; // m/s
+  relativePosition?: RTNVector; // m, RTN of object 1
+  relativeVelocity?: RTNVector; // m/s, RTN of object 1
+  collisionProbability?: number;
+  collisionProbabilityMethod?: string;
+  objects: [CdmObject, CdmObject];
+}
+
+// Lower triangle of the 6x6 RTN covariance, in message order; the first six terms are the position block
+const COVARIANCE_AXES = ['R', 'T', 'N', 'RDOT', 'TDOT', 'NDOT'];
+const COVARIANCE_KEYS = COVARIANCE_AXES.flatMap((rowAxis, row) =>
+  COVARIANCE_AXES.slice(0, row + 1).map((columnAxis, column) => [`C${rowAxis}_${columnAxis}`, row, column] as const)
+);
+const POSITION_COVARIANCE_KEYS = COVARIANCE_KEYS.slice(0, 6);
+const COVARIANCE_UNITS = ['m**2', 'm**2/s', 'm**2/s**2'];
+
+// ==================== PARSING ====================
+
+type Field = [keyword: string, value: string];
+
+/**
+ * Split KVN text into keyword/value pairs, dropping comments and unit annotations
+ */
+function kvnFields(text: string): Field[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('COMMENT'))
+    .map(line => {
+      const separator = line.indexOf('=');
+      if (separator < 0) throw new Error(`Malformed CDM line: "${line}"`);
+      const keyword = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).replace(/\[.*\]\s*$/, '').trim();
+      return [keyword, value] as Field;
+    });
+}
+
+/**
+ * Flatten CDM XML into keyword/value pairs in document order
+ */
+function xmlFields(text: string): Field[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Malformed CDM XML');
+  }
+
+  const root = xml.documentElement;
+  const fields: Field[] = [];
+  if (root.getAttribute('id') === 'CCSDS_CDM_VERS') {
+    fields.push(['CCSDS_CDM_VERS', root.getAttribute('version') ?? '1.0']);
+  }
+
+  const walk = (element: Element) => {
+    if (element.children.length === 0) {
+      if (element.tagName !== 'COMMENT') {
+        fields.push([element.tagName, (element.textContent ?? '').trim()]);
+      }
+      return;
+    }
+    Array.from(element.children).forEach(walk);
+  };
+  walk(root);
+
+  return fields;
+}
+
+/**
+ * REF_FRAME of an object segment. ITRF realizations (ITRF-93, ITRF2000, ...) are all taken as ITRF;
+ * frames we cannot convert to the simulation's inertial frame are rejected.
+ */
+function parseRefFrame(value: string | undefined, object: string): ReferenceFrame {
+  if (value === undefined) throw new Error(`Missing REF_FRAME for ${object}`);
+  const frame = value.toUpperCase();
+  if (frame.startsWith('ITRF')) return 'ITRF';
+  if (frame === 'EME2000' || frame === 'GCRF' || frame === 'TEME') return frame;
+  throw new Error(`Unsupported REF_FRAME "${value}" for ${object}`);
+}
+
+const parseNumber = (value: string | undefined) => (value === undefined || value === '' ? undefined : Number(value));
+
+/**
+ * CDM epochs are UTC without a zone designator
+ */
+function toIsoUtc(value: string, keyword: string): string {
+  const date = new Date(/[zZ]$/.test(value) ? value : `${value}Z`);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${keyword} "${value}"`);
+  return date.toISOString();
+}
+
+/**
+ * Build a CDM from keyword/value pairs; OBJECT = OBJECT1/OBJECT2 switches the segment
+ */
+function fieldsToMessage(fields: Field[]): CdmMessage {
+  const relative: Record<string, string> = {};
+  const segments: Array<Record<string, string>> = [];
+  let current = relative;
+
+  fields.forEach(([keyword, value]) => {
+    if (keyword === 'OBJECT') {
+      current = { OBJECT: value };
+      segments.push(current);
+      return;
+    }
+    current[keyword] = value;
+  });
+
+  if (!relative.CCSDS_CDM_VERS) throw new Error('Missing CCSDS_CDM_VERS - not a CDM');
+  if (!relative.TCA) throw new Error('Missing TCA');
+  if (relative.MISS_DISTANCE === undefined) throw new Error('Missing MISS_DISTANCE');
+  if (segments.length !== 2) throw new Error(`Expected 2 object segments, found ${segments.length}`);
+
+  const toObject = (segment: Record<string, string>): CdmObject => {
+    const object: CdmObject = {
+      designator: segment.OBJECT_DESIGNATOR ?? '',
+      name: segment.OBJECT_NAME ?? segment.OBJECT_DESIGNATOR ?? segment.OBJECT,
+      internationalDesignator: segment.INTERNATIONAL_DESIGNATOR,
+      maneuverable: segment.MANEUVERABLE
+    };
+
+    if (['X', 'Y', 'Z', 'X_DOT', 'Y_DOT', 'Z_DOT'].every(key => segment[key] !== undefined)) {
+      object.refFrame = parseRefFrame(segment.REF_FRAME, segment.OBJECT);
+      object.stateVector = {
+        position: { x: Number(segment.X), y: Number(segment.Y), z: Number(segment.Z) },
+        velocity: { x: Number(segment.X_DOT), y: Number(segment.Y_DOT), z: Number(segment.Z_DOT) }
+      };
+    }
+
+    // Only the position block is used; velocity terms are optional on import
+    if (POSITION_COVARIANCE_KEYS.every(([key]) => segment[key] !== undefined)) {
+      const covariance = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      POSITION_COVARIANCE_KEYS.forEach(([key, row, column]) => {
+        covariance[row][column] = Number(segment[key]);
+        covariance[column][row] = Number(segment[key]);
+      });
+      object.covariance = covariance;
+    }
+
+    return object;
+  };
+
+  const rtn = (prefix: string) =>
+    [`${prefix}_R`, `${prefix}_T`, `${prefix}_N`].every(key => relative[key] !== undefined)
+      ? { r: Number(relative[`${prefix}_R`]), t: Number(relative[`${prefix}_T`]), n: Number(relative[`${prefix}_N`]) }
+      : undefined;
+
+  return {
+    version: relative.CCSDS_CDM_VERS,
+    creationDate: relative.CREATION_DATE ?? '',
+    originator: relative.ORIGINATOR ?? '',
+    messageFor: relative.MESSAGE_FOR,
+    messageId: relative.MESSAGE_ID ?? '',
+    tca: toIsoUtc(relative.TCA, 'TCA'),
+    missDistance: Number(relative.MISS_DISTANCE),
+    relativeSpeed: parseNumber(relative.RELATIVE_SPEED),
+    relativePosition: rtn('RELATIVE_POSITION'),
+    relativeVelocity: rtn('RELATIVE_VELOCITY'),
+    collisionProbability: parseNumber(relative.COLLISION_PROBABILITY),
+    collisionProbabilityMethod: relative.COLLISION_PROBABILITY_METHOD,
+    objects: [toObject(segments[0]), toObject(segments[1])]
+  };
+}
+
+/**
+ * Parse a CDM in either KVN or XML form
+ */
+export function parseCdm(text: string): CdmMessage {
+  const trimmed = text.trim();
+  return fieldsToMessage(trimmed.startsWith('<') ? xmlFields(trimmed) : kvnFields(trimmed));
+}
+
+// ==================== MAPPING ====================
+
+const toRTN = (vector: Vector3, state: StateVector) => {
+  const { R, T, N } = rtnBasis(state);
+  return { r: dot(vector, R), t: dot(vector, T), n: dot(vector, N) };
+};
+
+const EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+
+/**
+ * Earth-fixed (ITRF) state to TEME at a date, rotating through GMST; polar motion is neglected
+ */
+function itrfToTeme({ position, velocity }: StateVector, date: Date): StateVector {
+  const gmst = satellite.gstime(date);
+  const rotate = (vector: Vector3) => ({
+    x: vector.x * Math.cos(gmst) - vector.y * Math.sin(gmst),
+    y: vector.x * Math.sin(gmst) + vector.y * Math.cos(gmst),
+    z: vector.z
+  });
+  const inertialPosition = rotate(position);
+  return {
+    position: inertialPosition,
+    velocity: add(rotate(velocity), cross({ x: 0, y: 0, z: EARTH_ROTATION_RATE }, inertialPosition))
+  };
+}
+
+/**
+ * A CDM object's state at TCA in an inertial frame, with that frame
+ */
+function inertialState(object: CdmObject, tca: string): { state: StateVector; frame: ReferenceFrame } | undefined {
+  if (!object.stateVector) return undefined;
+  return object.refFrame === 'ITRF'
+    ? { state: itrfToTeme(object.stateVector, new Date(tca)), frame: 'TEME' }
+    : { state: object.stateVector, frame: object.refFrame ?? 'EME2000' };
+}
+
+const m2ToKm2 = (covariance: number[][]) => covariance.map(row => row.map(value => value / 1e6));
+const km2ToM2 = (covariance: number[][]) => covariance.map(row => row.map(value => value * 1e6));
+
+/**
+ * Map a CDM to a ConjunctionEvent. Pc is taken from the message when present,
+ * otherwise computed from the objects' states and covariances. Earth-fixed states are rotated to TEME.
+ */
+export function cdmToConjunction(cdm: CdmMessage): ConjunctionEvent {
+  const [primary, secondary] = cdm.objects;
+  const missDistance = cdm.missDistance / 1000;
+  const relativeVelocity = (cdm.relativeSpeed ?? 0) / 1000;
+  const primaryCovariance = primary.covariance && m2ToKm2(primary.covariance);
+  const secondaryCovariance = secondary.covariance && m2ToKm2(secondary.covariance);
+  const primaryInertial = inertialState(primary, cdm.tca);
+  const secondaryInertial = inertialState(secondary, cdm.tca);
+
+  const method = cdm.collisionProbabilityMethod?.toUpperCase().startsWith('CHAN') ? 'chan' : 'foster';
+  let probability = cdm.collisionProbability;
+  if (probability === undefined) {
+    probability = primaryInertial && secondaryInertial
+      ? computeCollisionProbability({
+          primaryState: primaryInertial.state,
+          secondaryState: secondaryInertial.state,
+          primaryCovariance,
+          secondaryCovariance
+        }, method)
+      : estimateCollisionProbability(missDistance, relativeVelocity, method);
+  }
+
+  const event: ConjunctionEvent = {
+    id: `cdm-${cdm.messageId || `${primary.designator}-${secondary.designator}`}-${new Date(cdm.tca).getTime()}`,
+    satelliteId: primary.designator,
+    objectName: secondary.name,
+    objectId: secondary.designator,
+    tca: cdm.tca,
+    missDistance,
+    relativeVelocity,
+    probability,
+    risk: calculateThreatLevel(missDistance, probability),
+    source: 'cdm',
+    primaryCovariance,
+    secondaryCovariance,
+    pcMethod: method
+  };
+
+  // Relative vectors are given in object 1's RTN frame; rotate to ECI when its state is known
+  if (primaryInertial) {
+    const { state, frame } = primaryInertial;
+    event.primaryState = state;
+    event.primaryFrame = frame;
+    if (cdm.relativePosition) event.relativePosition = scale(rtnToEciVector(cdm.relativePosition, state), 1 / 1000);
+    if (cdm.relativeVelocity) event.relativeVelocityVector = scale(rtnToEciVector(cdm.relativeVelocity, state), 1 / 1000);
+  }
+  if (secondaryInertial) {
+    event.secondaryState = secondaryInertial.state;
+    event.secondaryFrame = secondaryInertial.frame;
+  }
+
+  return event;
+}
+
+/**
+ * Map a ConjunctionEvent (e.g. from our own screening) to a CDM. Throws on an invalid TCA.
+ */
+export function conjunctionToCdm(event: ConjunctionEvent, primaryName?: string, originator: string = 'SAT-SYS'): CdmMessage {
+  const creationDate = new Date().toISOString();
+  const primaryState = event.primaryState;
+
+  return {
+    version: '1.0',
+    creationDate,
+    originator,
+    messageId: `${originator}_${event.id}`,
+    tca: toIsoUtc(event.tca, 'TCA'),
+    missDistance: event.missDistance * 1000,
+    relativeSpeed: event.relativeVelocity * 1000,
+    relativePosition: primaryState && event.relativePosition
+      ? toRTN(scale(event.relativePosition, 1000), primaryState)
+      : undefined,
+    relativeVelocity: primaryState && event.relativeVelocityVector
+      ? toRTN(scale(event.relativeVelocityVector, 1000), primaryState)
+      : undefined,
+    collisionProbability: event.probability,
+    collisionProbabilityMethod: event.pcMethod === 'chan' ? 'CHAN-1997' : 'FOSTER-1992',
+    objects: [
+      {
+        designator: event.satelliteId,
+        name: primaryName ?? event.satelliteId,
+        refFrame: event.primaryState && (event.primaryFrame ?? 'EME2000'),
+        stateVector: event.primaryState,
+        covariance: event.primaryCovariance && km2ToM2(event.primaryCovariance)
+      },
+      {
+        designator: event.objectId ?? event.objectName,
+        name: event.objectName,
+        refFrame: event.secondaryState && (event.secondaryFrame ?? 'EME2000'),
+        stateVector: event.secondaryState,
+        covariance: event.secondaryCovariance && km2ToM2(event.secondaryCovariance)
+      }
+    ]
+  };
+}
+
+// ==================== SERIALIZATION ====================
+
+interface SerializedField {
+  keyword: string;
+  value: string;
+  units?: string;
+}
+
+const stripZone = (iso: string) => iso.replace(/Z$/, '');
+const formatValue = (value: number) => Number(value.toPrecision(10)).toString();
+
+function relativeFields(cdm: CdmMessage): SerializedField[] {
+  const fields: SerializedField[] = [
+    { keyword: 'TCA', value: stripZone(cdm.tca) },
+    { keyword: 'MISS_DISTANCE', value: formatValue(cdm.missDistance), units: 'm' }
+  ];
+  if (cdm.relativeSpeed !== undefined) {
+    fields.push({ keyword: 'RELATIVE_SPEED', value: formatValue(cdm.relativeSpeed), units: 'm/s' });
+  }
+  (['r', 't', 'n'] as const).forEach(axis => {
+    if (cdm.relativePosition) {
+      fields.push({ keyword: `RELATIVE_POSITION_${axis.toUpperCase()}`, value: formatValue(cdm.relativePosition[axis]), units: 'm' });
+    }
+  });
+  (['r', 't', 'n'] as const).forEach(axis => {
+    if (cdm.relativeVelocity) {
+      fields.push({ keyword: `RELATIVE_VELOCITY_${axis.toUpperCase()}`, value: formatValue(cdm.relativeVelocity[axis]), units: 'm/s' });
+    }
+  });
+  if (cdm.collisionProbability !== undefined) {
+    fields.push({ keyword: 'COLLISION_PROBABILITY', value: cdm.collisionProbability.toExponential(6) });
+    fields.push({ keyword: 'COLLISION_PROBABILITY_METHOD', value: cdm.collisionProbabilityMethod ?? 'FOSTER-1992' });
+  }
+  return fields;
+}
+
+/**
+ * Metadata, state and covariance of one object. The state is mandatory; without a covariance the default
+ * position covariance used for Pc is written, and velocity terms we do not track are zero.
+ */
+function objectFields(object: CdmObject, label: string): { metadata: SerializedField[]; state: SerializedField[]; covariance: SerializedField[] } {
+  if (!object.stateVector) {
+    throw new Error(`${label} (${object.name}) has no state vector at TCA, which a CDM requires`);
+  }
+  const { position, velocity } = object.stateVector;
+
+  const metadata: SerializedField[] = [
+    { keyword: 'OBJECT', value: label },
+    { keyword: 'OBJECT_DESIGNATOR', value: object.designator },
+    { keyword: 'CATALOG_NAME', value: 'SATCAT' },
+    { keyword: 'OBJECT_NAME', value: object.name },
+    { keyword: 'INTERNATIONAL_DESIGNATOR', value: object.internationalDesignator ?? 'UNKNOWN' },
+    { keyword: 'EPHEMERIS_NAME', value: 'NONE' },
+    { keyword: 'COVARIANCE_METHOD', value: object.covariance ? 'CALCULATED' : 'DEFAULT' },
+    { keyword: 'MANEUVERABLE', value: object.maneuverable ?? 'N/A' },
+    { keyword: 'REF_FRAME', value: object.refFrame ?? 'EME2000' }
+  ];
+
+  const state: SerializedField[] = [
+    { keyword: 'X', value: formatValue(position.x), units: 'km' },
+    { keyword: 'Y', value: formatValue(position.y), units: 'km' },
+    { keyword: 'Z', value: formatValue(position.z), units: 'km' },
+    { keyword: 'X_DOT', value: formatValue(velocity.x), units: 'km/s' },
+    { keyword: 'Y_DOT', value: formatValue(velocity.y), units: 'km/s' },
+    { keyword: 'Z_DOT', value: formatValue(velocity.z), units: 'km/s' }
+  ];
+
+  const positionCovariance = object.covariance ?? km2ToM2(DEFAULT_POSITION_COVARIANCE);
+  const covariance: SerializedField[] = COVARIANCE_KEYS.map(([keyword, row, column]) => ({
+    keyword,
+    value: (row < 3 ? positionCovariance[row][column] : 0).toExponential(6),
+    units: COVARIANCE_UNITS[(row < 3 ? 0 : 1) + (column < 3 ? 0 : 1)]
+  }));
+
+  return { metadata, state, covariance };
+}
+
+/**
+ * Serialize a CDM in KVN form
+ */
+export function formatCdmKvn(cdm: CdmMessage): string {
+  const line = ({ keyword, value, units }: SerializedField) =>
+    `${keyword.padEnd(36)} = ${value}${units ? ` [${units}]` : ''}`;
+
+  const lines = [
+    line({ keyword: 'CCSDS_CDM_VERS', value: cdm.version }),
+    line({ keyword: 'CREATION_DATE', value: stripZone(cdm.creationDate) }),
+    line({ keyword: 'ORIGINATOR', value: cdm.originator }),
+    ...(cdm.messageFor ? [line({ keyword: 'MESSAGE_FOR', value: cdm.messageFor })] : []),
+    line({ keyword: 'MESSAGE_ID', value: cdm.messageId }),
+    ...relativeFields(cdm).map(line)
+  ];
+
+  cdm.objects.forEach((object, index) => {
+    const { metadata, state, covariance } = objectFields(object, `OBJECT${index + 1}`);
+    lines.push(...metadata.map(line), ...state.map(line), ...covariance.map(line));
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Serialize a CDM in XML form
+ */
+export function formatCdmXml(cdm: CdmMessage): string {
+  const element = ({ keyword, value, units }: SerializedField, indent: string) =>
+    `${indent}<${keyword}${units ? ` units="${units}"` : ''}>${escapeXml(value)}</${keyword}>`;
+
+  const relative = relativeFields(cdm);
+  const isRelativeState = (field: SerializedField) => field.keyword.startsWith('RELATIVE_POSITION') || field.keyword.startsWith('RELATIVE_VELOCITY');
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<cdm id="CCSDS_CDM_VERS" version="${cdm.version}">`,
+    '  <header>',
+    element({ keyword: 'CREATION_DATE', value: stripZone(cdm.creationDate) }, '    '),
+    element({ keyword: 'ORIGINATOR', value: cdm.originator }, '    '),
+    ...(cdm.messageFor ? [element({ keyword: 'MESSAGE_FOR', value: cdm.messageFor }, '    ')] : []),
+    element({ keyword: 'MESSAGE_ID', value: cdm.messageId }, '    '),
+    '  </header>',
+    '  <body>',
+    '    <relativeMetadataData>',
+    ...relative.filter(field => !isRelativeState(field) && !field.keyword.startsWith('COLLISION')).map(field => element(field, '      '))
+  ];
+
+  const relativeState = relative.filter(isRelativeState);
+  if (relativeState.length > 0) {
+    lines.push('      <relativeStateVector>', ...relativeState.map(field => element(field, '        ')), '      </relativeStateVector>');
+  }
+  lines.push(...relative.filter(field => field.keyword.startsWith('COLLISION')).map(field => element(field, '      ')));
+  lines.push('    </relativeMetadataData>');
+
+  cdm.objects.forEach((object, index) => {
+    const { metadata, state, covariance } = objectFields(object, `OBJECT${index + 1}`);
+    lines.push(
+      '    <segment>',
+      '      <metadata>',
+      ...metadata.map(field => element(field, '        ')),
+      '      </metadata>',
+      '      <data>'
+    );
+    lines.push(
+      '        <stateVector>', ...state.map(field => element(field, '          ')), '        </stateVector>',
+      '        <covarianceMatrix>', ...covariance.map(field => element(field, '          ')), '        </covarianceMatrix>',
+      '      </data>',
+      '    </segment>'
+    );
+  });
+
+  lines.push('  </body>', '</cdm>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize a ConjunctionEvent as a CDM in the requested format. Throws when the event has no states at TCA
+ * or an invalid TCA.
+ */
+export function exportConjunctionAsCdm(event: ConjunctionEvent, format: CdmFormat = 'kvn', primaryName?: string): string {
+  const cdm = conjunctionToCdm(event, primaryName);
+  return format === 'xml' ? formatCdmXml(cdm) : formatCdmKvn(cdm);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateThreatLevel,
+  chanPc,
+  computeCollisionProbability,
+  diagonalCovariance,
+  fosterPc,
+  rtnToEciCovariance,
+  rtnToEciVector
+} from './collisionProbability';
+
+const state = { position: { x: 7000, y: 0, z: 0 }, velocity: { x: 0, y: 7.5, z: 0 } };
+
+describe('RTN frame', () => {
+  it('maps radial, transverse and normal onto position, velocity and orbit normal', () => {
+    const eci = rtnToEciVector({ r: 1, t: 2, n: 3 }, state);
+    expect(eci.x).toBeCloseTo(1, 12);
+    expect(eci.y).toBeCloseTo(2, 12);
+    expect(eci.z).toBeCloseTo(3, 12);
+
+    const inclined = { position: { x: 0, y: 7000, z: 0 }, velocity: { x: 0, y: 0, z: 7.5 } };
+    const rotated = rtnToEciVector({ r: 0, t: 1, n: 1 }, inclined);
+    expect(rotated.x).toBeCloseTo(1, 12);
+    expect(rotated.y).toBeCloseTo(0, 12);
+    expect(rotated.z).toBeCloseTo(1, 12);
+  });
+
+  it('rotates a covariance without changing its trace', () => {
+    const tilted = { position: { x: 5000, y: 4000, z: 2000 }, velocity: { x: -4, y: 5, z: 3 } };
+    const eci = rtnToEciCovariance(diagonalCovariance(0.1, 0.5, 0.2), tilted);
+    expect(eci[0][0] + eci[1][1] + eci[2][2]).toBeCloseTo(0.01 + 0.25 + 0.04, 12);
+    expect(eci[0][1]).toBeCloseTo(eci[1][0], 12);
+  });
+});
+
+describe('Foster and Chan Pc', () => {
+  it('match the closed form for a head-on hit with isotropic covariance', () => {
+    const sigma = 0.05; // km
+    const radius = 0.02; // km
+    const covariance = [[sigma ** 2, 0], [0, sigma ** 2]];
+    const expected = 1 - Math.exp(-(radius ** 2) / (2 * sigma ** 2));
+
+    expect(chanPc({ x: 0, y: 0 }, covariance, radius)).toBeCloseTo(expected, 10);
+    expect(fosterPc({ x: 0, y: 0 }, covariance, radius) / expected).toBeCloseTo(1, 3);
+  });
+
+  it('agree for an offset miss with anisotropic, correlated covariance', () => {
+    const miss = { x: 0.3, y: -0.1 };
+    const covariance = [[0.04, 0.01], [0.01, 0.25]];
+    const radius = 0.01;
+
+    const foster = fosterPc(miss, covariance, radius);
+    const chan = chanPc(miss, covariance, radius);
+    expect(foster).toBeGreaterThan(1e-5);
+    expect(chan / foster).toBeCloseTo(1, 2);
+  });
+
+  it('fall off with miss distance', () => {
+    const covariance = [[0.01, 0], [0, 0.01]];
+    const near = fosterPc({ x: 0.1, y: 0 }, covariance, 0.01);
+    const far = fosterPc({ x: 0.5, y: 0 }, covariance, 0.01);
+    expect(far).toBeLessThan(near * 1e-4);
+  });
+
+  it('are zero for a degenerate covariance', () => {
+    expect(fosterPc({ x: 0, y: 0 }, [[0.01, 0.01], [0.01, 0.01]], 0.01)).toBe(0);
+    expect(chanPc({ x: 0, y: 0 }, [[0, 0], [0, 0.01]], 0.01)).toBe(0);
+  });
+});
+
+describe('computeCollisionProbability', () => {
+  it('gives the same Pc with either method for a crossing encounter', () => {
+    const secondary = { position: { x: 7000.2, y: 0, z: 0 }, velocity: { x: 0, y: 7.5, z: 10 } };
+    const input = { primaryState: state, secondaryState: secondary };
+    const foster = computeCollisionProbability(input, 'foster');
+    const chan = computeCollisionProbability(input, 'chan');
+
+    expect(foster).toBeGreaterThan(0);
+    expect(chan / foster).toBeCloseTo(1, 2);
+  });
+
+  it('is zero without relative motion', () => {
+    expect(computeCollisionProbability({ primaryState: state, secondaryState: state })).toBe(0);
+  });
+});
+
+describe('calculateThreatLevel', () => {
+  it('uses the maneuver and watch Pc thresholds', () => {
+    expect(calculateThreatLevel(5, 2e-4)).toBe('high');
+    expect(calculateThreatLevel(5, 2e-5)).toBe('medium');
+    expect(calculateThreatLevel(0.1, 1e-8)).toBe('medium');
+    expect(calculateThreatLevel(5, 1e-8)).toBe('low');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Collision probability (Pc) from position covariance
+ * 2D encounter-plane methods: Foster numerical integral and Chan series
+ */
+
+import { RTNVector, StateVector, Vector3 } from '../types/Satellite';
+import { add, cross, dot, norm, normalize, scale, subtract } from './orbitalMechanics';
+
+export type Matrix3 = number[][];
+export type PcMethod = 'foster' | 'chan';
+
+// Default 1-sigma position uncertainty in RTN (km) for objects without covariance
+export const DEFAULT_POSITION_SIGMA = { radial: 0.1, alongTrack: 0.5, crossTrack: 0.1 };
+export const DEFAULT_HARD_BODY_RADIUS = 5; // meters, per object
+
+/**
+ * Diagonal RTN covariance (km²) from 1-sigma uncertainties (km)
+ */
+export function diagonalCovariance(radial: number, alongTrack: number, crossTrack: number): Matrix3 {
+  return [
+    [radial ** 2, 0, 0],
+    [0, alongTrack ** 2, 0],
+    [0, 0, crossTrack ** 2]
+  ];
+}
+
+export const DEFAULT_POSITION_COVARIANCE: Matrix3 = diagonalCovariance(
+  DEFAULT_POSITION_SIGMA.radial,
+  DEFAULT_POSITION_SIGMA.alongTrack,
+  DEFAULT_POSITION_SIGMA.crossTrack
+);
+
+/**
+ * Unit vectors of the RTN (radial, transverse, normal) frame of a state, in ECI
+ */
+export function rtnBasis({ position, velocity }: StateVector) {
+  const R = normalize(position);
+  const N = normalize(cross(position, velocity));
+  const T = cross(N, R);
+  return { R, T, N };
+}
+
+/**
+ * Rotate an RTN vector into ECI
+ */
+export function rtnToEciVector({ r, t, n }: RTNVector, state: StateVector): Vector3 {
+  const { R, T, N } = rtnBasis(state);
+  return add(add(scale(R, r), scale(T, t)), scale(N, n));
+}
+
+/**
+ * Rotate an RTN covariance into ECI: C_eci = M C_rtn Mᵀ, with M = [R T N] as columns
+ */
+export function rtnToEciCovariance(covarianceRTN: Matrix3, state: StateVector): Matrix3 {
+  const { R, T, N } = rtnBasis(state);
+  const M = [
+    [R.x, T.x, N.x],
+    [R.y, T.y, N.y],
+    [R.z, T.z, N.z]
+  ];
+  return multiply(multiply(M, covarianceRTN), transpose(M));
+}
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row, i) => b[0].map((_, j) => row.reduce((sum, _, k) => sum + a[i][k] * b[k][j], 0)));
+}
+
+function transpose(a: Matrix3): Matrix3 {
+  return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+function addMatrices(a: Matrix3, b: Matrix3): Matrix3 {
+  return a.map((row, i) => row.map((value, j) => value + b[i][j]));
+}
+
+/**
+ * Project the relative geometry at TCA onto the 2D encounter plane
+ * (the plane perpendicular to the relative velocity)
+ */
+export function projectToEncounterPlane(relativePosition: Vector3, relativeVelocity: Vector3, covarianceECI: Matrix3) {
+  const zAxis = normalize(relativeVelocity);
+  // At TCA the miss vector is perpendicular to the relative velocity; remove any residual
+  const inPlane = subtract(relativePosition, scale(zAxis, dot(relativePosition, zAxis)));
+  const xAxis = norm(inPlane) > 1e-12 ? normalize(inPlane) : normalize(cross(zAxis, { x: 0, y: 0, z: 1 }));
+  const yAxis = cross(zAxis, xAxis);
+
+  const axes = [xAxis, yAxis].map(axis => [axis.x, axis.y, axis.z]);
+  const covariance = axes.map(u => axes.map(v =>
+    u.reduce((sum, ui, i) => sum + ui * v.reduce((inner, vj, j) => inner + covarianceECI[i][j] * vj, 0), 0)
+  ));
+
+  return {
+    miss: { x: dot(relativePosition, xAxis), y: dot(relativePosition, yAxis) },
+    covariance // 2x2, km²
+  };
+}
+
+/**
+ * Foster method: numerically integrate the 2D Gaussian over the hard-body circle
+ */
+export function fosterPc(miss: { x: number; y: number }, covariance: number[][], hardBodyRadius: number): number {
+  const [[sxx, sxy], [, syy]] = covariance;
+  const determinant = sxx * syy - sxy * sxy;
+  if (determinant <= 0) return 0;
+
+  const inverse = { xx: syy / determinant, xy: -sxy / determinant, yy: sxx / determinant };
+  const normalization = 1 / (2 * Math.PI * Math.sqrt(determinant));
+
+  const radialSteps = 64;
+  const angularSteps = 128;
+  const dr = hardBodyRadius / radialSteps;
+  const dTheta = (2 * Math.PI) / angularSteps;
+  let probability = 0;
+
+  // Midpoint rule in polar coordinates centred on the hard-body circle
+  for (let i = 0; i < radialSteps; i++) {
+    const r = (i + 0.5) * dr;
+    for (let j = 0; j < angularSteps; j++) {
+      const theta = (j + 0.5) * dTheta;
+      const dx = r * Math.cos(theta) - miss.x;
+      const dy = r * Math.sin(theta) - miss.y;
+      const exponent = inverse.xx * dx * dx + 2 * inverse.xy * dx * dy + inverse.yy * dy * dy;
+      probability += Math.exp(-0.5 * exponent) * r * dr * dTheta;
+    }
+  }
+
+  return Math.min(1, probability * normalization);
+}
+
+/**
+ * Chan method: analytic series for the equivalent-area circular approximation
+ */
+export function chanPc(miss: { x: number; y: number }, covariance: number[][], hardBodyRadius: number, terms: number = 30): number {
+  const [[sxx, sxy], [, syy]] = covariance;
+  const determinant = sxx * syy - sxy * sxy;
+  if (determinant <= 0) return 0;
+
+  // Principal axes of the 2D covariance
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const varianceX = sxx * cos * cos + 2 * sxy * sin * cos + syy * sin * sin;
+  const varianceY = sxx * sin * sin - 2 * sxy * sin * cos + syy * cos * cos;
+
+  const missX = miss.x * cos + miss.y * sin;
+  const missY = -miss.x * sin + miss.y * cos;
+
+  const u = hardBodyRadius ** 2 / Math.sqrt(determinant); // product of the principal variances
+  const v = missX ** 2 / varianceX + missY ** 2 / varianceY;
+
+  let probability = 0;
+  let outerTerm = 1; // v^m / (2^m m!)
+  let innerTerm = 1; // u^k / (2^k k!)
+  let innerSum = 0;
+
+  for (let m = 0; m < terms; m++) {
+    if (m > 0) {
+      outerTerm *= v / (2 * m);
+      innerTerm *= u / (2 * m);
+    }
+    innerSum += innerTerm;
+    probability += outerTerm * (1 - Math.exp(-u / 2) * innerSum);
+  }
+
+  return Math.min(1, Math.max(0, Math.exp(-v / 2) * probability));
+}
+
+export interface CollisionProbabilityInput {
+  primaryState: StateVector; // at TCA
+  secondaryState: StateVector; // at TCA
+  primaryCovariance?: Matrix3; // RTN, km²
+  secondaryCovariance?: Matrix3; // RTN, km²
+  hardBodyRadius?: number; // combined, meters
+}
+
+/**
+ * Collision probability for a conjunction from both objects' states and covariances at TCA
+ */
+export function computeCollisionProbability(input: CollisionProbabilityInput, method: PcMethod = 'foster'): number {
+  const {
+    primaryState,
+    secondaryState,
+    primaryCovariance = DEFAULT_POSITION_COVARIANCE,
+    secondaryCovariance = DEFAULT_POSITION_COVARIANCE,
+    hardBodyRadius = 2 * DEFAULT_HARD_BODY_RADIUS
+  } = input;
+
+  const relativePosition = subtract(secondaryState.position, primaryState.position);
+  const relativeVelocity = subtract(secondaryState.velocity, primaryState.velocity);
+  if (norm(relativeVelocity) < 1e-9) return 0;
+
+  const combinedCovariance = addMatrices(
+    rtnToEciCovariance(primaryCovariance, primaryState),
+    rtnToEciCovariance(secondaryCovariance, secondaryState)
+  );
+  const { miss, covariance } = projectToEncounterPlane(relativePosition, relativeVelocity, combinedCovariance);
+  const radiusKm = hardBodyRadius / 1000;
+
+  return method === 'chan'
+    ? chanPc(miss, covariance, radiusKm)
+    : fosterPc(miss, covariance, radiusKm);
+}
+
+/**
+ * Pc for an event reported only by miss distance and relative speed, assuming a
+ * crossing geometry (radial miss, cross-track relative velocity) and default covariances
+ */
+export function estimateCollisionProbability(missDistance: number, relativeVelocity: number, method: PcMethod = 'foster'): number {
+  const primaryState: StateVector = {
+    position: { x: 7000, y: 0, z: 0 },
+    velocity: { x: 0, y: 7.5, z: 0 }
+  };
+  const secondaryState: StateVector = {
+    position: { x: 7000 + missDistance, y: 0, z: 0 },
+    velocity: { x: 0, y: 7.5, z: relativeVelocity }
+  };
+  return computeCollisionProbability({ primaryState, secondaryState }, method);
+}
+
+/**
+ * Calculate threat level from collision probability (Pc).
+ * Pc ≥ 1e-4 is the usual maneuver threshold and Pc ≥ 1e-5 the watch threshold;
+ * very close approaches are kept at least at medium regardless of Pc.
+ */
+export function calculateThreatLevel(missDistance: number, probability: number): 'low' | 'medium' | 'high' {
+  if (probability >= 1e-4) return 'high';
+  if (probability >= 1e-5 || missDistance < 0.2) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OrbitalElements } from '../types/Satellite';
+import { passesApogeePerigeeFilter, passesOrbitPathFilter, screenConjunctions, ScreeningObject } from './conjunctionScreening';
+import { elementsToStateVector, MU_EARTH } from './orbitalMechanics';
+
+const TCA = 1000; // s
+
+function circular(semiMajorAxis: number, inclinationDeg: number, raanDeg: number = 0): OrbitalElements {
+  const meanMotion = Math.sqrt(MU_EARTH / semiMajorAxis ** 3);
+  return {
+    semiMajorAxis,
+    eccentricity: 0,
+    inclination: inclinationDeg * Math.PI / 180,
+    rightAscensionOfAscendingNode: raanDeg * Math.PI / 180,
+    argumentOfPeriapsis: 0,
+    meanAnomaly: -meanMotion * TCA, // at the ascending node at TCA
+    meanMotion,
+    orbitalPeriod: 2 * Math.PI / meanMotion
+  };
+}
+
+const twoBody = (id: string, elements: OrbitalElements): ScreeningObject => ({
+  id,
+  name: id,
+  stateAt: t => elementsToStateVector(elements, elements.meanAnomaly + elements.meanMotion * t)
+});
+
+describe('screening filters', () => {
+  it('drops pairs whose altitude shells do not overlap', () => {
+    expect(passesApogeePerigeeFilter(circular(7000, 0), circular(7020, 0), 25)).toBe(true);
+    expect(passesApogeePerigeeFilter(circular(7000, 0), circular(8000, 0), 25)).toBe(false);
+  });
+
+  it('keeps orbits that cross along the line of nodes', () => {
+    expect(passesOrbitPathFilter(circular(7000, 0), circular(7010, 90), 25)).toBe(true);
+    expect(passesOrbitPathFilter(circular(7000, 0), circular(7000, 0.01), 25)).toBe(true); // nearly coplanar
+  });
+});
+
+describe('screenConjunctions', () => {
+  it('finds a crossing at the node with its TCA, miss distance and relative speed', () => {
+    const equatorial = twoBody('equatorial', circular(7000, 0));
+    const polar = twoBody('polar', circular(7000.5, 90));
+
+    const approaches = screenConjunctions([equatorial, polar], { horizon: 3000, screeningDistance: 5 });
+
+    expect(approaches).toHaveLength(1);
+    const [approach] = approaches;
+    expect(approach.primaryId).toBe('equatorial');
+    expect(approach.secondaryId).toBe('polar');
+    expect(approach.tca).toBeCloseTo(TCA, 0);
+    expect(approach.missDistance).toBeCloseTo(0.5, 2);
+    expect(approach.relativeVelocity).toBeCloseTo(Math.sqrt(2) * Math.sqrt(MU_EARTH / 7000), 2);
+  });
+
+  it('builds no ephemeris for objects every pair filters out', () => {
+    const equatorial = twoBody('equatorial', circular(7000, 0));
+    const polar = twoBody('polar', circular(7000.5, 90));
+    const geo = twoBody('geo', circular(42164, 0));
+    const geoStateAt = vi.spyOn(geo, 'stateAt');
+    const polarStateAt = vi.spyOn(polar, 'stateAt');
+
+    expect(screenConjunctions([equatorial, geo, polar], { horizon: 3000, screeningDistance: 5 })).toHaveLength(1);
+    expect(geoStateAt).toHaveBeenCalledOnce(); // the filters' initial state only
+    expect(polarStateAt.mock.calls.length).toBeGreaterThan(3000 / 60);
+  });
+
+  it('reports nothing beyond the screening distance', () => {
+    const equatorial = twoBody('equatorial', circular(7000, 0));
+    const polar = twoBody('polar', circular(7020, 90));
+
+    expect(screenConjunctions([equatorial, polar], { horizon: 3000, screeningDistance: 5 })).toEqual([]);
+  });
+});
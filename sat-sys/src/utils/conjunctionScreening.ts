@@ -0,0 +1,274 @@
+/**
+ * Conjunction screening pipeline
+ * Apogee/perigee filter -> orbit path filter -> coarse ephemeris pass -> TCA refinement
+ */
+
+import { OrbitalElements, StateVector, Vector3 } from '../types/Satellite';
+import {
+  cross,
+  dot,
+  norm,
+  normalize,
+  perifocalBasis,
+  scale,
+  secularJ2Rates,
+  stateVectorToElements,
+  subtract
+} from './orbitalMechanics';
+
+/**
+ * State of an object at a given simulation time (seconds)
+ */
+export type StateFunction = (t: number) => StateVector;
+
+export interface ScreeningObject {
+  id: string;
+  name: string;
+  stateAt: StateFunction;
+}
+
+export interface ScreeningOptions {
+  startTime: number; // simulation seconds
+  horizon: number; // seconds to screen ahead
+  coarseStep: number; // seconds between ephemeris samples
+  screeningDistance: number; // km, report approaches closer than this
+  filterPad: number; // km, margin added to the geometric filters
+  tcaTolerance: number; // seconds, TCA refinement precision
+}
+
+export const DEFAULT_SCREENING_OPTIONS: ScreeningOptions = {
+  startTime: 0,
+  horizon: 7 * 86400,
+  coarseStep: 60,
+  screeningDistance: 10,
+  filterPad: 25,
+  tcaTolerance: 1e-3
+};
+
+export interface CloseApproach {
+  primaryId: string;
+  secondaryId: string;
+  tca: number; // simulation seconds
+  missDistance: number; // km
+  relativeVelocity: number; // km/s
+  relativePosition: Vector3; // km, secondary minus primary (ECI)
+  relativeVelocityVector: Vector3; // km/s, secondary minus primary (ECI)
+}
+
+interface EphemerisSample {
+  t: number;
+  state: StateVector;
+}
+
+/**
+ * Apogee/perigee filter: two orbits whose radial shells are further apart
+ * than the threshold can never come close
+ */
+export function passesApogeePerigeeFilter(a: OrbitalElements, b: OrbitalElements, threshold: number): boolean {
+  const perigeeA = a.semiMajorAxis * (1 - a.eccentricity);
+  const apogeeA = a.semiMajorAxis * (1 + a.eccentricity);
+  const perigeeB = b.semiMajorAxis * (1 - b.eccentricity);
+  const apogeeB = b.semiMajorAxis * (1 + b.eccentricity);
+
+  return Math.max(perigeeA, perigeeB) - Math.min(apogeeA, apogeeB) <= threshold;
+}
+
+/**
+ * Orbit path filter: compare both orbits' radii along the mutual line of nodes,
+ * where non-coplanar orbits can intersect
+ */
+export function passesOrbitPathFilter(a: OrbitalElements, b: OrbitalElements, threshold: number): boolean {
+  const nodeLine = cross(perifocalBasis(a).W, perifocalBasis(b).W);
+
+  // Nearly coplanar orbits can approach anywhere along the orbit
+  if (norm(nodeLine) < 1e-3) return true;
+
+  const radiusAlong = (elements: OrbitalElements, direction: Vector3) => {
+    const { P, Q } = perifocalBasis(elements);
+    const trueAnomaly = Math.atan2(dot(direction, Q), dot(direction, P));
+    const semiLatusRectum = elements.semiMajorAxis * (1 - elements.eccentricity ** 2);
+    return semiLatusRectum / (1 + elements.eccentricity * Math.cos(trueAnomaly));
+  };
+
+  const node = normalize(nodeLine);
+  const oppositeNode = scale(node, -1);
+
+  return [node, oppositeNode].some(direction =>
+    Math.abs(radiusAlong(a, direction) - radiusAlong(b, direction)) <= threshold
+  );
+}
+
+/**
+ * Relative range and range-rate between two states
+ */
+function relativeMotion(primary: StateVector, secondary: StateVector) {
+  const relativePosition = subtract(secondary.position, primary.position);
+  const relativeVelocityVector = subtract(secondary.velocity, primary.velocity);
+  const range = norm(relativePosition);
+  const rangeRate = range > 0 ? dot(relativePosition, relativeVelocityVector) / range : 0;
+  return { relativePosition, relativeVelocityVector, range, rangeRate };
+}
+
+/**
+ * Sample an object's states on a fixed grid
+ */
+export function buildEphemeris(stateAt: StateFunction, startTime: number, endTime: number, step: number): EphemerisSample[] {
+  const samples: EphemerisSample[] = [];
+  for (let t = startTime; t <= endTime; t += step) {
+    samples.push({ t, state: stateAt(t) });
+  }
+  return samples;
+}
+
+/**
+ * Refine the time of closest approach inside a bracket where range-rate
+ * changes sign from negative to positive (bisection on range-rate)
+ */
+function refineTCA(primary: StateFunction, secondary: StateFunction, t0: number, t1: number, tolerance: number): number {
+  let lower = t0;
+  let upper = t1;
+
+  while (upper - lower > tolerance) {
+    const middle = (lower + upper) / 2;
+    const { rangeRate } = relativeMotion(primary(middle), secondary(middle));
+    if (rangeRate < 0) {
+      lower = middle;
+    } else {
+      upper = middle;
+    }
+  }
+
+  return (lower + upper) / 2;
+}
+
+/**
+ * Steps 1 and 2: whether the pair's orbits, taken at the start of screening, can come within the screening distance
+ */
+function passesGeometricFilters(elementsPrimary: OrbitalElements, elementsSecondary: OrbitalElements, config: ScreeningOptions): boolean {
+  const { horizon, screeningDistance, filterPad } = config;
+
+  // 1. Apogee/perigee filter
+  if (!passesApogeePerigeeFilter(elementsPrimary, elementsSecondary, screeningDistance + filterPad)) {
+    return false;
+  }
+
+  // 2. Orbit path filter - only valid while the relative node line stays put,
+  //    so it is skipped when J2 differential precession over the horizon is significant
+  const nodeDrift = Math.abs(
+    secularJ2Rates(elementsPrimary).raanRate - secularJ2Rates(elementsSecondary).raanRate
+  ) * horizon;
+  return nodeDrift >= (0.5 * Math.PI) / 180 ||
+    passesOrbitPathFilter(elementsPrimary, elementsSecondary, screeningDistance + filterPad);
+}
+
+/**
+ * Screen one pair of objects, returning every close approach inside the screening distance
+ */
+export function screenPair(
+  primary: ScreeningObject,
+  secondary: ScreeningObject,
+  options: Partial<ScreeningOptions> = {},
+  ephemerides?: { primary: EphemerisSample[]; secondary: EphemerisSample[] }
+): CloseApproach[] {
+  const config = { ...DEFAULT_SCREENING_OPTIONS, ...options };
+  const elementsPrimary = stateVectorToElements(primary.stateAt(config.startTime));
+  const elementsSecondary = stateVectorToElements(secondary.stateAt(config.startTime));
+  if (!passesGeometricFilters(elementsPrimary, elementsSecondary, config)) {
+    return [];
+  }
+
+  const endTime = config.startTime + config.horizon;
+  return ephemerisPass(primary, secondary, config, ephemerides ?? {
+    primary: buildEphemeris(primary.stateAt, config.startTime, endTime, config.coarseStep),
+    secondary: buildEphemeris(secondary.stateAt, config.startTime, endTime, config.coarseStep)
+  });
+}
+
+/**
+ * Steps 3 and 4 for a pair that passed the filters
+ */
+function ephemerisPass(
+  primary: ScreeningObject,
+  secondary: ScreeningObject,
+  config: ScreeningOptions,
+  ephemerides: { primary: EphemerisSample[]; secondary: EphemerisSample[] }
+): CloseApproach[] {
+  const { coarseStep, screeningDistance, tcaTolerance } = config;
+
+  // 3. Coarse pass over the ephemeris, bracketing minima of range
+  const primarySamples = ephemerides.primary;
+  const secondarySamples = ephemerides.secondary;
+  const sampleCount = Math.min(primarySamples.length, secondarySamples.length);
+
+  const approaches: CloseApproach[] = [];
+  let previous = relativeMotion(primarySamples[0].state, secondarySamples[0].state);
+
+  for (let i = 1; i < sampleCount; i++) {
+    const current = relativeMotion(primarySamples[i].state, secondarySamples[i].state);
+
+    if (previous.rangeRate < 0 && current.rangeRate >= 0) {
+      // Skip brackets that cannot contain an approach inside the screening distance
+      const closingSpeed = Math.max(norm(previous.relativeVelocityVector), norm(current.relativeVelocityVector));
+      const bound = Math.min(previous.range, current.range) - closingSpeed * coarseStep;
+
+      if (bound <= screeningDistance) {
+        // 4. Refine TCA to sub-second precision
+        const tca = refineTCA(
+          primary.stateAt,
+          secondary.stateAt,
+          primarySamples[i - 1].t,
+          primarySamples[i].t,
+          tcaTolerance
+        );
+        const atTCA = relativeMotion(primary.stateAt(tca), secondary.stateAt(tca));
+
+        if (atTCA.range <= screeningDistance) {
+          approaches.push({
+            primaryId: primary.id,
+            secondaryId: secondary.id,
+            tca,
+            missDistance: atTCA.range,
+            relativeVelocity: norm(atTCA.relativeVelocityVector),
+            relativePosition: atTCA.relativePosition,
+            relativeVelocityVector: atTCA.relativeVelocityVector
+          });
+        }
+      }
+    }
+
+    previous = current;
+  }
+
+  return approaches;
+}
+
+/**
+ * Screen every pair in a set of objects. Pairs are filtered first; ephemerides are then built once
+ * for each object left in a pair, and not at all for objects every pair filtered out.
+ */
+export function screenConjunctions(objects: ScreeningObject[], options: Partial<ScreeningOptions> = {}): CloseApproach[] {
+  const config = { ...DEFAULT_SCREENING_OPTIONS, ...options };
+  const endTime = config.startTime + config.horizon;
+  const elements = objects.map(object => stateVectorToElements(object.stateAt(config.startTime)));
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < objects.length; i++) {
+    for (let j = i + 1; j < objects.length; j++) {
+      if (passesGeometricFilters(elements[i], elements[j], config)) pairs.push([i, j]);
+    }
+  }
+
+  const ephemerides = new Map<number, EphemerisSample[]>();
+  const ephemerisFor = (index: number) => {
+    if (!ephemerides.has(index)) {
+      ephemerides.set(index, buildEphemeris(objects[index].stateAt, config.startTime, endTime, config.coarseStep));
+    }
+    return ephemerides.get(index)!;
+  };
+
+  const approaches = pairs.flatMap(([i, j]) =>
+    ephemerisPass(objects[i], objects[j], config, { primary: ephemerisFor(i), secondary: ephemerisFor(j) })
+  );
+
+  return approaches.sort((a, b) => a.tca - b.tca);
+}
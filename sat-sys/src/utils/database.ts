@@ -0,0 +1,55 @@
+/**
+ * The app's IndexedDB database. Object stores are created by versioned upgrade steps,
+ * so opening an older database adds only the stores it is missing.
+ */
+
+const DB_NAME = 'sat-sys';
+const DB_VERSION = 2;
+
+export const SESSION_STORE = 'session';
+export const ELEMENT_SET_STORE = 'element-sets';
+
+// UPGRADES[n] moves the database from version n to n + 1
+const UPGRADES: Array<(db: IDBDatabase) => void> = [
+  db => db.createObjectStore(SESSION_STORE),
+  db => db.createObjectStore(ELEMENT_SET_STORE)
+];
+
+let database: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          UPGRADES[version](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => { database = null; });
+  }
+  return database;
+}
+
+/**
+ * Run a single request against an object store
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
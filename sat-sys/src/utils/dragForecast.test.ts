@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Satellite } from '../types/Satellite';
+import { exosphericTemperature, exponentialAtmosphereDensity, kpToAp, thermosphereDensity } from './atmosphere';
+import { forecastDrag, forecastFleetDrag, meanAltitude, MODERATE_SOLAR_FLUX, QUIET_KP } from './dragForecast';
+import { meanMotionAltitude } from './tle';
+
+const LINE1 = '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927';
+const LINE2 = '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537';
+
+const satellite = (id: string, altitude: number): Satellite => ({
+  id, name: id, orbitType: 'LEO', altitude, inclination: 51.6, velocity: 7.6, ballisticCoefficient: 50
+});
+
+const quiet = { ...MODERATE_SOLAR_FLUX, ap: 0 };
+const NOW = Date.UTC(2025, 0, 1);
+
+describe('thermosphere', () => {
+  it('converts Kp to ap along the Kp thirds', () => {
+    expect(kpToAp(0)).toBe(0);
+    expect(kpToAp(1)).toBe(4);
+    expect(kpToAp(5)).toBe(48);
+    expect(kpToAp(9)).toBe(400);
+    expect(kpToAp(0.5)).toBeCloseTo(2.5, 12);
+  });
+
+  it('heats the exosphere with solar flux and geomagnetic activity', () => {
+    expect(exosphericTemperature(quiet)).toBeCloseTo((379 + 3.24 * 150) * 1.1, 9);
+    expect(exosphericTemperature({ ...quiet, ap: 100 })).toBeGreaterThan(exosphericTemperature(quiet) + 150);
+    expect(exosphericTemperature({ ...quiet, f107: 200, f107Average: 200 })).toBeGreaterThan(exosphericTemperature(quiet));
+  });
+
+  it('joins the exponential model at the 120 km boundary and falls off with altitude', () => {
+    expect(thermosphereDensity(120.001, quiet) / exponentialAtmosphereDensity(120)).toBeCloseTo(1, 1);
+    const at400 = thermosphereDensity(400, quiet);
+    expect(at400).toBeGreaterThan(1e-12);
+    expect(at400).toBeLessThan(1e-11);
+    expect(thermosphereDensity(600, quiet)).toBeLessThan(at400 / 5);
+  });
+
+  it('raises density during storms, more at higher altitude', () => {
+    const storm = { ...quiet, ap: kpToAp(7) };
+    const ratio400 = thermosphereDensity(400, storm) / thermosphereDensity(400, quiet);
+    const ratio800 = thermosphereDensity(800, storm) / thermosphereDensity(800, quiet);
+    expect(ratio400).toBeGreaterThan(1.5);
+    expect(ratio800).toBeGreaterThan(ratio400);
+  });
+});
+
+describe('meanAltitude', () => {
+  it('uses the TLE mean motion rather than the simulated geodetic height', () => {
+    const iss = { ...satellite('25544', 999), tle: { line1: LINE1, line2: LINE2 } };
+    expect(meanAltitude(iss)).toBeCloseTo(meanMotionAltitude(15.72125391), 9);
+    expect(meanAltitude(satellite('manual', 550))).toBe(550);
+  });
+});
+
+describe('forecastDrag', () => {
+  it('finds no extra decay under quiet conditions', () => {
+    const forecast = forecastDrag(satellite('a', 400), MODERATE_SOLAR_FLUX, QUIET_KP, [], NOW);
+    expect(forecast.densityRatio).toBeCloseTo(1, 12);
+    expect(forecast.current.extraAltitudeLoss).toBe(0);
+    expect(forecast.current.alongTrackError).toBe(0);
+    expect(forecast.current.altitudeLoss).toBeGreaterThan(0);
+    expect(forecast.forecast).toBeNull();
+  });
+
+  it('accumulates extra decay and along-track error during a storm', () => {
+    const { current, densityRatio } = forecastDrag(satellite('a', 400), MODERATE_SOLAR_FLUX, 7, [], NOW);
+    expect(densityRatio).toBeGreaterThan(1.5);
+    expect(current.peakKp).toBe(7);
+    expect(current.extraAltitudeLoss).toBeGreaterThan(0);
+    expect(current.alongTrackError24h).toBeGreaterThan(0);
+    expect(current.alongTrackError).toBeGreaterThan(current.alongTrackError24h * 3); // the error grows quadratically
+  });
+
+  it('follows the Kp forecast from the given instant', () => {
+    const kpForecast = [{ time: new Date(NOW + 24 * 3600 * 1000).toISOString(), kp: 8 }];
+
+    const ahead = forecastDrag(satellite('a', 400), MODERATE_SOLAR_FLUX, 2, kpForecast, NOW);
+    expect(ahead.forecast!.peakKp).toBe(8);
+    expect(ahead.forecast!.extraAltitudeLoss).toBeGreaterThan(ahead.current.extraAltitudeLoss);
+
+    // Three days earlier the storm lies beyond the horizon
+    const earlier = forecastDrag(satellite('a', 400), MODERATE_SOLAR_FLUX, 2, kpForecast, NOW - 72 * 3600 * 1000);
+    expect(earlier.forecast!.peakKp).toBe(2);
+  });
+});
+
+describe('forecastFleetDrag', () => {
+  it('covers LEO satellites only, most affected first', () => {
+    const fleet = [satellite('high', 800), satellite('geo', 35786), satellite('low', 350)];
+    const forecasts = forecastFleetDrag(fleet, MODERATE_SOLAR_FLUX, 6, [], NOW);
+    expect(forecasts.map(forecast => forecast.satelliteId)).toEqual(['low', 'high']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Storm-driven drag on LEO satellites: extra altitude loss and the along-track error a quiet-time orbit
+ * prediction accumulates, under the current Kp persisting and under the NOAA 3-day Kp forecast
+ */
+
+import { Satellite } from '../types/Satellite';
+import { kpToAp, thermosphereDensity } from './atmosphere';
+import { KpForecastSample } from './geomagnetic';
+import { ballisticCoefficientOf, DEFAULT_BALLISTIC_COEFFICIENT, dragDecayRate, EARTH_RADIUS, MU_EARTH } from './orbitalMechanics';
+import { meanMotionAltitude, tleToMeanElements } from './tle';
+
+export interface SolarFlux {
+  time: string; // ISO UTC of the latest measurement
+  f107: number; // sfu
+  f107Average: number; // sfu, 90-day mean
+}
+
+export interface DragScenario {
+  peakKp: number; // highest Kp over the horizon
+  altitudeLoss: number; // m of decay over the horizon
+  extraAltitudeLoss: number; // m beyond the quiet-time decay
+  alongTrackError24h: number; // km between the actual and the quiet-time predicted position after a day
+  alongTrackError: number; // km at the horizon
+}
+
+export interface DragForecast {
+  satelliteId: string;
+  altitude: number; // km
+  densityRatio: number; // density at the current Kp over the quiet-time density
+  current: DragScenario; // current Kp persists over the horizon
+  forecast: DragScenario | null; // follows the Kp forecast; null without one
+}
+
+export const DRAG_FORECAST_HORIZON = 72 * 3600; // s, the span of the NOAA 3-day Kp forecast
+export const QUIET_KP = 1; // thermosphere assumed by a prediction that ignores the storm
+export const MODERATE_SOLAR_FLUX: Pick<SolarFlux, 'f107' | 'f107Average'> = { f107: 150, f107Average: 150 }; // when NOAA flux is unavailable
+
+const LEO_CEILING = 2000; // km
+const STEP = 1800; // s integration step
+const DAY = 86400; // s
+
+type Flux = Pick<SolarFlux, 'f107' | 'f107Average'>;
+
+const densityModel = (flux: Flux, kp: number) =>
+  (altitudeKm: number) => thermosphereDensity(altitudeKm, { ...flux, ap: kpToAp(kp) });
+
+/**
+ * Decay of a near-circular orbit under a Kp time line, alongside the same orbit under quiet conditions.
+ * The storm orbit drops lower and runs ahead; the along-track error is 3/2 n ∫ Δa dt.
+ */
+function simulate(altitude: number, ballisticCoefficient: number, flux: Flux, kpAt: (t: number) => number): DragScenario {
+  const quietDensity = densityModel(flux, QUIET_KP);
+  const initial = EARTH_RADIUS + altitude;
+  const meanMotion = Math.sqrt(MU_EARTH / initial ** 3);
+  let storm = initial;
+  let quiet = initial;
+  let lag = 0; // ∫ Δa dt, km·s
+  let peakKp = 0;
+  let alongTrackError24h = 0;
+
+  for (let t = 0; t < DRAG_FORECAST_HORIZON; t += STEP) {
+    const kp = kpAt(t);
+    peakKp = Math.max(peakKp, kp);
+    storm += dragDecayRate(storm, ballisticCoefficient, densityModel(flux, kp)) * STEP;
+    quiet += dragDecayRate(quiet, ballisticCoefficient, quietDensity) * STEP;
+    lag += (quiet - storm) * STEP;
+    if (t < DAY) alongTrackError24h = 1.5 * meanMotion * lag;
+  }
+
+  return {
+    peakKp,
+    altitudeLoss: (initial - storm) * 1000,
+    extraAltitudeLoss: (quiet - storm) * 1000,
+    alongTrackError24h,
+    alongTrackError: 1.5 * meanMotion * lag
+  };
+}
+
+/**
+ * Kp at t seconds from now along the forecast; the current Kp until the first forecast interval,
+ * the last forecast value after the end
+ */
+function forecastKpAt(kpForecast: KpForecastSample[], currentKp: number, now: number) {
+  return (t: number) => {
+    const at = now + t * 1000;
+    let kp = currentKp;
+    for (const sample of kpForecast) {
+      if (new Date(sample.time).getTime() > at) break;
+      kp = sample.kp;
+    }
+    return kp;
+  };
+}
+
+/**
+ * Altitude of the mean semi-major axis. A TLE satellite's `altitude` follows its instantaneous geodetic
+ * height during the simulation, so it is taken from the element set's mean motion instead.
+ */
+export function meanAltitude(satellite: Satellite): number {
+  if (satellite.tle) return meanMotionAltitude(tleToMeanElements(satellite.tle.line1, satellite.tle.line2).meanMotion);
+  return satellite.altitude;
+}
+
+/**
+ * Drag forecast for one satellite, treating its orbit as circular at its mean altitude.
+ * `now` is the instant the forecast starts from, against which the Kp forecast is read.
+ */
+export function forecastDrag(
+  satellite: Satellite,
+  flux: Flux,
+  currentKp: number,
+  kpForecast: KpForecastSample[],
+  now: number = Date.now()
+): DragForecast {
+  const ballisticCoefficient = ballisticCoefficientOf(satellite) ?? DEFAULT_BALLISTIC_COEFFICIENT;
+  const altitude = meanAltitude(satellite);
+
+  return {
+    satelliteId: satellite.id,
+    altitude,
+    densityRatio: densityModel(flux, currentKp)(altitude) / densityModel(flux, QUIET_KP)(altitude),
+    current: simulate(altitude, ballisticCoefficient, flux, () => currentKp),
+    forecast: kpForecast.length > 0
+      ? simulate(altitude, ballisticCoefficient, flux, forecastKpAt(kpForecast, currentKp, now))
+      : null
+  };
+}
+
+/**
+ * Drag forecasts for the LEO part of a fleet, largest forecast extra altitude loss first
+ */
+export function forecastFleetDrag(
+  satellites: Satellite[],
+  flux: Flux,
+  currentKp: number,
+  kpForecast: KpForecastSample[],
+  now: number = Date.now()
+): DragForecast[] {
+  const worst = (forecast: DragForecast) => (forecast.forecast ?? forecast.current).extraAltitudeLoss;
+  return satellites
+    .filter(sat => meanAltitude(sat) < LEO_CEILING)
+    .map(sat => forecastDrag(sat, flux, currentKp, kpForecast, now))
+    .sort((a, b) => worst(b) - worst(a));
+}
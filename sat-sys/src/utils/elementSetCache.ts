@@ -0,0 +1,21 @@
+/**
+ * IndexedDB cache of CelesTrak group element sets, one entry per group with its fetch time
+ */
+
+import { ElementSet } from '../types/Satellite';
+import { ELEMENT_SET_STORE, withStore } from './database';
+
+export interface CachedGroup {
+  group: string;
+  fetchedAt: string; // ISO UTC
+  elementSets: ElementSet[];
+}
+
+export async function loadCachedGroup(group: string): Promise<CachedGroup | null> {
+  const cached = await withStore<CachedGroup | undefined>(ELEMENT_SET_STORE, 'readonly', store => store.get(group));
+  return cached ?? null;
+}
+
+export async function saveCachedGroup(entry: CachedGroup): Promise<void> {
+  await withStore(ELEMENT_SET_STORE, 'readwrite', store => store.put(entry, entry.group));
+}
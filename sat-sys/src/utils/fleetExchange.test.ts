@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { exportFleet, FLEET_CSV_COLUMNS, importFleet, parseCsvFleet, parseJsonFleet, parseTleFleet } from './fleetExchange';
+import { satelliteFromTle } from './tle';
+
+// ISS element set with valid checksums
+const LINE1 = '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927';
+const LINE2 = '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537';
+
+const CSV_HEADER = 'name,altitude,inclination,noradId';
+
+describe('per-row validation', () => {
+  it('reports each bad CSV row by line number and keeps the valid ones', () => {
+    const { satellites, issues } = parseCsvFleet([
+      CSV_HEADER,
+      'SAT-A,550,53,',
+      'SAT-B,high,53,',
+      'SAT-C,550',
+      '# comment lines are skipped',
+      'SAT-D,50,97,',
+      'SAT-E,800,98.6,'
+    ].join('\n'));
+
+    expect(satellites.map(sat => sat.name)).toEqual(['SAT-A', 'SAT-E']);
+    expect(issues).toEqual([
+      { row: 3, label: 'SAT-B', message: 'altitude is not a number: "high"' },
+      { row: 4, label: 'SAT-C', message: 'Expected 4 fields, found 2' },
+      { row: 6, label: 'SAT-D', message: 'altitude 50 outside 100 to 500000' }
+    ]);
+  });
+
+  it('reports a missing required column once for the header', () => {
+    const { satellites, issues } = parseCsvFleet('name,altitude\nSAT-A,550');
+    expect(satellites).toEqual([]);
+    expect(issues).toEqual([{ row: 1, label: 'header', message: 'Missing required columns: inclination' }]);
+  });
+
+  it('reports a corrupted element set and resynchronizes on the next one', () => {
+    const corrupted = LINE2.slice(0, 68) + (Number(LINE2[68]) + 1) % 10;
+    const { satellites, issues } = parseTleFleet(['BROKEN', LINE1, corrupted, 'ISS (ZARYA)', LINE1, LINE2].join('\n'));
+
+    expect(satellites.map(sat => sat.name)).toEqual(['ISS (ZARYA)']);
+    expect(issues).toEqual([{ row: 1, label: 'BROKEN', message: expect.stringContaining('checksum') }]);
+  });
+
+  it('reports JSON entries by position', () => {
+    const { satellites, issues } = parseJsonFleet(JSON.stringify([
+      { name: 'SAT-A', altitude: 550, inclination: 53 },
+      'not a satellite',
+      { name: 'SAT-C', altitude: 550, inclination: 53, perturbationModel: 'n-body' }
+    ]));
+
+    expect(satellites.map(sat => sat.id)).toEqual(['json-1']);
+    expect(issues.map(issue => issue.row)).toEqual([2, 3]);
+    expect(issues[1].message).toMatch(/perturbationModel must be one of/);
+  });
+});
+
+describe('CSV quoting', () => {
+  it('reads quoted fields with commas and escaped quotes', () => {
+    const { satellites } = parseCsvFleet(`${CSV_HEADER}\n"Sat, ""Alpha""",550,53,\n`);
+    expect(satellites[0].name).toBe('Sat, "Alpha"');
+  });
+
+  it('quotes names on export so they read back unchanged', () => {
+    const [satellite] = parseCsvFleet(`${CSV_HEADER}\n"Sat, ""Alpha""",550,53,\n`).satellites;
+    const { content } = exportFleet([satellite], 'csv');
+
+    expect(content.split('\n')[1].startsWith('"Sat, ""Alpha""",')).toBe(true);
+    expect(parseCsvFleet(content).satellites[0]).toMatchObject({ name: 'Sat, "Alpha"', altitude: 550, inclination: 53 });
+  });
+});
+
+describe('element set precedence', () => {
+  it('takes a JSON entry\'s orbit from its TLE and keeps its id and spacecraft data', () => {
+    const spacecraft = { dryMass: 400000, propellantMass: 5000, isp: 300, maxThrust: 2000 };
+    const { satellites, issues } = parseJsonFleet(JSON.stringify([{
+      id: 'station',
+      name: 'ISS (ZARYA)',
+      altitude: 20000,
+      inclination: 10,
+      tle: { line1: LINE1, line2: LINE2 },
+      hardBodyRadius: 50,
+      spacecraft
+    }]));
+    const fromTle = satelliteFromTle('ISS (ZARYA)', LINE1, LINE2);
+
+    expect(issues).toEqual([]);
+    expect(satellites[0].id).toBe('station');
+    expect(satellites[0].altitude).toBe(fromTle.altitude);
+    expect(satellites[0].inclination).toBeCloseTo(51.6416, 4);
+    expect(satellites[0].hardBodyRadius).toBe(50);
+    expect(satellites[0].spacecraft).toMatchObject(spacecraft);
+  });
+
+  it('exports the TLE lines in CSV and reads them back as the element set', () => {
+    const iss = satelliteFromTle('ISS (ZARYA)', LINE1, LINE2);
+    const { content, skipped } = exportFleet([iss], 'csv');
+    const header = content.split('\n')[0].split(',');
+
+    expect(skipped).toEqual([]);
+    expect(header).toEqual([...FLEET_CSV_COLUMNS]);
+    const [restored] = parseCsvFleet(content).satellites;
+    expect(restored.tle).toEqual({ line1: LINE1, line2: LINE2 });
+    expect(restored.noradId).toBe('25544');
+  });
+});
+
+describe('importFleet duplicates', () => {
+  it('skips satellites already in the fleet by NORAD id, whatever their local id', () => {
+    const existing = [{ ...satelliteFromTle('ISS', LINE1, LINE2), id: 'station' }];
+    const result = importFleet(['ISS (ZARYA)', LINE1, LINE2].join('\n'), 'tle', existing);
+
+    expect(result.satellites).toEqual([]);
+    expect(result.duplicates).toEqual(['ISS (ZARYA)']);
+  });
+
+  it('skips a re-imported JSON export of the fleet', () => {
+    const fleet = [
+      satelliteFromTle('ISS (ZARYA)', LINE1, LINE2),
+      ...parseCsvFleet(`${CSV_HEADER}\nSAT-A,550,53,\n`).satellites
+    ];
+    const result = importFleet(exportFleet(fleet, 'json').content, 'json', fleet);
+
+    expect(result.satellites).toEqual([]);
+    expect(result.duplicates).toEqual(['ISS (ZARYA)', 'SAT-A']);
+  });
+
+  it('skips repeats within the file and suffixes different satellites with a taken id', () => {
+    const existing = parseCsvFleet(`${CSV_HEADER}\nOLD,550,53,\n`).satellites; // id csv-2
+    const result = importFleet(`${CSV_HEADER}\nNEW,700,98,\nNEW-B,700,98,11111\nNEW-B,700,98,11111\n`, 'csv', existing);
+
+    expect(result.satellites.map(sat => [sat.id, sat.name])).toEqual([['csv-2-2', 'NEW'], ['11111', 'NEW-B']]);
+    expect(result.duplicates).toEqual(['NEW-B']);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * Fleet import and export as TLE/3LE text, CCSDS OMM, CSV of Keplerian elements, and JSON
+ * Imports are validated entry by entry; invalid rows are reported and the rest are kept
+ */
+
+import { OrbitType, PerturbationModel, Satellite, SpacecraftProperties } from '../types/Satellite';
+import { circularVelocity, classifyOrbit, satelliteFromTle } from './tle';
+import { ommFromRecord, ommRecords, satelliteFromOmm, satelliteToOmmRecord } from './omm';
+
+export type FleetFormat = 'tle' | 'omm' | 'csv' | 'json';
+
+export interface FleetImportIssue {
+  row: number; // line number for TLE and CSV, entry number for OMM and JSON
+  label: string; // satellite name when known
+  message: string;
+}
+
+export interface FleetImportResult {
+  format: FleetFormat;
+  satellites: Satellite[];
+  issues: FleetImportIssue[];
+  duplicates: string[]; // names of satellites already in the fleet (or earlier in the file), not imported again
+}
+
+// What each format's parser returns, before duplicates are resolved against the fleet
+export type ParsedFleet = Pick<FleetImportResult, 'satellites' | 'issues'>;
+
+export interface FleetExport {
+  content: string;
+  mimeType: string;
+  extension: string;
+  skipped: string[]; // names of satellites the format cannot represent
+}
+
+export const FLEET_FORMAT_VERSION = 1;
+
+export const FLEET_CSV_COLUMNS = [
+  'name', 'noradId', 'orbitType', 'altitude', 'inclination', 'eccentricity',
+  'argumentOfPeriapsis', 'rightAscensionOfAscendingNode', 'meanAnomaly', 'velocity',
+  'perturbationModel', 'ballisticCoefficient', 'hardBodyRadius',
+  'dryMass', 'propellantMass', 'isp', 'maxThrust', 'areaToMass',
+  'tleLine1', 'tleLine2'
+] as const;
+
+const ORBIT_TYPES: OrbitType[] = ['LEO', 'Polar', 'GEO', 'MEO'];
+const PERTURBATION_MODELS: PerturbationModel[] = ['two-body', 'j2', 'j2-drag'];
+
+// Simulation state is rebuilt on load and never exported
+const TRANSIENT_FIELDS = ['status', 'currentPosition', 'currentVelocity', 'lastUpdated'] as const;
+
+/**
+ * Guess the format from the file extension, falling back to the content
+ */
+export function detectFleetFormat(fileName: string, text: string): FleetFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'tle' || extension === '3le' || extension === 'txt') return 'tle';
+  if (extension === 'xml' || extension === 'kvn' || extension === 'omm') return 'omm';
+
+  const trimmed = text.trimStart();
+  // GP/OMM JSON (CelesTrak, Space-Track) uses upper-case CCSDS keywords
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return /"MEAN_MOTION"\s*:/.test(text) ? 'omm' : 'json';
+  if (trimmed.startsWith('<') || trimmed.startsWith('CCSDS_OMM_VERS')) return 'omm';
+  return /^1 [ 0-9A-Z]{5}/m.test(text) ? 'tle' : 'csv';
+}
+
+/**
+ * Parse 3LE (name line before each element set) or bare two-line element files
+ */
+export function parseTleFleet(text: string): ParsedFleet {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ text: line.trimEnd(), number: index + 1 }))
+    .filter(line => line.text.trim());
+  const satellites: Satellite[] = [];
+  const issues: FleetImportIssue[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const start = lines[index];
+    // 3LE name lines may carry a "0 " prefix; bare TLE files have none
+    const hasName = !start.text.startsWith('1 ');
+    const name = hasName ? start.text.replace(/^0 /, '').trim() : '';
+    const line1 = lines[index + (hasName ? 1 : 0)]?.text ?? '';
+    const line2 = lines[index + (hasName ? 2 : 1)]?.text ?? '';
+
+    if (!line1.startsWith('1 ') || !line2.startsWith('2 ')) {
+      issues.push({ row: start.number, label: name, message: 'Expected TLE lines 1 and 2 after this line' });
+      index++; // resynchronize on the next line
+      continue;
+    }
+
+    try {
+      satellites.push(satelliteFromTle(name, line1, line2));
+    } catch (error) {
+      issues.push({ row: start.number, label: name || line1.slice(2, 7), message: error instanceof Error ? error.message : 'Invalid TLE' });
+    }
+    index += hasName ? 3 : 2;
+  }
+
+  return { satellites, issues };
+}
+
+/**
+ * Parse OMMs in any encoding; each message becomes one entry
+ */
+export function parseOmmFleet(text: string): ParsedFleet {
+  let records: Record<string, string>[];
+  try {
+    records = ommRecords(text);
+  } catch (error) {
+    return { satellites: [], issues: [{ row: 1, label: '', message: error instanceof Error ? error.message : 'Unreadable OMM' }] };
+  }
+
+  const satellites: Satellite[] = [];
+  const issues: FleetImportIssue[] = [];
+  records.forEach((record, index) => {
+    try {
+      satellites.push(satelliteFromOmm(ommFromRecord(record)));
+    } catch (error) {
+      issues.push({ row: index + 1, label: record.OBJECT_NAME ?? '', message: error instanceof Error ? error.message : 'Invalid OMM' });
+    }
+  });
+
+  return { satellites, issues };
+}
+
+/**
+ * Split one CSV line, honoring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function csvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function readNumber(record: Record<string, unknown>, key: string, { required = false, min = -Infinity, max = Infinity } = {}): number | undefined {
+  const raw = record[key];
+  if (raw === undefined || raw === null || raw === '') {
+    if (required) throw new Error(`Missing ${key}`);
+    return undefined;
+  }
+  const value = typeof raw === 'number' ? raw : Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${key} is not a number: "${raw}"`);
+  if (value < min || value > max) throw new Error(`${key} ${value} outside ${min} to ${max}`);
+  return value;
+}
+
+function readCovariance(record: Record<string, unknown>): number[][] | undefined {
+  const covariance = record.positionCovariance;
+  if (covariance === undefined) return undefined;
+  const valid = Array.isArray(covariance) && covariance.length === 3 &&
+    covariance.every(row => Array.isArray(row) && row.length === 3 && row.every(Number.isFinite));
+  if (!valid) throw new Error('positionCovariance must be a 3x3 numeric matrix (km²)');
+  return covariance as number[][];
+}
+
+function readSpacecraft(record: Record<string, unknown>): SpacecraftProperties | undefined {
+  const dryMass = readNumber(record, 'dryMass', { min: 0 });
+  const propellantMass = readNumber(record, 'propellantMass', { min: 0 });
+  const isp = readNumber(record, 'isp', { min: 1 });
+  const maxThrust = readNumber(record, 'maxThrust', { min: 0 });
+  const areaToMass = readNumber(record, 'areaToMass', { min: 0 });
+
+  if (dryMass === undefined && propellantMass === undefined) return undefined;
+  if (dryMass === undefined || propellantMass === undefined || isp === undefined || maxThrust === undefined) {
+    throw new Error('Spacecraft properties need dryMass, propellantMass, isp and maxThrust together');
+  }
+  return { dryMass, propellantMass, isp, maxThrust, areaToMass };
+}
+
+/**
+ * Satellite from a record's TLE lines. The element set takes precedence over any Keplerian elements in the
+ * record, which may still carry the id, size, covariance and spacecraft data.
+ */
+function satelliteFromTleRecord(record: Record<string, unknown>, line1: string, line2: string, spacecraft: Record<string, unknown>): Satellite {
+  const fromTle = satelliteFromTle(typeof record.name === 'string' ? record.name.trim() : '', line1, line2);
+  return {
+    ...fromTle,
+    id: typeof record.id === 'string' && record.id ? record.id : fromTle.id,
+    hardBodyRadius: readNumber(record, 'hardBodyRadius', { min: 0 }),
+    positionCovariance: readCovariance(record),
+    spacecraft: readSpacecraft(spacecraft)
+  };
+}
+
+/**
+ * Validate a flat record of Keplerian elements (CSV row or JSON entry) into a satellite
+ */
+function satelliteFromRecord(record: Record<string, unknown>, fallbackId: string): Satellite {
+  const name = typeof record.name === 'string' ? record.name.trim() : '';
+  if (!name) throw new Error('Missing name');
+
+  const altitude = readNumber(record, 'altitude', { required: true, min: 100, max: 500000 })!;
+  const inclination = readNumber(record, 'inclination', { required: true, min: 0, max: 180 })!;
+
+  const orbitType = record.orbitType ? String(record.orbitType) : classifyOrbit(altitude, inclination);
+  if (!ORBIT_TYPES.includes(orbitType as OrbitType)) {
+    throw new Error(`orbitType must be one of ${ORBIT_TYPES.join(', ')}`);
+  }
+  const perturbationModel = record.perturbationModel ? String(record.perturbationModel) : undefined;
+  if (perturbationModel && !PERTURBATION_MODELS.includes(perturbationModel as PerturbationModel)) {
+    throw new Error(`perturbationModel must be one of ${PERTURBATION_MODELS.join(', ')}`);
+  }
+
+  const noradId = record.noradId !== undefined && record.noradId !== '' ? String(record.noradId) : undefined;
+  return {
+    id: typeof record.id === 'string' && record.id ? record.id : noradId ?? fallbackId,
+    name,
+    orbitType: orbitType as OrbitType,
+    altitude,
+    inclination,
+    velocity: readNumber(record, 'velocity', { min: 0 }) ?? circularVelocity(altitude),
+    eccentricity: readNumber(record, 'eccentricity', { min: 0, max: 0.99 }) ?? 0,
+    argumentOfPeriapsis: readNumber(record, 'argumentOfPeriapsis', { min: 0, max: 360 }) ?? 0,
+    rightAscensionOfAscendingNode: readNumber(record, 'rightAscensionOfAscendingNode', { min: 0, max: 360 }) ?? 0,
+    meanAnomaly: readNumber(record, 'meanAnomaly', { min: 0, max: 360 }) ?? 0,
+    perturbationModel: perturbationModel as PerturbationModel | undefined,
+    ballisticCoefficient: readNumber(record, 'ballisticCoefficient', { min: 0 }),
+    hardBodyRadius: readNumber(record, 'hardBodyRadius', { min: 0 }),
+    spacecraft: readSpacecraft(record),
+    noradId
+  };
+}
+
+/**
+ * Parse a CSV of Keplerian elements; the header row names the columns (see FLEET_CSV_COLUMNS).
+ * Rows with tleLine1 and tleLine2 are read from the element set.
+ */
+export function parseCsvFleet(text: string): ParsedFleet {
+  const lines = text.split(/\r?\n/).map((line, index) => ({ text: line, number: index + 1 }))
+    .filter(line => line.text.trim() && !line.text.trimStart().startsWith('#'));
+  if (lines.length === 0) return { satellites: [], issues: [{ row: 1, label: '', message: 'Empty file' }] };
+
+  const header = splitCsvLine(lines[0].text);
+  const hasTle = header.includes('tleLine1') && header.includes('tleLine2');
+  const missing = (hasTle ? ['name'] : ['name', 'altitude', 'inclination']).filter(column => !header.includes(column));
+  if (missing.length > 0) {
+    return { satellites: [], issues: [{ row: lines[0].number, label: 'header', message: `Missing required columns: ${missing.join(', ')}` }] };
+  }
+
+  const satellites: Satellite[] = [];
+  const issues: FleetImportIssue[] = [];
+  lines.slice(1).forEach(line => {
+    const fields = splitCsvLine(line.text);
+    const record = Object.fromEntries(header.map((column, i) => [column, fields[i] ?? '']));
+    try {
+      if (fields.length !== header.length) {
+        throw new Error(`Expected ${header.length} fields, found ${fields.length}`);
+      }
+      satellites.push(record.tleLine1 || record.tleLine2
+        ? satelliteFromTleRecord(record, record.tleLine1, record.tleLine2, record)
+        : satelliteFromRecord(record, `csv-${line.number}`));
+    } catch (error) {
+      issues.push({ row: line.number, label: record.name || '', message: error instanceof Error ? error.message : 'Invalid row' });
+    }
+  });
+
+  return { satellites, issues };
+}
+
+/**
+ * Parse a JSON fleet: an array of satellites, or { format, version, satellites } as written by exportFleet
+ */
+export function parseJsonFleet(text: string): ParsedFleet {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { satellites: [], issues: [{ row: 1, label: '', message: `Invalid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+
+  const entries = Array.isArray(data) ? data : (data as { satellites?: unknown })?.satellites;
+  if (!Array.isArray(entries)) {
+    return { satellites: [], issues: [{ row: 1, label: '', message: 'Expected an array of satellites or an object with a "satellites" array' }] };
+  }
+
+  const satellites: Satellite[] = [];
+  const issues: FleetImportIssue[] = [];
+  entries.forEach((entry, index) => {
+    const record = entry && typeof entry === 'object' ? entry as Record<string, unknown> : null;
+    const label = typeof record?.name === 'string' ? record.name : '';
+    try {
+      if (!record) throw new Error('Entry is not an object');
+
+      const tle = record.tle as Satellite['tle'] | undefined;
+      const spacecraft = record.spacecraft && typeof record.spacecraft === 'object' ? record.spacecraft as Record<string, unknown> : {};
+      if (tle) {
+        satellites.push(satelliteFromTleRecord(record, String(tle.line1 ?? ''), String(tle.line2 ?? ''), spacecraft));
+        return;
+      }
+
+      const flattened = record.spacecraft && typeof record.spacecraft === 'object'
+        ? { ...record, ...(record.spacecraft as Record<string, unknown>) }
+        : record;
+      satellites.push({ ...satelliteFromRecord(flattened, `json-${index + 1}`), positionCovariance: readCovariance(record) });
+    } catch (error) {
+      issues.push({ row: index + 1, label, message: error instanceof Error ? error.message : 'Invalid entry' });
+    }
+  });
+
+  return { satellites, issues };
+}
+
+/**
+ * Parse a fleet file. Satellites already in the fleet or earlier in the file, matched by NORAD id and
+ * otherwise by id and name, are skipped. Other satellites whose id is taken get a suffixed id.
+ */
+export function importFleet(text: string, format: FleetFormat, existing: Satellite[] = []): FleetImportResult {
+  const parsers: Record<FleetFormat, (text: string) => ParsedFleet> = {
+    tle: parseTleFleet,
+    omm: parseOmmFleet,
+    csv: parseCsvFleet,
+    json: parseJsonFleet
+  };
+  const parsed = parsers[format](text);
+
+  const known = [...existing];
+  const satellites: Satellite[] = [];
+  const duplicates: string[] = [];
+  parsed.satellites.forEach(sat => {
+    const isSame = (other: Satellite) => sat.noradId
+      ? other.noradId === sat.noradId
+      : !other.noradId && other.id === sat.id && other.name === sat.name;
+    if (known.some(isSame)) {
+      duplicates.push(sat.name);
+      return;
+    }
+
+    let id = sat.id;
+    for (let copy = 2; known.some(other => other.id === id); copy++) id = `${sat.id}-${copy}`;
+    const imported = id === sat.id ? sat : { ...sat, id };
+    known.push(imported);
+    satellites.push(imported);
+  });
+
+  return { format, satellites, issues: parsed.issues, duplicates };
+}
+
+/**
+ * Serialize the fleet. TLE and OMM exports include only satellites with element sets; CSV carries the
+ * TLE lines of those that have them.
+ */
+export function exportFleet(satellites: Satellite[], format: FleetFormat): FleetExport {
+  if (format === 'omm') {
+    return {
+      content: JSON.stringify(satellites.map(satelliteToOmmRecord).filter(record => record !== null), null, 2),
+      mimeType: 'application/json',
+      extension: 'omm.json',
+      skipped: satellites.filter(sat => !sat.tle).map(sat => sat.name)
+    };
+  }
+
+  if (format === 'tle') {
+    const withTle = satellites.filter(sat => sat.tle);
+    return {
+      content: withTle.map(sat => `${sat.name}\n${sat.tle!.line1}\n${sat.tle!.line2}\n`).join(''),
+      mimeType: 'text/plain',
+      extension: 'tle',
+      skipped: satellites.filter(sat => !sat.tle).map(sat => sat.name)
+    };
+  }
+
+  if (format === 'csv') {
+    const rows = satellites.map(sat => {
+      const record: Record<string, unknown> = { ...sat, ...sat.spacecraft, tleLine1: sat.tle?.line1, tleLine2: sat.tle?.line2 };
+      return FLEET_CSV_COLUMNS.map(column => csvField(record[column])).join(',');
+    });
+    return {
+      content: [FLEET_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n',
+      mimeType: 'text/csv',
+      extension: 'csv',
+      skipped: []
+    };
+  }
+
+  const fleet = satellites.map(sat => {
+    const copy: Partial<Satellite> = { ...sat };
+    TRANSIENT_FIELDS.forEach(field => delete copy[field]);
+    return copy;
+  });
+  return {
+    content: JSON.stringify({ format: 'sat-sys-fleet', version: FLEET_FORMAT_VERSION, exportedAt: new Date().toISOString(), satellites: fleet }, null, 2),
+    mimeType: 'application/json',
+    extension: 'json',
+    skipped: []
+  };
+}
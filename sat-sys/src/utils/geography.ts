@@ -0,0 +1,104 @@
+/**
+ * Sun position, day/night terminator and geographic regions for map overlays
+ * Polygons are [longitude, latitude] pairs in degrees
+ */
+
+import * as satellite from 'satellite.js';
+import { Vector3 } from '../types/Satellite';
+
+export type LonLat = [number, number];
+
+const DEG = Math.PI / 180;
+
+/**
+ * South Atlantic Anomaly boundary at typical LEO altitudes (~500 km)
+ */
+export const SOUTH_ATLANTIC_ANOMALY: LonLat[] = [
+  [-90, -25], [-80, -12], [-65, -2], [-45, 0], [-25, -4], [-5, -12], [15, -22],
+  [28, -34], [20, -45], [0, -50], [-30, -51], [-55, -46], [-75, -38], [-90, -25]
+];
+
+/**
+ * Unit vector from Earth to the Sun in ECI, low-precision almanac formula (~0.01°)
+ */
+export function sunDirection(date: Date): Vector3 {
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0; // days since J2000
+  const meanLongitude = 280.46 + 0.9856474 * n;
+  const meanAnomaly = (357.528 + 0.9856003 * n) * DEG;
+  const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+
+  return {
+    x: Math.cos(eclipticLongitude),
+    y: Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    z: Math.sin(obliquity) * Math.sin(eclipticLongitude)
+  };
+}
+
+const wrapLongitude = (longitude: number) => ((longitude + 540) % 360) - 180;
+
+/**
+ * Point on the Earth where the Sun is at the zenith
+ */
+export function subsolarPoint(date: Date): { latitude: number; longitude: number } {
+  const sun = sunDirection(date);
+  return {
+    latitude: Math.asin(sun.z) / DEG,
+    longitude: wrapLongitude((Math.atan2(sun.y, sun.x) - satellite.gstime(date)) / DEG)
+  };
+}
+
+/**
+ * Night side of the Earth as a polygon, closed over the pole in darkness
+ */
+export function nightPolygon(date: Date, step: number = 2): LonLat[] {
+  const sun = subsolarPoint(date);
+  // Avoid a degenerate terminator at the equinoxes
+  const declination = Math.abs(sun.latitude) < 0.01 ? 0.01 : sun.latitude;
+  const tanDeclination = Math.tan(declination * DEG);
+
+  const terminator: LonLat[] = [];
+  for (let longitude = -180; longitude <= 180; longitude += step) {
+    const hourAngle = (longitude - sun.longitude) * DEG;
+    terminator.push([longitude, Math.atan(-Math.cos(hourAngle) / tanDeclination) / DEG]);
+  }
+
+  const darkPole = declination > 0 ? -90 : 90;
+  return [...terminator, [180, darkPole], [-180, darkPole]];
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function pointInPolygon([longitude, latitude]: LonLat, polygon: LonLat[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > latitude) !== (yj > latitude) && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isInSouthAtlanticAnomaly(latitude: number, longitude: number): boolean {
+  return pointInPolygon([longitude, latitude], SOUTH_ATLANTIC_ANOMALY);
+}
+
+/**
+ * Split a ground track where it crosses the antimeridian so it can be drawn as separate lines
+ */
+export function splitAtAntimeridian<T extends { longitude: number }>(points: T[]): T[][] {
+  const segments: T[][] = [];
+  let current: T[] = [];
+  points.forEach((point, i) => {
+    if (i > 0 && Math.abs(point.longitude - points[i - 1].longitude) > 180) {
+      segments.push(current);
+      current = [];
+    }
+    current.push(point);
+  });
+  if (current.length > 0) segments.push(current);
+  return segments;
+}
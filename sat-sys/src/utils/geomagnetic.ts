@@ -0,0 +1,132 @@
+/**
+ * Planetary Kp index: NOAA G-scale storm classification and the rolling Kp time series
+ * Kp thirds are decimals, e.g. 5- = 4.67, 5o = 5.00, 5+ = 5.33
+ */
+
+import { SpaceWeatherAlert } from '../types/Satellite';
+
+export type KpProduct = '1m' | '3h'; // 1-minute estimated Kp, 3-hourly planetary Kp
+
+export interface KpSample {
+  time: string; // ISO UTC; start of the interval for 3-hour values
+  kp: number;
+  product: KpProduct;
+}
+
+export type GeomagneticScale = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface StormLevel {
+  scale: GeomagneticScale;
+  kp: number; // the value that sets the scale
+  time: string;
+  product: KpProduct;
+}
+
+export interface KpForecastSample {
+  time: string; // ISO UTC, start of the predicted 3-hour interval
+  kp: number;
+}
+
+export const KP_HISTORY_WINDOW = 72 * 3600 * 1000; // ms of samples kept
+export const STORM_HOLD = 30 * 60 * 1000; // ms a lower 1-minute Kp must persist before the scale drops
+const MAX_3H_AGE = 6 * 3600 * 1000; // ms, oldest 3-hour interval used when the 1-minute feed is down
+
+export const G_SCALE_LABELS: Record<GeomagneticScale, string> = {
+  0: 'Quiet',
+  1: 'G1 Minor',
+  2: 'G2 Moderate',
+  3: 'G3 Strong',
+  4: 'G4 Severe',
+  5: 'G5 Extreme'
+};
+
+/**
+ * NOAA space weather G-scale for a Kp value. Kp 5- already counts as 5 (G1); 9- is still G4.
+ */
+export function kpToGScale(kp: number): GeomagneticScale {
+  if (kp >= 9) return 5;
+  return Math.min(4, Math.max(0, Math.round(kp) - 4)) as GeomagneticScale;
+}
+
+/**
+ * Add new samples to the history, replacing same-time samples of a product and dropping those older than the window
+ */
+export function mergeKpHistory(history: KpSample[], samples: KpSample[], now: number = Date.now()): KpSample[] {
+  const byKey = new Map<string, KpSample>();
+  [...history, ...samples].forEach(sample => byKey.set(`${sample.product}-${sample.time}`, sample));
+  return Array.from(byKey.values())
+    .filter(sample => now - new Date(sample.time).getTime() <= KP_HISTORY_WINDOW)
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+}
+
+/**
+ * Current storm level. The scale follows the highest 1-minute Kp of the last STORM_HOLD, so it rises
+ * at once but only drops after holding lower; without recent 1-minute data the last 3-hour Kp is used.
+ */
+export function currentStormLevel(history: KpSample[], now: number = Date.now()): StormLevel | null {
+  const recent = history.filter(sample => sample.product === '1m' && now - new Date(sample.time).getTime() <= STORM_HOLD);
+  if (recent.length > 0) {
+    const latest = recent[recent.length - 1];
+    const peak = Math.max(...recent.map(sample => sample.kp));
+    return { scale: kpToGScale(peak), kp: peak, time: latest.time, product: '1m' };
+  }
+
+  const threeHour = history.filter(sample => sample.product === '3h');
+  const latest = threeHour[threeHour.length - 1];
+  if (!latest || now - new Date(latest.time).getTime() > MAX_3H_AGE) return null;
+  return { scale: kpToGScale(latest.kp), kp: latest.kp, time: latest.time, product: '3h' };
+}
+
+// ==================== ALERTS ====================
+
+const SCALE_SEVERITY: Record<GeomagneticScale, SpaceWeatherAlert['severity']> = {
+  0: 'low', 1: 'low', 2: 'medium', 3: 'high', 4: 'critical', 5: 'critical'
+};
+
+// Operator guidance from the NOAA G-scale spacecraft effects
+const SCALE_GUIDANCE: Record<GeomagneticScale, string> = {
+  0: '',
+  1: 'Minor impact on satellite operations; increase monitoring frequency',
+  2: 'Increased drag on LEO satellites; refresh orbit predictions and conjunction screening',
+  3: 'Surface charging and increased drag; check attitude control and orbit determination',
+  4: 'Surface charging and tracking problems; defer non-critical maneuvers and uplinks',
+  5: 'Extensive surface charging and loss of tracking; consider safe mode for sensitive payloads'
+};
+
+/**
+ * Alert for a change of storm scale: rises carry operator guidance, drops only report the new level
+ */
+export function stormTransitionAlert(level: StormLevel, previous: GeomagneticScale, satelliteIds: string[]): SpaceWeatherAlert {
+  const id = `geomag-G${level.scale}-${new Date(level.time).getTime()}`;
+  const kp = `Kp ${level.kp.toFixed(2)} (${level.product === '1m' ? '1-minute estimate' : '3-hour'})`;
+
+  if (level.scale < previous) {
+    return {
+      id,
+      type: 'geomagnetic',
+      severity: 'low',
+      message: level.scale === 0
+        ? `Geomagnetic storm ended, ${kp}, down from ${G_SCALE_LABELS[previous]}`
+        : `Geomagnetic storm eased to ${G_SCALE_LABELS[level.scale]}, ${kp}`,
+      timestamp: level.time,
+      affectedSatellites: satelliteIds
+    };
+  }
+
+  return {
+    id,
+    type: 'geomagnetic',
+    severity: SCALE_SEVERITY[level.scale],
+    message: `${G_SCALE_LABELS[level.scale]} geomagnetic storm, ${kp}${previous > 0 ? `, up from ${G_SCALE_LABELS[previous]}` : ''}`,
+    timestamp: level.time,
+    affectedSatellites: satelliteIds,
+    suggestedAction: {
+      id: `action-${id}`,
+      type: 'monitor',
+      description: SCALE_GUIDANCE[level.scale],
+      priority: SCALE_SEVERITY[level.scale],
+      estimatedTimeToExecute: 0,
+      successProbability: 1.0
+    }
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConjunctionEvent, Satellite } from '../types/Satellite';
+import { deltaVBudget, planAvoidanceManeuver, propellantForDeltaV, STANDARD_GRAVITY } from './maneuverPlanner';
+import { createSatelliteSimulator } from './SatelliteSimulator';
+
+const epoch = new Date('2025-01-01T00:00:00Z');
+
+const satellite: Satellite = {
+  id: 'sat-1',
+  name: 'Test Sat',
+  orbitType: 'LEO',
+  altitude: 500,
+  inclination: 51.6,
+  velocity: 7.6,
+  eccentricity: 0,
+  rightAscensionOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0
+};
+
+const conjunction = (missDistance: number, hoursAhead: number): ConjunctionEvent => ({
+  id: `event-${missDistance}-${hoursAhead}`,
+  satelliteId: satellite.id,
+  objectName: 'DEBRIS',
+  tca: new Date(epoch.getTime() + hoursAhead * 3600 * 1000).toISOString(),
+  missDistance,
+  relativeVelocity: 10,
+  probability: 1e-3,
+  risk: 'high'
+});
+
+describe('propellant accounting', () => {
+  it('follows the rocket equation and its inverse', () => {
+    const propulsion = { mass: 500, isp: 220, thrust: 1 };
+    const deltaV = 2;
+    expect(propellantForDeltaV(deltaV, propulsion)).toBeCloseTo(500 * (1 - Math.exp(-deltaV / (220 * STANDARD_GRAVITY))), 12);
+
+    const spacecraft = { dryMass: 480, propellantMass: 20, isp: 220, maxThrust: 1 };
+    expect(propellantForDeltaV(deltaVBudget(spacecraft), propulsion)).toBeCloseTo(20, 9);
+  });
+});
+
+describe('planAvoidanceManeuver', () => {
+  it('meets a Pc target under the configured Foster method', () => {
+    const simulator = createSatelliteSimulator({ ...satellite }, epoch);
+    const plan = planAvoidanceManeuver(conjunction(0.05, 24), simulator, { pcMethod: 'foster', directions: ['prograde', 'retrograde'] });
+
+    expect(plan).not.toBeNull();
+    expect(plan!.expectedProbability).toBeLessThanOrEqual(1e-6);
+    expect(plan!.targetMet).toBe(true);
+    expect(plan!.deltaV).toBeGreaterThan(0);
+    expect(plan!.burnTime).toBeLessThan(24 * 3600);
+    expect(Math.hypot(plan!.deltaVVector.r, plan!.deltaVVector.t, plan!.deltaVVector.n)).toBeCloseTo(plan!.deltaV, 12);
+  });
+
+  it('reaches a miss distance target', () => {
+    const simulator = createSatelliteSimulator({ ...satellite }, epoch);
+    const plan = planAvoidanceManeuver(conjunction(0.05, 12), simulator, {
+      target: { type: 'missDistance', value: 1 },
+      directions: ['prograde', 'retrograde']
+    });
+
+    expect(plan!.targetMet).toBe(true);
+    expect(plan!.expectedMissDistance).toBeGreaterThanOrEqual(1);
+  });
+
+  it('reports an unmet target when the delta-V budget is too small', () => {
+    const simulator = createSatelliteSimulator({ ...satellite }, epoch);
+    const plan = planAvoidanceManeuver(conjunction(0.01, 2), simulator, {
+      maxDeltaV: 0.01,
+      target: { type: 'missDistance', value: 50 },
+      directions: ['prograde']
+    });
+
+    expect(plan!.targetMet).toBe(false);
+    expect(plan!.deltaV).toBeLessThanOrEqual(0.01 + 1e-12);
+  });
+
+  it('propagates to each candidate burn epoch once, however many burns it tries there', () => {
+    const simulator = createSatelliteSimulator({ ...satellite }, epoch);
+    const propagateTo = vi.spyOn(simulator, 'propagateTo');
+    const tryBurn = vi.spyOn(simulator, 'propagateWithImpulse');
+    planAvoidanceManeuver(conjunction(0.05, 12), simulator, { directions: ['prograde', 'retrograde'] });
+
+    const burnTimes = new Set(tryBurn.mock.calls.map(([burnTime]) => burnTime));
+    expect(tryBurn.mock.calls.length).toBeGreaterThan(burnTimes.size * 2);
+    burnTimes.forEach(burnTime => {
+      expect(propagateTo.mock.calls.filter(([t]) => t === burnTime)).toHaveLength(1);
+    });
+  });
+
+  it('has no plan when no burn fits before TCA', () => {
+    const simulator = createSatelliteSimulator({ ...satellite }, epoch);
+    expect(planAvoidanceManeuver(conjunction(0.05, 0.1), simulator)).toBeNull();
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Collision avoidance maneuver planning
+ * Searches burn epoch, direction and magnitude for the smallest impulsive burn
+ * that reaches a target miss distance or collision probability
+ */
+
+import { BurnDirection, ConjunctionEvent, RTNVector, Satellite, SpacecraftProperties, StateVector, Vector3 } from '../types/Satellite';
+import {
+  computeCollisionProbability,
+  DEFAULT_HARD_BODY_RADIUS,
+  DEFAULT_POSITION_COVARIANCE,
+  Matrix3,
+  PcMethod,
+  rtnBasis,
+  rtnToEciVector
+} from './collisionProbability';
+import { add, dot, norm, scale, stateVectorToElements, subtract } from './orbitalMechanics';
+import { SatelliteSimulator } from './SatelliteSimulator';
+
+export const STANDARD_GRAVITY = 9.80665; // m/s²
+
+export interface SpacecraftPropulsion {
+  mass: number; // kg, wet mass before the burn
+  isp: number; // s
+  thrust: number; // N
+}
+
+// Small satellite with a hydrazine monopropellant thruster
+export const DEFAULT_PROPULSION: SpacecraftPropulsion = { mass: 500, isp: 220, thrust: 1 };
+
+export type ManeuverTarget =
+  | { type: 'missDistance'; value: number } // km, reach at least this miss distance
+  | { type: 'probability'; value: number }; // reach at most this Pc
+
+export interface ManeuverPlannerOptions {
+  target: ManeuverTarget;
+  currentTime: number; // simulation seconds
+  minimumLeadTime: number; // seconds needed before a burn can be executed
+  maxDeltaV: number; // m/s
+  directions: BurnDirection[];
+  burnOpportunities: number; // candidate burn epochs, a quarter orbit apart before TCA
+  propulsion: SpacecraftPropulsion;
+  pcMethod: PcMethod;
+}
+
+export const DEFAULT_PLANNER_OPTIONS: ManeuverPlannerOptions = {
+  target: { type: 'probability', value: 1e-6 },
+  currentTime: 0,
+  minimumLeadTime: 600,
+  maxDeltaV: 5,
+  directions: ['prograde', 'retrograde', 'radial_out', 'radial_in', 'normal', 'anti_normal'],
+  burnOpportunities: 8,
+  propulsion: DEFAULT_PROPULSION,
+  pcMethod: 'foster'
+};
+
+export interface ManeuverPlan {
+  burnTime: number; // simulation seconds
+  burnDate: string; // ISO UTC
+  direction: BurnDirection;
+  deltaV: number; // m/s
+  deltaVVector: RTNVector; // m/s
+  propellantMass: number; // kg
+  burnDuration: number; // seconds at full thrust
+  expectedMissDistance: number; // km
+  expectedProbability: number;
+  targetMet: boolean;
+}
+
+const BURN_DIRECTIONS: Record<BurnDirection, RTNVector> = {
+  prograde: { r: 0, t: 1, n: 0 },
+  retrograde: { r: 0, t: -1, n: 0 },
+  radial_out: { r: 1, t: 0, n: 0 },
+  radial_in: { r: -1, t: 0, n: 0 },
+  normal: { r: 0, t: 0, n: 1 },
+  anti_normal: { r: 0, t: 0, n: -1 }
+};
+
+const MINIMUM_DELTA_V = 0.005; // m/s, smallest burn considered
+const MAGNITUDE_STEPS = 24;
+const BISECTION_STEPS = 12;
+const CONFIRMATION_GROWTH = 1.25; // delta-V step when the configured Pc method rejects the searched burn
+
+interface EncounterGeometry {
+  tca: number; // simulation seconds
+  primaryState: StateVector;
+  secondaryState: StateVector;
+  primaryCovariance: Matrix3;
+  secondaryCovariance: Matrix3;
+  hardBodyRadius: number; // combined, meters
+}
+
+interface Outcome {
+  missDistance: number;
+  probability: number; // NaN when not evaluated
+}
+
+/**
+ * Propellant for a burn from the rocket equation: m_p = m0 (1 - e^(-Δv / (Isp g0)))
+ */
+export function propellantForDeltaV(deltaV: number, propulsion: SpacecraftPropulsion = DEFAULT_PROPULSION): number {
+  return propulsion.mass * (1 - Math.exp(-deltaV / (propulsion.isp * STANDARD_GRAVITY)));
+}
+
+/**
+ * Burn duration at full thrust for a given propellant mass
+ */
+export function burnDurationForPropellant(propellantMass: number, propulsion: SpacecraftPropulsion = DEFAULT_PROPULSION): number {
+  return (propellantMass * propulsion.isp * STANDARD_GRAVITY) / propulsion.thrust;
+}
+
+/**
+ * Propulsion of a satellite from its spacecraft properties, or the default small satellite
+ */
+export function propulsionFor(satellite?: Satellite): SpacecraftPropulsion {
+  const spacecraft = satellite?.spacecraft;
+  return spacecraft
+    ? { mass: spacecraft.dryMass + spacecraft.propellantMass, isp: spacecraft.isp, thrust: spacecraft.maxThrust }
+    : DEFAULT_PROPULSION;
+}
+
+/**
+ * Delta-V the remaining propellant can still provide: Δv = Isp g0 ln((m_dry + m_p) / m_dry), m/s
+ */
+export function deltaVBudget(spacecraft: SpacecraftProperties): number {
+  if (spacecraft.dryMass <= 0) return Infinity;
+  return spacecraft.isp * STANDARD_GRAVITY * Math.log((spacecraft.dryMass + spacecraft.propellantMass) / spacecraft.dryMass);
+}
+
+/**
+ * Geometry at TCA with the primary from our own propagation and the secondary placed by the
+ * event's relative state. Events without relative vectors get a crossing geometry
+ * (radial miss, cross-track relative velocity).
+ */
+function encounterGeometry(event: ConjunctionEvent, simulator: SatelliteSimulator): EncounterGeometry {
+  const tca = simulator.toSimulationTime(new Date(event.tca));
+  const primaryState = simulator.propagateTo(tca);
+
+  let relativePosition: Vector3;
+  let relativeVelocity: Vector3;
+  if (event.relativePosition && event.relativeVelocityVector) {
+    relativePosition = event.relativePosition;
+    relativeVelocity = event.relativeVelocityVector;
+  } else if (event.primaryState && event.secondaryState) {
+    relativePosition = subtract(event.secondaryState.position, event.primaryState.position);
+    relativeVelocity = subtract(event.secondaryState.velocity, event.primaryState.velocity);
+  } else {
+    const { R, N } = rtnBasis(primaryState);
+    relativePosition = scale(R, event.missDistance);
+    relativeVelocity = scale(N, event.relativeVelocity || 10);
+  }
+
+  return {
+    tca,
+    primaryState,
+    secondaryState: {
+      position: add(primaryState.position, relativePosition),
+      velocity: add(primaryState.velocity, relativeVelocity)
+    },
+    primaryCovariance: event.primaryCovariance ?? DEFAULT_POSITION_COVARIANCE,
+    secondaryCovariance: event.secondaryCovariance ?? DEFAULT_POSITION_COVARIANCE,
+    hardBodyRadius: event.combinedHardBodyRadius ?? 2 * DEFAULT_HARD_BODY_RADIUS
+  };
+}
+
+/**
+ * Candidate burn epochs: quarter-orbit steps back from TCA that respect the lead time
+ */
+function candidateBurnTimes(geometry: EncounterGeometry, options: ManeuverPlannerOptions): number[] {
+  const { orbitalPeriod } = stateVectorToElements(geometry.primaryState);
+  const earliest = options.currentTime + options.minimumLeadTime;
+
+  const times = Array.from({ length: options.burnOpportunities }, (_, k) => geometry.tca - ((k + 1) * orbitalPeriod) / 4)
+    .filter(t => t >= earliest);
+
+  // Too close to TCA for a full quarter orbit: burn as soon as possible
+  if (times.length === 0 && earliest < geometry.tca) {
+    times.push(earliest);
+  }
+  return times;
+}
+
+/**
+ * Delta-V vector, propellant and burn duration of a burn of the given size along a unit RTN direction
+ */
+function burnSize(unit: RTNVector, deltaV: number, propulsion: SpacecraftPropulsion) {
+  const propellantMass = propellantForDeltaV(deltaV, propulsion);
+  return {
+    deltaV,
+    deltaVVector: { r: unit.r * deltaV, t: unit.t * deltaV, n: unit.n * deltaV },
+    propellantMass,
+    burnDuration: burnDurationForPropellant(propellantMass, propulsion)
+  };
+}
+
+const meetsTarget = (outcome: Outcome, target: ManeuverTarget) =>
+  target.type === 'missDistance' ? outcome.missDistance >= target.value : outcome.probability <= target.value;
+
+// Larger is better for miss distance, smaller for probability
+const isBetter = (a: Outcome, b: Outcome, target: ManeuverTarget) =>
+  target.type === 'missDistance' ? a.missDistance > b.missDistance : a.probability < b.probability;
+
+/**
+ * Plan the cheapest avoidance burn for a conjunction. Returns null when no burn can be
+ * executed before TCA; otherwise the plan reports whether the target was reached.
+ */
+export function planAvoidanceManeuver(
+  event: ConjunctionEvent,
+  simulator: SatelliteSimulator,
+  options: Partial<ManeuverPlannerOptions> = {}
+): ManeuverPlan | null {
+  const config = { ...DEFAULT_PLANNER_OPTIONS, ...options };
+  const geometry = encounterGeometry(event, simulator);
+  const burnTimes = candidateBurnTimes(geometry, config);
+  if (burnTimes.length === 0) return null;
+
+  const zero = { x: 0, y: 0, z: 0 };
+  // Pc is costly: a miss-distance search only evaluates it for the chosen burn, and a Pc search
+  // uses the Chan series; the chosen burn is then confirmed with the configured method
+  const searchProbability = config.target.type === 'probability';
+  let best: ManeuverPlan | null = null;
+  let evaluateBest: ((deltaV: number) => Outcome) | null = null;
+
+  for (const burnTime of burnTimes) {
+    const burnState = simulator.propagateTo(burnTime);
+    // Reference trajectory on the same propagation path, so only the burn's effect remains
+    const unperturbed = simulator.propagateWithImpulse(burnTime, zero, geometry.tca, burnState);
+
+    for (const direction of config.directions) {
+      const unit = BURN_DIRECTIONS[direction];
+
+      const evaluate = (deltaV: number, withProbability: boolean = searchProbability, method: PcMethod = 'chan'): Outcome => {
+        const deltaVEci = scale(rtnToEciVector(unit, burnState), deltaV / 1000);
+        const maneuvered = simulator.propagateWithImpulse(burnTime, deltaVEci, geometry.tca, burnState);
+        const primaryState = {
+          position: add(geometry.primaryState.position, subtract(maneuvered.position, unperturbed.position)),
+          velocity: add(geometry.primaryState.velocity, subtract(maneuvered.velocity, unperturbed.velocity))
+        };
+
+        // Miss distance in the encounter plane; the TCA itself shifts along the relative velocity
+        const relativePosition = subtract(geometry.secondaryState.position, primaryState.position);
+        const relativeVelocity = subtract(geometry.secondaryState.velocity, primaryState.velocity);
+        const along = scale(relativeVelocity, dot(relativePosition, relativeVelocity) / dot(relativeVelocity, relativeVelocity));
+
+        return {
+          missDistance: norm(subtract(relativePosition, along)),
+          probability: withProbability
+            ? computeCollisionProbability({
+                primaryState,
+                secondaryState: geometry.secondaryState,
+                primaryCovariance: geometry.primaryCovariance,
+                secondaryCovariance: geometry.secondaryCovariance,
+                hardBodyRadius: geometry.hardBodyRadius
+              }, method)
+            : NaN
+        };
+      };
+
+      // Geometric sweep of magnitudes; the first one reaching the target is refined by bisection
+      const ratio = Math.pow(config.maxDeltaV / MINIMUM_DELTA_V, 1 / (MAGNITUDE_STEPS - 1));
+      let previous = 0;
+      let found: { deltaV: number; outcome: Outcome } | null = null;
+      let bestEffort: { deltaV: number; outcome: Outcome } | null = null;
+
+      for (let i = 0; i < MAGNITUDE_STEPS && !found; i++) {
+        const deltaV = MINIMUM_DELTA_V * Math.pow(ratio, i);
+        const outcome = evaluate(deltaV);
+        if (meetsTarget(outcome, config.target)) {
+          let lower = previous;
+          let upper = deltaV;
+          let upperOutcome = outcome;
+          for (let j = 0; j < BISECTION_STEPS; j++) {
+            const middle = (lower + upper) / 2;
+            const middleOutcome = evaluate(middle);
+            if (meetsTarget(middleOutcome, config.target)) {
+              upper = middle;
+              upperOutcome = middleOutcome;
+            } else {
+              lower = middle;
+            }
+          }
+          found = { deltaV: upper, outcome: upperOutcome };
+        } else if (!bestEffort || isBetter(outcome, bestEffort.outcome, config.target)) {
+          bestEffort = { deltaV, outcome };
+        }
+        previous = deltaV;
+      }
+
+      const candidate = found ?? bestEffort;
+      if (!candidate) continue;
+
+      const targetMet = found !== null;
+      const replaces = !best ||
+        (targetMet && (!best.targetMet || candidate.deltaV < best.deltaV)) ||
+        (!targetMet && !best.targetMet && isBetter(candidate.outcome, {
+          missDistance: best.expectedMissDistance,
+          probability: best.expectedProbability
+        }, config.target));
+      if (!replaces) continue;
+
+      best = {
+        burnTime,
+        burnDate: simulator.toDate(burnTime).toISOString(),
+        direction,
+        ...burnSize(unit, candidate.deltaV, config.propulsion),
+        expectedMissDistance: candidate.outcome.missDistance,
+        expectedProbability: candidate.outcome.probability,
+        targetMet
+      };
+      evaluateBest = (deltaV: number) => evaluate(deltaV, true, config.pcMethod);
+    }
+  }
+
+  if (!best || !evaluateBest) return best;
+
+  // The configured method can put Pc slightly above the Chan estimate; grow the burn until it agrees
+  let deltaV = best.deltaV;
+  let outcome = evaluateBest(deltaV);
+  if (config.target.type === 'probability' && best.targetMet && !meetsTarget(outcome, config.target)) {
+    let lower = deltaV;
+    let upper = deltaV;
+    let upperOutcome = outcome;
+    while (!meetsTarget(upperOutcome, config.target) && upper < config.maxDeltaV) {
+      lower = upper;
+      upper = Math.min(config.maxDeltaV, upper * CONFIRMATION_GROWTH);
+      upperOutcome = evaluateBest(upper);
+    }
+    if (meetsTarget(upperOutcome, config.target)) {
+      for (let j = 0; j < BISECTION_STEPS; j++) {
+        const middle = (lower + upper) / 2;
+        const middleOutcome = evaluateBest(middle);
+        if (meetsTarget(middleOutcome, config.target)) {
+          upper = middle;
+          upperOutcome = middleOutcome;
+        } else {
+          lower = middle;
+        }
+      }
+      deltaV = upper;
+      outcome = upperOutcome;
+    }
+  }
+
+  return {
+    ...best,
+    ...burnSize(BURN_DIRECTIONS[best.direction], deltaV, config.propulsion),
+    expectedMissDistance: outcome.missDistance,
+    expectedProbability: outcome.probability,
+    targetMet: meetsTarget(outcome, config.target)
+  };
+}
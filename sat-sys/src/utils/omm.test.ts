@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { detectOmmFormat, parseOmm, satelliteFromOmm, satelliteToOmmRecord } from './omm';
+
+const LINE1 = '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927';
+const LINE2 = '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537';
+
+const ISS_FIELDS: Array<[string, string]> = [
+  ['OBJECT_NAME', 'ISS (ZARYA)'],
+  ['OBJECT_ID', '1998-067A'],
+  ['CENTER_NAME', 'EARTH'],
+  ['REF_FRAME', 'TEME'],
+  ['TIME_SYSTEM', 'UTC'],
+  ['MEAN_ELEMENT_THEORY', 'SGP4'],
+  ['EPOCH', '2008-09-20T12:25:40.104192'],
+  ['MEAN_MOTION', '15.72125391'],
+  ['ECCENTRICITY', '.0006703'],
+  ['INCLINATION', '51.6416'],
+  ['RA_OF_ASC_NODE', '247.4627'],
+  ['ARG_OF_PERICENTER', '130.5360'],
+  ['MEAN_ANOMALY', '325.0288'],
+  ['EPHEMERIS_TYPE', '0'],
+  ['CLASSIFICATION_TYPE', 'U'],
+  ['NORAD_CAT_ID', '25544'],
+  ['ELEMENT_SET_NO', '292'],
+  ['REV_AT_EPOCH', '56353'],
+  ['BSTAR', '-.11606E-4'],
+  ['MEAN_MOTION_DOT', '-.00002182'],
+  ['MEAN_MOTION_DDOT', '0']
+];
+
+const JSON_OMM = JSON.stringify([Object.fromEntries(ISS_FIELDS)]);
+
+const KVN_OMM = ['CCSDS_OMM_VERS = 2.0', 'COMMENT GENERATED FOR TESTS', ...ISS_FIELDS.map(([key, value]) => `${key} = ${value}`)].join('\n');
+
+const XML_OMM = `<?xml version="1.0" encoding="UTF-8"?>
+<ndm>
+  <omm id="CCSDS_OMM_VERS" version="2.0">
+    <header><CREATION_DATE>2008-09-21T00:00:00</CREATION_DATE><ORIGINATOR>TEST</ORIGINATOR></header>
+    <body><segment>
+      <metadata>${ISS_FIELDS.slice(0, 6).map(([key, value]) => `<${key}>${value}</${key}>`).join('')}</metadata>
+      <data>
+        <meanElements>${ISS_FIELDS.slice(6, 13).map(([key, value]) => `<${key}>${value}</${key}>`).join('')}</meanElements>
+        <tleParameters>${ISS_FIELDS.slice(13).map(([key, value]) => `<${key}>${value}</${key}>`).join('')}</tleParameters>
+      </data>
+    </segment></body>
+  </omm>
+</ndm>`;
+
+describe('parseOmm', () => {
+  it('detects the encoding', () => {
+    expect(detectOmmFormat(JSON_OMM)).toBe('json');
+    expect(detectOmmFormat(XML_OMM)).toBe('xml');
+    expect(detectOmmFormat(KVN_OMM)).toBe('kvn');
+  });
+
+  it.each([['JSON', JSON_OMM], ['XML', XML_OMM], ['KVN', KVN_OMM]])('reads the same mean elements from %s', (_, text) => {
+    const [omm] = parseOmm(text);
+
+    expect(omm.objectName).toBe('ISS (ZARYA)');
+    expect(omm.noradCatId).toBe('25544');
+    expect(omm.refFrame).toBe('TEME');
+    expect(omm.meanElements).toMatchObject({
+      epoch: '2008-09-20T12:25:40.104Z',
+      meanMotion: 15.72125391,
+      eccentricity: 0.0006703,
+      inclination: 51.6416,
+      bstar: -1.1606e-5,
+      elementSetNo: 292,
+      objectId: '1998-067A'
+    });
+  });
+
+  it('reads ordinal epochs', () => {
+    const [omm] = parseOmm(JSON.stringify({ ...Object.fromEntries(ISS_FIELDS), EPOCH: '2008-264T12:25:40.104' }));
+    expect(omm.meanElements.epoch).toBe('2008-09-20T12:25:40.104Z');
+  });
+
+  it('reports which message is invalid and why', () => {
+    const missing = { ...Object.fromEntries(ISS_FIELDS) } as Record<string, string>;
+    delete missing.MEAN_MOTION;
+    expect(() => parseOmm(JSON.stringify([Object.fromEntries(ISS_FIELDS), missing]))).toThrow('OMM 2: Missing MEAN_MOTION');
+    expect(() => parseOmm(JSON.stringify({ ...Object.fromEntries(ISS_FIELDS), MEAN_ELEMENT_THEORY: 'DSST' }))).toThrow('SGP4 only');
+  });
+});
+
+describe('OMM and TLE', () => {
+  it('generates the TLE published with the same element set', () => {
+    const satellite = satelliteFromOmm(parseOmm(JSON_OMM)[0]);
+    expect(satellite.tle).toEqual({ line1: LINE1, line2: LINE2 });
+    expect(satellite.meanElements?.meanMotion).toBe(15.72125391);
+  });
+
+  it('round-trips a satellite through an OMM record', () => {
+    const satellite = satelliteFromOmm(parseOmm(KVN_OMM)[0]);
+    const record = satelliteToOmmRecord(satellite)!;
+    const back = satelliteFromOmm(parseOmm(JSON.stringify(record))[0]);
+
+    expect(record.NORAD_CAT_ID).toBe(25544);
+    expect(back.tle).toEqual(satellite.tle);
+    expect(back.name).toBe('ISS (ZARYA)');
+  });
+
+  it('has no record for satellites without an element set', () => {
+    expect(satelliteToOmmRecord({ id: 'manual', name: 'Manual', orbitType: 'LEO', altitude: 500, inclination: 45, velocity: 7.6 })).toBeNull();
+  });
+});
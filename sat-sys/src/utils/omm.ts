@@ -0,0 +1,240 @@
+/**
+ * CCSDS Orbit Mean-Elements Message (OMM, CCSDS 502.0-B) parsing
+ * Supports the JSON (CelesTrak / Space-Track GP), XML and KVN encodings; SGP4 mean elements only
+ */
+
+import { MeanElements, Satellite } from '../types/Satellite';
+import { meanElementsToTle, satelliteFromTle, tleToMeanElements } from './tle';
+
+export type OmmFormat = 'json' | 'xml' | 'kvn';
+
+export interface OmmMessage {
+  objectName: string;
+  objectId?: string; // international designator
+  noradCatId: string;
+  centerName?: string;
+  refFrame?: string;
+  timeSystem?: string;
+  meanElementTheory?: string;
+  meanElements: MeanElements;
+}
+
+type OmmRecord = Record<string, string>;
+
+const REQUIRED_KEYS = [
+  'EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'RA_OF_ASC_NODE', 'ARG_OF_PERICENTER', 'MEAN_ANOMALY', 'NORAD_CAT_ID'
+];
+
+// ==================== PARSING ====================
+
+export function detectOmmFormat(text: string): OmmFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'json';
+  return trimmed.startsWith('<') ? 'xml' : 'kvn';
+}
+
+const toRecord = (entry: Record<string, unknown>): OmmRecord =>
+  Object.fromEntries(
+    Object.entries(entry)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key.toUpperCase(), String(value).trim()])
+  );
+
+function jsonRecords(text: string): OmmRecord[] {
+  const data = JSON.parse(text) as unknown;
+  const entries = Array.isArray(data) ? data : [data];
+  return entries.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') throw new Error(`OMM entry ${index + 1} is not an object`);
+    return toRecord(entry as Record<string, unknown>);
+  });
+}
+
+/**
+ * One record per <omm> element (an <ndm> may hold several), flattening the leaf elements
+ */
+function xmlRecords(text: string): OmmRecord[] {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Malformed OMM XML');
+  }
+
+  const messages = xml.documentElement.tagName === 'omm'
+    ? [xml.documentElement]
+    : Array.from(xml.getElementsByTagName('omm'));
+
+  return messages.map(message => {
+    const record: OmmRecord = {};
+    const walk = (element: Element) => {
+      if (element.children.length === 0) {
+        if (element.tagName !== 'COMMENT') record[element.tagName] = (element.textContent ?? '').trim();
+        return;
+      }
+      Array.from(element.children).forEach(walk);
+    };
+    walk(message);
+    return record;
+  });
+}
+
+/**
+ * KVN messages, each starting at CCSDS_OMM_VERS; comments and unit annotations are dropped
+ */
+function kvnRecords(text: string): OmmRecord[] {
+  const records: OmmRecord[] = [];
+  let current: OmmRecord | null = null;
+
+  text.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('COMMENT'))
+    .forEach(line => {
+      const separator = line.indexOf('=');
+      if (separator < 0) throw new Error(`Malformed OMM line: "${line}"`);
+      const keyword = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).replace(/\[.*\]\s*$/, '').trim();
+
+      if (keyword === 'CCSDS_OMM_VERS' || !current) {
+        current = {};
+        records.push(current);
+      }
+      current[keyword] = value;
+    });
+
+  return records;
+}
+
+/**
+ * OMM epochs are UTC without a zone designator, in calendar (YYYY-MM-DD) or ordinal (YYYY-DDD) form
+ */
+function toIsoUtc(value: string): string {
+  const ordinal = value.match(/^(\d{4})-(\d{3})T(.*)$/);
+  const calendar = ordinal
+    ? `${new Date(Date.UTC(Number(ordinal[1]), 0, Number(ordinal[2]))).toISOString().slice(0, 10)}T${ordinal[3]}`
+    : value;
+  // Date parsing is only reliable to milliseconds
+  const trimmed = calendar.replace(/(\.\d{3})\d+/, '$1').replace(/[zZ]$/, '');
+  const date = new Date(`${trimmed}Z`);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid EPOCH "${value}"`);
+  return date.toISOString();
+}
+
+function numberField(record: OmmRecord, key: string, fallback?: number): number {
+  const raw = record[key];
+  if (raw === undefined || raw === '') {
+    if (fallback === undefined) throw new Error(`Missing ${key}`);
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`${key} is not a number: "${raw}"`);
+  return value;
+}
+
+const optionalNumber = (record: OmmRecord, key: string) =>
+  record[key] === undefined || record[key] === '' ? undefined : numberField(record, key);
+
+/**
+ * Map one OMM (keyword/value pairs, e.g. a CelesTrak or Space-Track GP JSON object) to a message
+ */
+export function ommFromRecord(entry: Record<string, unknown>): OmmMessage {
+  const record = toRecord(entry);
+  const missing = REQUIRED_KEYS.filter(key => record[key] === undefined || record[key] === '');
+  if (missing.length > 0) throw new Error(`Missing ${missing.join(', ')}`);
+
+  const theory = record.MEAN_ELEMENT_THEORY;
+  if (theory && theory.toUpperCase() !== 'SGP4') {
+    throw new Error(`Mean element theory ${theory} is not supported (SGP4 only)`);
+  }
+
+  const noradCatId = String(numberField(record, 'NORAD_CAT_ID'));
+  return {
+    objectName: record.OBJECT_NAME || `NORAD ${noradCatId}`,
+    objectId: record.OBJECT_ID,
+    noradCatId,
+    centerName: record.CENTER_NAME,
+    refFrame: record.REF_FRAME,
+    timeSystem: record.TIME_SYSTEM,
+    meanElementTheory: theory,
+    meanElements: {
+      epoch: toIsoUtc(record.EPOCH),
+      meanMotion: numberField(record, 'MEAN_MOTION'),
+      eccentricity: numberField(record, 'ECCENTRICITY'),
+      inclination: numberField(record, 'INCLINATION'),
+      rightAscensionOfAscendingNode: numberField(record, 'RA_OF_ASC_NODE'),
+      argumentOfPericenter: numberField(record, 'ARG_OF_PERICENTER'),
+      meanAnomaly: numberField(record, 'MEAN_ANOMALY'),
+      bstar: numberField(record, 'BSTAR', 0),
+      meanMotionDot: numberField(record, 'MEAN_MOTION_DOT', 0),
+      meanMotionDdot: numberField(record, 'MEAN_MOTION_DDOT', 0),
+      ephemerisType: optionalNumber(record, 'EPHEMERIS_TYPE'),
+      classificationType: record.CLASSIFICATION_TYPE,
+      elementSetNo: optionalNumber(record, 'ELEMENT_SET_NO'),
+      revAtEpoch: optionalNumber(record, 'REV_AT_EPOCH'),
+      objectId: record.OBJECT_ID
+    }
+  };
+}
+
+/**
+ * Split an OMM document of any encoding into its messages' keyword/value records
+ */
+export function ommRecords(text: string, format: OmmFormat = detectOmmFormat(text)): Record<string, string>[] {
+  const trimmed = text.trim();
+  return format === 'json' ? jsonRecords(trimmed) : format === 'xml' ? xmlRecords(trimmed) : kvnRecords(trimmed);
+}
+
+/**
+ * Parse every OMM in a document; throws on the first invalid message
+ */
+export function parseOmm(text: string, format?: OmmFormat): OmmMessage[] {
+  return ommRecords(text, format).map((record, index) => {
+    try {
+      return ommFromRecord(record);
+    } catch (error) {
+      throw new Error(`OMM ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+// ==================== MAPPING ====================
+
+/**
+ * Build a fleet satellite from an OMM. SGP4 runs on TLE lines generated from the mean elements,
+ * so catalog numbers above the Alpha-5 range cannot be simulated.
+ */
+export function satelliteFromOmm(omm: OmmMessage): Satellite {
+  const { line1, line2 } = meanElementsToTle(Number(omm.noradCatId), omm.meanElements);
+  return {
+    ...satelliteFromTle(omm.objectName, line1, line2),
+    meanElements: omm.meanElements
+  };
+}
+
+/**
+ * OMM of a satellite with an element set, as a CelesTrak-style JSON object
+ */
+export function satelliteToOmmRecord(satellite: Satellite): Record<string, string | number> | null {
+  if (!satellite.tle) return null;
+  const elements = satellite.meanElements ?? tleToMeanElements(satellite.tle.line1, satellite.tle.line2);
+  return {
+    OBJECT_NAME: satellite.name,
+    OBJECT_ID: elements.objectId ?? '',
+    CENTER_NAME: 'EARTH',
+    REF_FRAME: 'TEME',
+    TIME_SYSTEM: 'UTC',
+    MEAN_ELEMENT_THEORY: 'SGP4',
+    EPOCH: elements.epoch.replace(/Z$/, ''),
+    MEAN_MOTION: elements.meanMotion,
+    ECCENTRICITY: elements.eccentricity,
+    INCLINATION: elements.inclination,
+    RA_OF_ASC_NODE: elements.rightAscensionOfAscendingNode,
+    ARG_OF_PERICENTER: elements.argumentOfPericenter,
+    MEAN_ANOMALY: elements.meanAnomaly,
+    EPHEMERIS_TYPE: elements.ephemerisType ?? 0,
+    CLASSIFICATION_TYPE: elements.classificationType ?? 'U',
+    NORAD_CAT_ID: Number(satellite.noradId ?? satellite.id),
+    ELEMENT_SET_NO: elements.elementSetNo ?? 999,
+    REV_AT_EPOCH: elements.revAtEpoch ?? 0,
+    BSTAR: elements.bstar,
+    MEAN_MOTION_DOT: elements.meanMotionDot,
+    MEAN_MOTION_DDOT: elements.meanMotionDdot
+  };
+}
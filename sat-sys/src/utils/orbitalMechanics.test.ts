@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { OrbitalElements } from '../types/Satellite';
+import { dragDecayRate, EARTH_RADIUS, elementsToStateVector, MU_EARTH, norm, propagateElements, secularJ2Rates, solveKeplersEquation, stateVectorToElements } from './orbitalMechanics';
+
+const deg = (degrees: number) => degrees * Math.PI / 180;
+
+// Difference of two angles, wrapped to [-π, π]
+const angleDiff = (a: number, b: number) => Math.atan2(Math.sin(a - b), Math.cos(a - b));
+
+function elements(semiMajorAxis: number, eccentricity: number, inclination: number, raan: number, argP: number, meanAnomaly: number): OrbitalElements {
+  const meanMotion = Math.sqrt(MU_EARTH / semiMajorAxis ** 3);
+  return {
+    semiMajorAxis,
+    eccentricity,
+    inclination: deg(inclination),
+    rightAscensionOfAscendingNode: deg(raan),
+    argumentOfPeriapsis: deg(argP),
+    meanAnomaly: deg(meanAnomaly),
+    meanMotion,
+    orbitalPeriod: 2 * Math.PI / meanMotion
+  };
+}
+
+describe('solveKeplersEquation', () => {
+  it('satisfies M = E - e sin E', () => {
+    for (const e of [0, 0.1, 0.5, 0.9]) {
+      for (const M of [0.1, 1, 3, 5]) {
+        const E = solveKeplersEquation(M, e);
+        expect(angleDiff(E - e * Math.sin(E), M)).toBeCloseTo(0, 10);
+      }
+    }
+  });
+});
+
+describe('elementsToStateVector', () => {
+  it('gives circular speed and radius for a circular orbit', () => {
+    const a = EARTH_RADIUS + 500;
+    const state = elementsToStateVector(elements(a, 0, 51.6, 30, 0, 45));
+    expect(norm(state.position)).toBeCloseTo(a, 6);
+    expect(norm(state.velocity)).toBeCloseTo(Math.sqrt(MU_EARTH / a), 9);
+  });
+
+  it('places periapsis at a(1 - e) along the node line for an equatorial orbit', () => {
+    const state = elementsToStateVector(elements(10000, 0.2, 0, 0, 0, 0));
+    expect(state.position.x).toBeCloseTo(8000, 6);
+    expect(state.position.y).toBeCloseTo(0, 6);
+    expect(state.velocity.y).toBeCloseTo(Math.sqrt(MU_EARTH * 1.2 / 8000), 9); // vis-viva at periapsis
+  });
+});
+
+describe('stateVectorToElements', () => {
+  it('round-trips elliptical inclined elements', () => {
+    const original = elements(EARTH_RADIUS + 800, 0.05, 98.7, 120, 75, 210);
+    const recovered = stateVectorToElements(elementsToStateVector(original));
+
+    expect(recovered.semiMajorAxis).toBeCloseTo(original.semiMajorAxis, 6);
+    expect(recovered.eccentricity).toBeCloseTo(original.eccentricity, 10);
+    expect(recovered.inclination).toBeCloseTo(original.inclination, 10);
+    expect(angleDiff(recovered.rightAscensionOfAscendingNode, original.rightAscensionOfAscendingNode)).toBeCloseTo(0, 10);
+    expect(angleDiff(recovered.argumentOfPeriapsis, original.argumentOfPeriapsis)).toBeCloseTo(0, 8);
+    expect(angleDiff(recovered.meanAnomaly, original.meanAnomaly)).toBeCloseTo(0, 8);
+  });
+
+  it('measures circular inclined orbits from the ascending node', () => {
+    const original = elements(EARTH_RADIUS + 550, 0, 53, 200, 0, 130);
+    const recovered = stateVectorToElements(elementsToStateVector(original));
+
+    expect(recovered.eccentricity).toBeLessThan(1e-10);
+    expect(recovered.argumentOfPeriapsis).toBe(0);
+    expect(angleDiff(recovered.meanAnomaly, original.meanAnomaly)).toBeCloseTo(0, 8);
+  });
+
+  it('reproduces the state it was computed from', () => {
+    const state = { position: { x: 7000, y: -1200, z: 1500 }, velocity: { x: 1.1, y: 7.2, z: 1.3 } };
+    const back = elementsToStateVector(stateVectorToElements(state));
+
+    expect(back.position.x).toBeCloseTo(state.position.x, 6);
+    expect(back.position.y).toBeCloseTo(state.position.y, 6);
+    expect(back.position.z).toBeCloseTo(state.position.z, 6);
+    expect(back.velocity.x).toBeCloseTo(state.velocity.x, 9);
+    expect(back.velocity.y).toBeCloseTo(state.velocity.y, 9);
+    expect(back.velocity.z).toBeCloseTo(state.velocity.z, 9);
+  });
+});
+
+describe('secularJ2Rates', () => {
+  const DAY = 86400;
+
+  it('turns a sun-synchronous orbit\'s node eastward at one revolution per year', () => {
+    const raanRate = secularJ2Rates(elements(6378.137 + 700, 0.001, 98.19, 0, 0, 0)).raanRate;
+    expect(raanRate * DAY * 180 / Math.PI).toBeCloseTo(0.9856, 2);
+  });
+
+  it('regresses prograde nodes, advances retrograde ones and stops at 90°', () => {
+    expect(secularJ2Rates(elements(6878, 0, 51.6, 0, 0, 0)).raanRate).toBeLessThan(0);
+    expect(secularJ2Rates(elements(6878, 0, 120, 0, 0, 0)).raanRate).toBeGreaterThan(0);
+    expect(secularJ2Rates(elements(6878, 0, 90, 0, 0, 0)).raanRate).toBeCloseTo(0, 15);
+  });
+
+  it('freezes the argument of periapsis at the critical inclination', () => {
+    expect(secularJ2Rates(elements(26560, 0.7, 63.435, 0, 0, 0)).argumentOfPeriapsisRate).toBeCloseTo(0, 12);
+  });
+});
+
+describe('drag decay', () => {
+  it('lowers the semi-major axis monotonically, faster as the orbit decays', () => {
+    const start = elements(EARTH_RADIUS + 350, 0, 51.6, 0, 0, 0);
+    const semiMajorAxes = [0, 1, 2, 5, 10].map(days => propagateElements(start, days * 86400, 'j2-drag').semiMajorAxis);
+
+    semiMajorAxes.slice(1).forEach((value, i) => expect(value).toBeLessThan(semiMajorAxes[i]));
+    expect(dragDecayRate(EARTH_RADIUS + 300)).toBeLessThan(dragDecayRate(EARTH_RADIUS + 400));
+    expect(dragDecayRate(EARTH_RADIUS + 400)).toBeLessThan(0);
+  });
+
+  it('leaves the semi-major axis alone without drag and below the re-entry altitude', () => {
+    const start = elements(EARTH_RADIUS + 350, 0, 51.6, 0, 0, 0);
+    expect(propagateElements(start, 10 * 86400, 'j2').semiMajorAxis).toBe(start.semiMajorAxis);
+    expect(dragDecayRate(EARTH_RADIUS + 90)).toBe(0);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Two-body orbital mechanics helpers shared by the simulator and analysis tools
+ */
+
+import { OrbitalElements, PerturbationModel, Satellite, StateVector, Vector3 } from '../types/Satellite';
+import { exponentialAtmosphereDensity } from './atmosphere';
+
+export const MU_EARTH = 3.986004418e5; // Earth's gravitational parameter (km³/s²)
+export const EARTH_RADIUS = 6371; // km
+export const EARTH_EQUATORIAL_RADIUS = 6378.137; // km
+export const J2 = 1.08262668e-3; // Earth's second zonal harmonic
+
+export const DEFAULT_BALLISTIC_COEFFICIENT = 50; // kg/m², typical small satellite
+export const DRAG_COEFFICIENT = 2.2; // typical satellite Cd in free molecular flow
+const REENTRY_ALTITUDE = 100; // km, drag decay stops below this altitude
+export const DRAG_SUBSTEP = 3600; // seconds, integration step of the drag decay
+
+// ==================== VECTOR HELPERS ====================
+
+export const add = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+export const subtract = (a: Vector3, b: Vector3): Vector3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+export const scale = (a: Vector3, k: number): Vector3 => ({ x: a.x * k, y: a.y * k, z: a.z * k });
+export const dot = (a: Vector3, b: Vector3): number => a.x * b.x + a.y * b.y + a.z * b.z;
+export const cross = (a: Vector3, b: Vector3): Vector3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+export const norm = (a: Vector3): number => Math.sqrt(dot(a, a));
+export const normalize = (a: Vector3): Vector3 => scale(a, 1 / norm(a));
+
+// ==================== KEPLERIAN ELEMENTS ====================
+
+/**
+ * Solve Kepler's equation (M = E - e sin E) using Newton-Raphson method
+ */
+export function solveKeplersEquation(meanAnomaly: number, eccentricity: number, maxIterations: number = 50): number {
+  // Wrap to [-π, π] so the initial guess is close for any epoch offset
+  const M = Math.atan2(Math.sin(meanAnomaly), Math.cos(meanAnomaly));
+  let eccentricAnomaly = eccentricity < 0.8 ? M : Math.PI * Math.sign(M || 1);
+
+  for (let i = 0; i < maxIterations; i++) {
+    const f = eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly) - M;
+    const fPrime = 1 - eccentricity * Math.cos(eccentricAnomaly);
+
+    if (Math.abs(f) < 1e-12) break;
+
+    eccentricAnomaly = eccentricAnomaly - f / fPrime;
+  }
+
+  return eccentricAnomaly;
+}
+
+/**
+ * Unit vectors of the perifocal frame expressed in ECI:
+ * P towards periapsis, Q 90° ahead in the orbital plane, W along the orbit normal
+ */
+export function perifocalBasis({ inclination, rightAscensionOfAscendingNode, argumentOfPeriapsis }: OrbitalElements) {
+  const cosRAAN = Math.cos(rightAscensionOfAscendingNode);
+  const sinRAAN = Math.sin(rightAscensionOfAscendingNode);
+  const cosInc = Math.cos(inclination);
+  const sinInc = Math.sin(inclination);
+  const cosArgP = Math.cos(argumentOfPeriapsis);
+  const sinArgP = Math.sin(argumentOfPeriapsis);
+
+  const P: Vector3 = {
+    x: cosRAAN * cosArgP - sinRAAN * sinArgP * cosInc,
+    y: sinRAAN * cosArgP + cosRAAN * sinArgP * cosInc,
+    z: sinArgP * sinInc
+  };
+  const Q: Vector3 = {
+    x: -cosRAAN * sinArgP - sinRAAN * cosArgP * cosInc,
+    y: -sinRAAN * sinArgP + cosRAAN * cosArgP * cosInc,
+    z: cosArgP * sinInc
+  };
+  const W: Vector3 = {
+    x: sinRAAN * sinInc,
+    y: -cosRAAN * sinInc,
+    z: cosInc
+  };
+
+  return { P, Q, W };
+}
+
+/**
+ * Convert classical orbital elements at a given mean anomaly to an ECI state vector.
+ * Position and velocity are computed in the perifocal frame and rotated by (Ω, i, ω).
+ */
+export function elementsToStateVector(elements: OrbitalElements, meanAnomaly: number = elements.meanAnomaly): StateVector {
+  const { semiMajorAxis, eccentricity } = elements;
+
+  const eccentricAnomaly = solveKeplersEquation(meanAnomaly, eccentricity);
+
+  const trueAnomaly = 2 * Math.atan2(
+    Math.sqrt(1 + eccentricity) * Math.sin(eccentricAnomaly / 2),
+    Math.sqrt(1 - eccentricity) * Math.cos(eccentricAnomaly / 2)
+  );
+
+  const radius = semiMajorAxis * (1 - eccentricity * Math.cos(eccentricAnomaly));
+  const semiLatusRectum = semiMajorAxis * (1 - eccentricity ** 2);
+  const velocityScale = Math.sqrt(MU_EARTH / semiLatusRectum);
+
+  // Perifocal frame (P towards periapsis, Q 90° ahead in the orbital plane)
+  const positionPQ = {
+    p: radius * Math.cos(trueAnomaly),
+    q: radius * Math.sin(trueAnomaly)
+  };
+  const velocityPQ = {
+    p: -velocityScale * Math.sin(trueAnomaly),
+    q: velocityScale * (eccentricity + Math.cos(trueAnomaly))
+  };
+
+  const { P, Q } = perifocalBasis(elements);
+
+  return {
+    position: {
+      x: positionPQ.p * P.x + positionPQ.q * Q.x,
+      y: positionPQ.p * P.y + positionPQ.q * Q.y,
+      z: positionPQ.p * P.z + positionPQ.q * Q.z
+    },
+    velocity: {
+      x: velocityPQ.p * P.x + velocityPQ.q * Q.x,
+      y: velocityPQ.p * P.y + velocityPQ.q * Q.y,
+      z: velocityPQ.p * P.z + velocityPQ.q * Q.z
+    }
+  };
+}
+
+/**
+ * Convert an ECI state vector to classical orbital elements (osculating, two-body).
+ * Circular and equatorial orbits fall back to argument of latitude / true longitude.
+ * The returned mean anomaly corresponds to the given state.
+ */
+export function stateVectorToElements({ position, velocity }: StateVector): OrbitalElements {
+  const EPSILON = 1e-10;
+  const r = norm(position);
+  const v = norm(velocity);
+  const radialVelocity = dot(position, velocity);
+
+  const angularMomentum = cross(position, velocity);
+  const h = norm(angularMomentum);
+  const nodeVector: Vector3 = { x: -angularMomentum.y, y: angularMomentum.x, z: 0 };
+  const n = norm(nodeVector);
+
+  const eccentricityVector = scale(
+    subtract(scale(position, v * v - MU_EARTH / r), scale(velocity, radialVelocity)),
+    1 / MU_EARTH
+  );
+  const eccentricity = norm(eccentricityVector);
+  const semiMajorAxis = 1 / (2 / r - (v * v) / MU_EARTH);
+  const inclination = Math.acos(Math.max(-1, Math.min(1, angularMomentum.z / h)));
+  const angleBetween = (a: Vector3, b: Vector3) =>
+    Math.acos(Math.max(-1, Math.min(1, dot(a, b) / (norm(a) * norm(b)))));
+
+  const rightAscensionOfAscendingNode = n > EPSILON ? Math.atan2(nodeVector.y, nodeVector.x) : 0;
+
+  let argumentOfPeriapsis = 0;
+  let trueAnomaly: number;
+
+  if (eccentricity > EPSILON) {
+    if (n > EPSILON) {
+      argumentOfPeriapsis = angleBetween(nodeVector, eccentricityVector);
+      if (eccentricityVector.z < 0) argumentOfPeriapsis = 2 * Math.PI - argumentOfPeriapsis;
+    } else {
+      argumentOfPeriapsis = Math.atan2(eccentricityVector.y, eccentricityVector.x) * Math.sign(angularMomentum.z || 1);
+    }
+    trueAnomaly = angleBetween(eccentricityVector, position);
+    if (radialVelocity < 0) trueAnomaly = 2 * Math.PI - trueAnomaly;
+  } else if (n > EPSILON) {
+    // Circular inclined: measure from the ascending node (argument of latitude)
+    trueAnomaly = angleBetween(nodeVector, position);
+    if (position.z < 0) trueAnomaly = 2 * Math.PI - trueAnomaly;
+  } else {
+    // Circular equatorial: true longitude
+    trueAnomaly = Math.atan2(position.y, position.x) * Math.sign(angularMomentum.z || 1);
+  }
+
+  const eccentricAnomaly = 2 * Math.atan2(
+    Math.sqrt(1 - eccentricity) * Math.sin(trueAnomaly / 2),
+    Math.sqrt(1 + eccentricity) * Math.cos(trueAnomaly / 2)
+  );
+  const meanMotion = Math.sqrt(MU_EARTH / Math.abs(semiMajorAxis) ** 3);
+
+  return {
+    semiMajorAxis,
+    eccentricity,
+    inclination,
+    rightAscensionOfAscendingNode,
+    argumentOfPeriapsis,
+    meanAnomaly: eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly),
+    meanMotion,
+    orbitalPeriod: 2 * Math.PI / meanMotion
+  };
+}
+
+/**
+ * Secular rates of RAAN, argument of periapsis and mean anomaly due to J2 (rad/s)
+ */
+export function secularJ2Rates(elements: OrbitalElements) {
+  const { semiMajorAxis, eccentricity, inclination } = elements;
+  const meanMotion = Math.sqrt(MU_EARTH / semiMajorAxis ** 3);
+  const semiLatusRectum = semiMajorAxis * (1 - eccentricity ** 2);
+  const factor = 1.5 * J2 * (EARTH_EQUATORIAL_RADIUS / semiLatusRectum) ** 2 * meanMotion;
+  const cosInc = Math.cos(inclination);
+
+  return {
+    raanRate: -factor * cosInc,
+    argumentOfPeriapsisRate: 0.5 * factor * (5 * cosInc ** 2 - 1),
+    meanAnomalyRate: meanMotion + 0.5 * factor * Math.sqrt(1 - eccentricity ** 2) * (3 * cosInc ** 2 - 1)
+  };
+}
+
+/**
+ * Ballistic coefficient m / (Cd A): set explicitly, or derived from the spacecraft's area-to-mass ratio
+ */
+export function ballisticCoefficientOf(satellite: Pick<Satellite, 'ballisticCoefficient' | 'spacecraft'>): number | undefined {
+  if (satellite.ballisticCoefficient) return satellite.ballisticCoefficient;
+  const areaToMass = satellite.spacecraft?.areaToMass;
+  return areaToMass ? 1 / (DRAG_COEFFICIENT * areaToMass) : undefined;
+}
+
+/**
+ * Rate of change of semi-major axis due to atmospheric drag (km/s).
+ * Uses the near-circular approximation da/dt = -ρ √(μa) / B.
+ * @param densityAt - Density model (kg/m³ at an altitude in km), the static exponential atmosphere by default
+ */
+export function dragDecayRate(
+  semiMajorAxis: number,
+  ballisticCoefficient: number = DEFAULT_BALLISTIC_COEFFICIENT,
+  densityAt: (altitudeKm: number) => number = exponentialAtmosphereDensity
+): number {
+  const altitude = semiMajorAxis - EARTH_RADIUS;
+  if (altitude < REENTRY_ALTITUDE) return 0;
+
+  const density = densityAt(altitude); // kg/m³
+  // ρ/B is in 1/m; multiply by 1000 to get 1/km
+  return -Math.sqrt(MU_EARTH * semiMajorAxis) * (density / ballisticCoefficient) * 1000;
+}
+
+/**
+ * Propagate mean orbital elements forward by dt seconds under the selected perturbation model.
+ * Two-body advances only the mean anomaly; J2 adds secular drift of Ω, ω and M;
+ * drag additionally decays the semi-major axis, integrated in hourly substeps.
+ * The returned elements carry the mean anomaly at the propagated time.
+ */
+export function propagateElements(
+  elements: OrbitalElements,
+  dt: number,
+  model: PerturbationModel = 'two-body',
+  ballisticCoefficient?: number
+): OrbitalElements {
+  if (model === 'two-body') {
+    return { ...elements, meanAnomaly: elements.meanAnomaly + elements.meanMotion * dt };
+  }
+
+  const propagated = { ...elements };
+  const substeps = model === 'j2-drag' ? Math.max(1, Math.ceil(Math.abs(dt) / DRAG_SUBSTEP)) : 1;
+  const step = dt / substeps;
+
+  for (let i = 0; i < substeps; i++) {
+    let semiMajorAxisMid = propagated.semiMajorAxis;
+
+    if (model === 'j2-drag') {
+      // Midpoint integration of the decaying semi-major axis
+      const decay = dragDecayRate(propagated.semiMajorAxis, ballisticCoefficient);
+      semiMajorAxisMid = propagated.semiMajorAxis + decay * step / 2;
+      propagated.semiMajorAxis += dragDecayRate(semiMajorAxisMid, ballisticCoefficient) * step;
+    }
+
+    const rates = secularJ2Rates({ ...propagated, semiMajorAxis: semiMajorAxisMid });
+    propagated.rightAscensionOfAscendingNode += rates.raanRate * step;
+    propagated.argumentOfPeriapsis += rates.argumentOfPeriapsisRate * step;
+    propagated.meanAnomaly += rates.meanAnomalyRate * step;
+  }
+
+  propagated.meanMotion = Math.sqrt(MU_EARTH / propagated.semiMajorAxis ** 3);
+  propagated.orbitalPeriod = 2 * Math.PI / propagated.meanMotion;
+  return propagated;
+}
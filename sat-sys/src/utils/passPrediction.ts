@@ -0,0 +1,163 @@
+/**
+ * Ground station visibility and contact window (pass) prediction
+ * Passes are found by sampling elevation, then AOS/LOS are refined by bisection
+ * and TCA by golden-section search on elevation
+ */
+
+import * as satellite from 'satellite.js';
+import { ContactWindow, GroundStation, Vector3 } from '../types/Satellite';
+import { SatelliteSimulator } from './SatelliteSimulator';
+
+export interface LookAngles {
+  azimuth: number; // degrees from north, clockwise
+  elevation: number; // degrees
+  range: number; // km
+}
+
+const DEG = Math.PI / 180;
+const REFINE_TOLERANCE = 1; // seconds
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Azimuth, elevation and range of an ECI position seen from a ground station
+ */
+export function lookAngles(position: Vector3, date: Date, station: GroundStation): LookAngles {
+  const ecf = satellite.eciToEcf(position, satellite.gstime(date));
+  const look = satellite.ecfToLookAngles(
+    { latitude: station.latitude * DEG, longitude: station.longitude * DEG, height: station.altitude },
+    ecf
+  );
+
+  return {
+    azimuth: ((look.azimuth / DEG) + 360) % 360,
+    elevation: look.elevation / DEG,
+    range: look.rangeSat
+  };
+}
+
+/**
+ * Contact windows of one satellite over one station between two simulation times.
+ * Passes already in progress at the start, or still open at the end, are clipped to the interval.
+ */
+export function predictPasses(
+  simulator: SatelliteSimulator,
+  satelliteId: string,
+  station: GroundStation,
+  startTime: number,
+  endTime: number,
+  step: number = 60
+): ContactWindow[] {
+  const look = (t: number) => lookAngles(simulator.propagateTo(t).position, simulator.toDate(t), station);
+  // Elevation above the station's mask
+  const margin = (t: number) => look(t).elevation - station.minElevation;
+
+  // Time at which the margin changes sign between a and b
+  const refine = (a: number, b: number) => {
+    const rising = margin(a) < 0;
+    while (b - a > REFINE_TOLERANCE) {
+      const middle = (a + b) / 2;
+      if ((margin(middle) < 0) === rising) a = middle; else b = middle;
+    }
+    return (a + b) / 2;
+  };
+
+  const highestPoint = (a: number, b: number) => {
+    let x1 = b - GOLDEN_RATIO * (b - a);
+    let x2 = a + GOLDEN_RATIO * (b - a);
+    let f1 = look(x1).elevation;
+    let f2 = look(x2).elevation;
+    while (b - a > REFINE_TOLERANCE) {
+      if (f1 < f2) {
+        a = x1; x1 = x2; f1 = f2;
+        x2 = a + GOLDEN_RATIO * (b - a); f2 = look(x2).elevation;
+      } else {
+        b = x2; x2 = x1; f2 = f1;
+        x1 = b - GOLDEN_RATIO * (b - a); f1 = look(x1).elevation;
+      }
+    }
+    return (a + b) / 2;
+  };
+
+  const toWindow = (aos: number, los: number): ContactWindow => {
+    const tca = highestPoint(aos, los);
+    const [atAos, atTca, atLos] = [look(aos), look(tca), look(los)];
+    return {
+      id: `pass-${satelliteId}-${station.id}-${Math.round(simulator.toDate(aos).getTime() / 1000)}`,
+      satelliteId,
+      stationId: station.id,
+      stationName: station.name,
+      aos: simulator.toDate(aos).toISOString(),
+      tca: simulator.toDate(tca).toISOString(),
+      los: simulator.toDate(los).toISOString(),
+      duration: los - aos,
+      maxElevation: atTca.elevation,
+      aosAzimuth: atAos.azimuth,
+      tcaAzimuth: atTca.azimuth,
+      losAzimuth: atLos.azimuth,
+      minRange: atTca.range
+    };
+  };
+
+  const windows: ContactWindow[] = [];
+  let previousTime = startTime;
+  let visible = margin(startTime) >= 0;
+  let aos: number | null = visible ? startTime : null;
+
+  while (previousTime < endTime) {
+    const t = Math.min(previousTime + step, endTime);
+    const nowVisible = margin(t) >= 0;
+    if (nowVisible && !visible) {
+      aos = refine(previousTime, t);
+    } else if (!nowVisible && visible && aos !== null) {
+      windows.push(toWindow(aos, refine(previousTime, t)));
+      aos = null;
+    }
+    visible = nowVisible;
+    previousTime = t;
+  }
+
+  if (visible && aos !== null && endTime > aos) {
+    windows.push(toWindow(aos, endTime));
+  }
+  return windows;
+}
+
+/**
+ * Contact windows for every satellite and station, sorted by AOS
+ */
+export function predictContactWindows(
+  simulators: Map<string, SatelliteSimulator>,
+  stations: GroundStation[],
+  startDate: Date,
+  endDate: Date
+): ContactWindow[] {
+  const windows: ContactWindow[] = [];
+  simulators.forEach((simulator, satelliteId) => {
+    stations.forEach(station => {
+      windows.push(...predictPasses(
+        simulator,
+        satelliteId,
+        station,
+        simulator.toSimulationTime(startDate),
+        simulator.toSimulationTime(endDate)
+      ));
+    });
+  });
+  return windows.sort((a, b) => new Date(a.aos).getTime() - new Date(b.aos).getTime());
+}
+
+/**
+ * First contact for a satellite that is still open after a date and starts before a deadline
+ */
+export function nextContactBefore(
+  windows: ContactWindow[],
+  satelliteId: string,
+  after: Date,
+  deadline: Date
+): ContactWindow | undefined {
+  return windows.find(window =>
+    window.satelliteId === satelliteId &&
+    new Date(window.los) > after &&
+    new Date(window.aos) < deadline
+  );
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { Satellite } from '../types/Satellite';
+import {
+  chargingRiskFor,
+  chargingTransitionAlert,
+  FluxSample,
+  fluxToSScale,
+  isChargingExposed,
+  isProtonExposed,
+  protonTransitionAlert,
+  radiationEnvironment,
+  RadiationEnvironment,
+  radiationThreats
+} from './radiation';
+
+const start = Date.parse('2025-01-01T00:00:00Z');
+
+/**
+ * GOES 5-minute averages, the first at the start time
+ */
+const fluxes = (...values: number[]): FluxSample[] =>
+  values.map((flux, i) => ({ time: new Date(start + i * 5 * 60000).toISOString(), flux }));
+
+const orbit = (id: string, altitude: number, inclination: number): Satellite => ({
+  id,
+  name: id.toUpperCase(),
+  orbitType: altitude >= 35000 ? 'GEO' : altitude >= 2000 ? 'MEO' : 'LEO',
+  altitude,
+  inclination,
+  velocity: 7.5,
+  eccentricity: 0,
+  rightAscensionOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0
+});
+
+const leoPolar = orbit('leo-polar', 700, 98);
+const leoEquatorial = orbit('leo-equatorial', 550, 10);
+const gnss = orbit('gnss', 20200, 55);
+const geo = orbit('geo', 35786, 0);
+const fleet = [leoPolar, leoEquatorial, gnss, geo];
+
+const environment = (overrides: Partial<RadiationEnvironment>): RadiationEnvironment => ({
+  time: '2025-01-01T00:00:00.000Z',
+  protonScale: 0,
+  chargingRisk: 'nominal',
+  ...overrides
+});
+
+describe('flux classification', () => {
+  it('maps ≥10 MeV proton flux to the NOAA S-scale', () => {
+    expect([1, 9.9, 10, 99, 100, 1e3, 1e4, 1e5, 1e6].map(fluxToSScale)).toEqual([0, 0, 1, 1, 2, 3, 4, 5, 5]);
+  });
+
+  it('maps ≥2 MeV electron flux to a charging risk', () => {
+    expect([10, 999, 1e3, 9999, 1e4].map(chargingRiskFor)).toEqual(['nominal', 'nominal', 'elevated', 'elevated', 'high']);
+  });
+});
+
+describe('radiationEnvironment', () => {
+  it('raises a level only once the flux has held for three 5-minute points', () => {
+    expect(radiationEnvironment(fluxes(5, 5, 150), [])!.protonScale).toBe(0);
+    expect(radiationEnvironment(fluxes(5, 150, 150), [])!.protonScale).toBe(0);
+    expect(radiationEnvironment(fluxes(50, 150, 150), [])!.protonScale).toBe(1);
+    expect(radiationEnvironment(fluxes(150, 150, 150), [])!.protonScale).toBe(2);
+    expect(radiationEnvironment(fluxes(5, 1500, 1200, 2000), [])!.protonScale).toBe(3);
+  });
+
+  it('drops a level as soon as a point falls below it', () => {
+    expect(radiationEnvironment(fluxes(1500, 1500, 1500, 50), [])!.protonScale).toBe(1);
+  });
+
+  it('reports the latest fluxes, the newer timestamp and the electron risk', () => {
+    const env = radiationEnvironment(fluxes(1, 2, 3), fluxes(2e4, 2e4, 2e4, 1.5e4));
+
+    expect(env).toEqual({
+      time: new Date(start + 15 * 60000).toISOString(),
+      protonFlux: 3,
+      electronFlux: 1.5e4,
+      protonScale: 0,
+      chargingRisk: 'high'
+    });
+  });
+
+  it('is null without data, and nominal for a missing channel', () => {
+    expect(radiationEnvironment([], [])).toBeNull();
+    expect(radiationEnvironment([], fluxes(2e3, 2e3, 2e3))).toMatchObject({ protonScale: 0, protonFlux: undefined, chargingRisk: 'elevated' });
+  });
+});
+
+describe('exposure by orbit', () => {
+  it('exposes MEO, GEO and high-inclination LEO to solar protons, and only MEO and GEO to charging', () => {
+    expect(fleet.filter(isProtonExposed).map(sat => sat.id)).toEqual(['leo-polar', 'gnss', 'geo']);
+    expect(fleet.filter(isChargingExposed).map(sat => sat.id)).toEqual(['gnss', 'geo']);
+    expect(isProtonExposed(orbit('iss', 420, 51.6))).toBe(true);
+    expect(isProtonExposed(orbit('starlink', 550, 43))).toBe(false);
+  });
+
+  it('scores proton and charging threats only on exposed orbits', () => {
+    const storm = environment({ protonScale: 3, chargingRisk: 'high' });
+
+    expect(radiationThreats(storm, leoEquatorial)).toEqual([]);
+    expect(radiationThreats(storm, leoPolar).map(threat => threat.severity)).toEqual([7]);
+    expect(radiationThreats(storm, geo).map(threat => threat.severity)).toEqual([7, 7]);
+    expect(radiationThreats(environment({ protonScale: 5, chargingRisk: 'elevated' }), geo).map(threat => threat.severity)).toEqual([10, 4]);
+    expect(radiationThreats(environment({}), geo)).toEqual([]);
+  });
+});
+
+describe('transition alerts', () => {
+  it('alerts on a rising storm level with the exposed satellites and a safe-mode action from S3', () => {
+    const s3 = protonTransitionAlert(environment({ protonScale: 3, protonFlux: 1200 }), 1, fleet);
+    const s2 = protonTransitionAlert(environment({ protonScale: 2, protonFlux: 150 }), 0, fleet);
+
+    expect(s3).toMatchObject({ severity: 'high', affectedSatellites: ['leo-polar', 'gnss', 'geo'] });
+    expect(s3.message).toContain('S3 Strong');
+    expect(s3.suggestedAction?.type).toBe('power_down');
+    expect(s2.severity).toBe('medium');
+    expect(s2.suggestedAction?.type).toBe('monitor');
+  });
+
+  it('reports an easing or ended storm as low severity without an action', () => {
+    const eased = protonTransitionAlert(environment({ protonScale: 1, protonFlux: 20 }), 3, fleet);
+    const ended = protonTransitionAlert(environment({ protonScale: 0, protonFlux: 2 }), 1, fleet);
+
+    expect(eased).toMatchObject({ severity: 'low' });
+    expect(eased.suggestedAction).toBeUndefined();
+    expect(eased.message).toContain('eased to S1 Minor');
+    expect(ended.message).toContain('ended');
+    expect(ended.message).toContain('down from S1 Minor');
+  });
+
+  it('alerts on rising charging risk for MEO and GEO, and reports a fall as low', () => {
+    const rising = chargingTransitionAlert(environment({ chargingRisk: 'high', electronFlux: 2e4 }), 'elevated', fleet);
+    const falling = chargingTransitionAlert(environment({ chargingRisk: 'elevated', electronFlux: 2e3 }), 'high', fleet);
+
+    expect(rising).toMatchObject({ severity: 'high', affectedSatellites: ['gnss', 'geo'] });
+    expect(rising.suggestedAction?.type).toBe('monitor');
+    expect(falling).toMatchObject({ severity: 'low' });
+    expect(falling.suggestedAction).toBeUndefined();
+    expect(falling.message).toContain('down to elevated from high');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Radiation environment from GOES particle flux: NOAA S-scale solar radiation storms (≥10 MeV protons)
+ * and deep-dielectric charging risk (≥2 MeV electrons), and which orbits each one reaches
+ */
+
+import { Satellite, SpaceWeatherAlert, ThreatAssessment } from '../types/Satellite';
+
+export interface FluxSample {
+  time: string; // ISO UTC, 5-minute average
+  flux: number; // pfu (particles / cm² s sr)
+}
+
+export type RadiationScale = 0 | 1 | 2 | 3 | 4 | 5;
+export type ChargingRisk = 'nominal' | 'elevated' | 'high';
+
+export interface RadiationEnvironment {
+  time: string;
+  protonFlux?: number; // ≥10 MeV, pfu
+  electronFlux?: number; // ≥2 MeV, pfu
+  protonScale: RadiationScale;
+  chargingRisk: ChargingRisk;
+}
+
+type Threat = ThreatAssessment['threats'][number];
+
+// ≥10 MeV proton flux at the start of S1..S5
+const S_SCALE_THRESHOLDS = [10, 100, 1e3, 1e4, 1e5]; // pfu
+const EVENT_PERSISTENCE = 15 * 60 * 1000; // ms a threshold must hold, NOAA's three 5-minute points
+
+// ≥2 MeV electron flux; 1000 pfu is NOAA's electron alert threshold
+const ELECTRON_ELEVATED = 1e3; // pfu
+const ELECTRON_HIGH = 1e4; // pfu
+
+// Solar protons reach LEO only at high geomagnetic latitudes, through the polar caps
+export const POLAR_CAP_INCLINATION = 50; // degrees
+const OUTER_BELT_ALTITUDE = 2000; // km; MEO and GEO orbits sit in or cross the outer electron belt
+
+export const S_SCALE_LABELS: Record<RadiationScale, string> = {
+  0: 'None',
+  1: 'S1 Minor',
+  2: 'S2 Moderate',
+  3: 'S3 Strong',
+  4: 'S4 Severe',
+  5: 'S5 Extreme'
+};
+
+export function fluxToSScale(flux: number): RadiationScale {
+  return S_SCALE_THRESHOLDS.filter(threshold => flux >= threshold).length as RadiationScale;
+}
+
+export function chargingRiskFor(flux: number): ChargingRisk {
+  return flux >= ELECTRON_HIGH ? 'high' : flux >= ELECTRON_ELEVATED ? 'elevated' : 'nominal';
+}
+
+/**
+ * Lowest flux of the 15 minutes up to the latest sample, so a level is only reached once it has persisted
+ */
+function persistentFlux(samples: FluxSample[]): number | null {
+  const latest = samples[samples.length - 1];
+  if (!latest) return null;
+  const latestTime = new Date(latest.time).getTime();
+  return Math.min(...samples
+    .filter(sample => latestTime - new Date(sample.time).getTime() < EVENT_PERSISTENCE)
+    .map(sample => sample.flux));
+}
+
+/**
+ * Current environment from GOES samples; levels follow fluxes that held for 15 minutes
+ */
+export function radiationEnvironment(protons: FluxSample[], electrons: FluxSample[]): RadiationEnvironment | null {
+  const latestProton = protons[protons.length - 1];
+  const latestElectron = electrons[electrons.length - 1];
+  if (!latestProton && !latestElectron) return null;
+
+  const protonLevel = persistentFlux(protons);
+  const electronLevel = persistentFlux(electrons);
+  return {
+    time: [latestProton?.time, latestElectron?.time].filter((time): time is string => Boolean(time)).sort().pop()!,
+    protonFlux: latestProton?.flux,
+    electronFlux: latestElectron?.flux,
+    protonScale: protonLevel !== null ? fluxToSScale(protonLevel) : 0,
+    chargingRisk: electronLevel !== null ? chargingRiskFor(electronLevel) : 'nominal'
+  };
+}
+
+/**
+ * Solar energetic protons: MEO and GEO are exposed everywhere, LEO only on high-inclination orbits
+ */
+export function isProtonExposed(satellite: Satellite): boolean {
+  return satellite.altitude >= OUTER_BELT_ALTITUDE || satellite.inclination >= POLAR_CAP_INCLINATION;
+}
+
+/**
+ * Relativistic outer-belt electrons: MEO and GEO
+ */
+export function isChargingExposed(satellite: Satellite): boolean {
+  return satellite.altitude >= OUTER_BELT_ALTITUDE;
+}
+
+const SCALE_SEVERITY: Record<RadiationScale, SpaceWeatherAlert['severity']> = {
+  0: 'low', 1: 'low', 2: 'medium', 3: 'high', 4: 'critical', 5: 'critical'
+};
+
+const CHARGING_LEVELS: ChargingRisk[] = ['nominal', 'elevated', 'high'];
+
+const CHARGING_SEVERITY: Record<ChargingRisk, SpaceWeatherAlert['severity']> = {
+  nominal: 'low', elevated: 'medium', high: 'high'
+};
+
+/**
+ * Radiation threats to one satellite, for its threat assessment (severity 0-10)
+ */
+export function radiationThreats(environment: RadiationEnvironment, satellite: Satellite): Threat[] {
+  const threats: Threat[] = [];
+  if (environment.protonScale > 0 && isProtonExposed(satellite)) {
+    threats.push({
+      type: 'radiation',
+      severity: Math.min(10, 1 + 2 * environment.protonScale),
+      description: `${S_SCALE_LABELS[environment.protonScale]} solar radiation storm: single-event upsets, star tracker noise, solar array degradation`
+    });
+  }
+  if (environment.chargingRisk !== 'nominal' && isChargingExposed(satellite)) {
+    threats.push({
+      type: 'radiation',
+      severity: environment.chargingRisk === 'high' ? 7 : 4,
+      description: `${environment.chargingRisk === 'high' ? 'High' : 'Elevated'} deep-dielectric charging risk from ≥2 MeV electrons`
+    });
+  }
+  return threats;
+}
+
+// ==================== ALERTS ====================
+
+/**
+ * Alert for a change of solar radiation storm level, naming the satellites whose orbits the protons reach
+ */
+export function protonTransitionAlert(environment: RadiationEnvironment, previous: RadiationScale, satellites: Satellite[]): SpaceWeatherAlert {
+  const scale = environment.protonScale;
+  const id = `radiation-S${scale}-${new Date(environment.time).getTime()}`;
+  const flux = `≥10 MeV protons ${environment.protonFlux?.toExponential(1) ?? 'N/A'} pfu`;
+  const affectedSatellites = satellites.filter(isProtonExposed).map(sat => sat.id);
+
+  if (scale < previous) {
+    return {
+      id,
+      type: 'radiation',
+      severity: 'low',
+      message: scale === 0
+        ? `Solar radiation storm ended, ${flux}, down from ${S_SCALE_LABELS[previous]}`
+        : `Solar radiation storm eased to ${S_SCALE_LABELS[scale]}, ${flux}`,
+      timestamp: environment.time,
+      affectedSatellites
+    };
+  }
+
+  return {
+    id,
+    type: 'radiation',
+    severity: SCALE_SEVERITY[scale],
+    message: `${S_SCALE_LABELS[scale]} solar radiation storm, ${flux}; exposed: MEO/GEO and LEO above ${POLAR_CAP_INCLINATION}° inclination`,
+    timestamp: environment.time,
+    affectedSatellites,
+    suggestedAction: {
+      id: `action-${id}`,
+      type: scale >= 3 ? 'power_down' : 'monitor',
+      description: scale >= 3
+        ? 'Put radiation-sensitive payloads in safe mode and expect single-event upsets and star tracker outages'
+        : 'Watch for single-event upsets and memory errors on exposed satellites',
+      priority: SCALE_SEVERITY[scale],
+      estimatedTimeToExecute: scale >= 3 ? 10 : 0,
+      successProbability: 1.0
+    }
+  };
+}
+
+/**
+ * Alert for a change of deep-dielectric charging risk, naming MEO and GEO satellites
+ */
+export function chargingTransitionAlert(environment: RadiationEnvironment, previous: ChargingRisk, satellites: Satellite[]): SpaceWeatherAlert {
+  const risk = environment.chargingRisk;
+  const id = `radiation-charging-${risk}-${new Date(environment.time).getTime()}`;
+  const flux = `≥2 MeV electrons ${environment.electronFlux?.toExponential(1) ?? 'N/A'} pfu`;
+  const affectedSatellites = satellites.filter(isChargingExposed).map(sat => sat.id);
+  const rising = CHARGING_LEVELS.indexOf(risk) > CHARGING_LEVELS.indexOf(previous);
+
+  if (!rising) {
+    return {
+      id,
+      type: 'radiation',
+      severity: 'low',
+      message: `Deep-dielectric charging risk down to ${risk} from ${previous}, ${flux}`,
+      timestamp: environment.time,
+      affectedSatellites
+    };
+  }
+
+  return {
+    id,
+    type: 'radiation',
+    severity: CHARGING_SEVERITY[risk],
+    message: `${risk === 'high' ? 'High' : 'Elevated'} deep-dielectric charging risk, ${flux}; exposed: MEO and GEO`,
+    timestamp: environment.time,
+    affectedSatellites,
+    suggestedAction: {
+      id: `action-${id}`,
+      type: 'monitor',
+      description: 'Defer high-voltage and payload reconfiguration operations; watch for phantom commands and discharge anomalies',
+      priority: CHARGING_SEVERITY[risk],
+      estimatedTimeToExecute: 0,
+      successProbability: 1.0
+    }
+  };
+}
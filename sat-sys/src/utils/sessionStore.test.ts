@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GROUND_STATIONS } from '../data/groundStations';
+import { SESSION_STORE, withStore } from './database';
+import { DEFAULT_SESSION_SETTINGS, loadSession, migrateSession, saveSession, SESSION_SCHEMA_VERSION } from './sessionStore';
+
+const storedRecord = () => withStore(SESSION_STORE, 'readonly', store => store.get('current'));
+
+beforeEach(async () => {
+  await withStore(SESSION_STORE, 'readwrite', store => store.clear());
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('migrateSession', () => {
+  it('keeps a current record and fills fields it lacks with defaults', () => {
+    const session = migrateSession({
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      savedAt: '2025-01-01T00:00:00.000Z',
+      dismissedAlertIds: ['alert-1'],
+      settings: { operator: 'ops-1' }
+    });
+
+    expect(session).not.toBeNull();
+    expect(session!.savedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(session!.dismissedAlertIds).toEqual(['alert-1']);
+    expect(session!.satellites).toEqual([]);
+    expect(session!.groundStations).toEqual(DEFAULT_GROUND_STATIONS);
+    expect(session!.settings).toEqual({ ...DEFAULT_SESSION_SETTINGS, operator: 'ops-1' });
+  });
+
+  it('ignores records written by a newer build', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(migrateSession({ schemaVersion: SESSION_SCHEMA_VERSION + 1, satellites: [] })).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('ignores records of a version no migration starts from', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(migrateSession({ schemaVersion: 0, actionLog: [] })).toBeNull();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+});
+
+describe('loadSession', () => {
+  it('returns null when nothing was saved', async () => {
+    expect(await loadSession()).toBeNull();
+  });
+
+  it('reads back a saved session', async () => {
+    await saveSession({ ...migrateSession({ schemaVersion: SESSION_SCHEMA_VERSION })!, dismissedAlertIds: ['alert-1'] });
+    const session = await loadSession();
+    expect(session!.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(session!.dismissedAlertIds).toEqual(['alert-1']);
+    expect(session!.conjunctions).toEqual([]);
+  });
+
+  it('rejects a record written by a newer build and leaves it in place', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const newer = { schemaVersion: SESSION_SCHEMA_VERSION + 1, savedAt: '2025-01-01T00:00:00.000Z', fleet: ['sat-1'] };
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(newer, 'current'));
+
+    await expect(loadSession()).rejects.toThrow(/schema version/);
+    expect(await storedRecord()).toEqual(newer);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Session persistence in IndexedDB: fleet, conjunctions, dismissed alerts, threat assessments, action history and settings
+ * Stored sessions carry a schema version and are migrated to the current one on load
+ */
+
+import { ActionLogEntry, ConjunctionEvent, GroundStation, Satellite, ThreatAssessment } from '../types/Satellite';
+import { PcMethod } from './collisionProbability';
+import { DEFAULT_GROUND_STATIONS } from '../data/groundStations';
+import { SESSION_STORE, withStore } from './database';
+
+const SESSION_KEY = 'current';
+
+export const SESSION_SCHEMA_VERSION = 1; // shape of the stored session record
+
+export interface SessionSettings {
+  operator: string;
+  simulationSpeed: number;
+  screeningHorizonDays: number;
+  pcMethod: PcMethod;
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  operator: '',
+  simulationSpeed: 1,
+  screeningHorizonDays: 7,
+  pcMethod: 'foster'
+};
+
+export interface PersistedSession {
+  schemaVersion: number;
+  savedAt: string; // ISO UTC
+  satellites: Satellite[];
+  conjunctions: ConjunctionEvent[]; // feed, screening and imported events the threat assessments come from
+  dismissedAlertIds: string[];
+  threatAssessments: ThreatAssessment[];
+  actionLog: ActionLogEntry[];
+  groundStations: GroundStation[];
+  settings: SessionSettings;
+}
+
+export type SessionSnapshot = Omit<PersistedSession, 'schemaVersion' | 'savedAt'>;
+
+type StoredSession = Record<string, unknown> & { schemaVersion: number };
+
+/**
+ * Migrations by source version: MIGRATIONS[n] upgrades a version n record to version n + 1.
+ * Version 1 is the first stored schema.
+ */
+const MIGRATIONS: Record<number, (session: StoredSession) => StoredSession> = {};
+
+const emptySession = (): PersistedSession => ({
+  schemaVersion: SESSION_SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  satellites: [],
+  conjunctions: [],
+  dismissedAlertIds: [],
+  threatAssessments: [],
+  actionLog: [],
+  groundStations: DEFAULT_GROUND_STATIONS,
+  settings: DEFAULT_SESSION_SETTINGS
+});
+
+/**
+ * Bring a stored record up to the current schema. Records written by a newer build, or of a version
+ * no migration starts from, are rejected.
+ */
+export function migrateSession(stored: StoredSession): PersistedSession | null {
+  if (stored.schemaVersion > SESSION_SCHEMA_VERSION) {
+    console.warn(`Stored session has schema version ${stored.schemaVersion}, newer than ${SESSION_SCHEMA_VERSION}; ignoring it`);
+    return null;
+  }
+
+  let session = stored;
+  while (session.schemaVersion < SESSION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[session.schemaVersion];
+    if (!migrate) {
+      console.warn(`No migration from session schema version ${session.schemaVersion}; ignoring it`);
+      return null;
+    }
+    session = migrate(session);
+  }
+
+  // Fields missing from older records fall back to defaults
+  const defaults = emptySession();
+  const migrated = { ...defaults, ...session } as PersistedSession;
+  return { ...migrated, settings: { ...defaults.settings, ...migrated.settings } };
+}
+
+/**
+ * Load the saved session, migrating it if needed. Returns null when nothing was saved; throws when the
+ * stored record cannot be read by this build, leaving it in place.
+ */
+export async function loadSession(): Promise<PersistedSession | null> {
+  const stored = await withStore<StoredSession | undefined>(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+  if (!stored) return null;
+
+  const session = migrateSession(stored);
+  if (!session) {
+    throw new Error(`Stored session has schema version ${stored.schemaVersion}, which this build cannot read`);
+  }
+  if (stored.schemaVersion !== session.schemaVersion) {
+    await withStore(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+  }
+  return session;
+}
+
+export async function saveSession(snapshot: SessionSnapshot): Promise<void> {
+  const session: PersistedSession = {
+    ...snapshot,
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    savedAt: new Date().toISOString()
+  };
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+}
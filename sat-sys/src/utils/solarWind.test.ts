@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectShock,
+  detectSouthwardBz,
+  latestValue,
+  leadTimeMinutes,
+  mergeSolarWind,
+  shockAlert,
+  SolarWindSample,
+  southwardBzAlert
+} from './solarWind';
+
+const start = Date.parse('2025-01-01T00:00:00Z');
+const minute = (n: number) => new Date(start + n * 60000).toISOString();
+
+/**
+ * One sample a minute from minute `from`, with the fields given by `at` for each minute
+ */
+const series = (from: number, count: number, at: (n: number) => Omit<SolarWindSample, 'time'>): SolarWindSample[] =>
+  Array.from({ length: count }, (_, i) => ({ time: minute(from + i), ...at(from + i) }));
+
+// Quiet wind for half an hour, then a fast forward shock at minute 30
+const shocked = series(0, 45, n => n < 30
+  ? { speed: 400, density: 5, bt: 5 }
+  : { speed: 550, density: 12, bt: 12 });
+const afterShock = start + 45 * 60000;
+
+describe('detectShock', () => {
+  it('finds the front where speed, density and field all jump', () => {
+    const shock = detectShock(shocked, afterShock);
+
+    expect(shock).toEqual({ time: minute(30), speedBefore: 400, speedAfter: 550, densityRatio: 2.4, fieldRatio: 2.4 });
+  });
+
+  it('ignores a speed jump without compression', () => {
+    const stream = series(0, 45, n => ({ speed: n < 30 ? 400 : 550, density: 5, bt: 5 }));
+    expect(detectShock(stream, afterShock)).toBeNull();
+  });
+
+  it('ignores a jump the magnetic field does not follow, but accepts one with no field data', () => {
+    const unchangedField = shocked.map(sample => ({ ...sample, bt: 5 }));
+    const plasmaOnly = shocked.map(({ bt: _bt, ...sample }) => sample);
+
+    expect(detectShock(unchangedField, afterShock)).toBeNull();
+    expect(detectShock(plasmaOnly, afterShock)).toMatchObject({ time: minute(30), fieldRatio: undefined });
+  });
+
+  it('ignores fronts older than an hour', () => {
+    expect(detectShock(shocked, start + 2 * 3600 * 1000)).toBeNull();
+  });
+
+  it('alerts with the arrival time at Earth and a severity from the downstream speed', () => {
+    const alert = shockAlert(detectShock(shocked, afterShock)!, ['sat-1']);
+
+    // 1.5 million km at 550 km/s is about 45 minutes
+    expect(alert.severity).toBe('high');
+    expect(alert.message).toContain('400 → 550 km/s');
+    expect(alert.message).toContain('~45 min after L1 (~01:15 UTC)');
+    expect(alert.affectedSatellites).toEqual(['sat-1']);
+  });
+});
+
+describe('detectSouthwardBz', () => {
+  it('reports a southward run that has lasted at least 30 minutes', () => {
+    const stream = series(0, 60, n => ({ bz: n < 20 ? 2 : n === 40 ? -22 : -12 }));
+
+    expect(detectSouthwardBz(stream)).toEqual({ start: minute(20), minBz: -22, duration: 39 });
+  });
+
+  it('ignores a transient southward turning', () => {
+    const brief = series(0, 60, n => ({ bz: n >= 45 ? -15 : 2 }));
+    const turnedNorth = series(0, 60, n => ({ bz: n >= 10 && n < 50 ? -15 : 2 }));
+
+    expect(detectSouthwardBz(brief)).toBeNull();
+    expect(detectSouthwardBz(turnedNorth)).toBeNull();
+  });
+
+  it('restarts the run after a sample above the threshold', () => {
+    const steady = series(0, 60, () => ({ bz: -12 }));
+    const interrupted = series(0, 60, n => ({ bz: n === 30 ? -9 : -12 }));
+
+    expect(detectSouthwardBz(steady)).toMatchObject({ start: minute(0), duration: 59 });
+    expect(detectSouthwardBz(interrupted)).toBeNull();
+    expect(detectSouthwardBz([...interrupted, ...series(60, 5, () => ({ bz: -12 }))])).toMatchObject({ start: minute(31), duration: 33 });
+  });
+
+  it('does not end a run on samples without magnetometer data', () => {
+    const stream = series(0, 40, n => (n % 10 === 5 ? { speed: 450 } : { bz: -14 }));
+    expect(detectSouthwardBz(stream)).toMatchObject({ start: minute(0), duration: 39 });
+  });
+
+  it('alerts with the lead time at the current speed', () => {
+    const event = { start: minute(0), minBz: -25, duration: 40 };
+
+    expect(southwardBzAlert(event, 500, []).message).toContain('~50 min after L1 (~00:50 UTC)');
+    expect(southwardBzAlert(event, undefined, []).message).not.toContain('after L1');
+    expect(southwardBzAlert(event, 500, []).severity).toBe('high');
+    expect(southwardBzAlert({ ...event, minBz: -12 }, 500, []).severity).toBe('medium');
+  });
+});
+
+describe('mergeSolarWind', () => {
+  it('joins plasma and magnetometer samples by time tag and keeps the last two hours, oldest first', () => {
+    const now = start + 3 * 3600 * 1000;
+    const history: SolarWindSample[] = [
+      { time: minute(30), speed: 380, density: 4 }, // outside the window
+      { time: minute(90), speed: 400, density: 5 }
+    ];
+    const merged = mergeSolarWind(history, [
+      { time: minute(100), bz: -3, bt: 6 },
+      { time: minute(90), bz: -4, bt: 7, speed: undefined },
+      { time: minute(95), speed: 420 }
+    ], now);
+
+    expect(merged).toEqual([
+      { time: minute(90), speed: 400, density: 5, bz: -4, bt: 7 },
+      { time: minute(95), speed: 420 },
+      { time: minute(100), bz: -3, bt: 6 }
+    ]);
+    expect(latestValue(merged, 'speed')).toBe(420);
+    expect(latestValue(merged, 'density')).toBe(5);
+    expect(latestValue(merged, 'temperature')).toBeUndefined();
+  });
+
+  it('converts speed to the L1-to-Earth travel time', () => {
+    expect(leadTimeMinutes(400)).toBeCloseTo(62.5, 6);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Real-time solar wind at L1 (DSCOVR, ACE backup): interplanetary shock and southward Bz detection,
+ * with the propagation lead time to Earth
+ */
+
+import { SpaceWeatherAlert } from '../types/Satellite';
+
+export interface SolarWindSample {
+  time: string; // ISO UTC
+  speed?: number; // km/s, bulk speed
+  density?: number; // protons/cm³
+  temperature?: number; // K
+  bz?: number; // nT, GSM
+  bt?: number; // nT, total field
+}
+
+export interface ShockEvent {
+  time: string; // first downstream sample
+  speedBefore: number; // km/s
+  speedAfter: number;
+  densityRatio: number;
+  fieldRatio?: number; // absent without magnetometer data
+}
+
+export interface SouthwardBzEvent {
+  start: string;
+  minBz: number; // nT
+  duration: number; // minutes
+}
+
+export const L1_DISTANCE = 1.5e6; // km, Sun-Earth L1 to Earth
+export const SOLAR_WIND_WINDOW = 2 * 3600 * 1000; // ms of samples kept
+
+// Fast forward shock: speed, density and field all jump across the front
+const SHOCK_AVERAGING = 10 * 60 * 1000; // ms averaged on each side of a candidate front
+const SHOCK_MIN_SPEED_JUMP = 20; // km/s
+const SHOCK_MIN_DENSITY_RATIO = 1.2;
+const SHOCK_MIN_FIELD_RATIO = 1.2;
+const SHOCK_LOOKBACK = 60 * 60 * 1000; // ms searched for a front
+
+// Bz at or below this for the duration drives geomagnetic storms
+export const BZ_SOUTH_THRESHOLD = -10; // nT
+export const BZ_SOUTH_DURATION = 30; // minutes
+
+const timeOf = (sample: SolarWindSample) => new Date(sample.time).getTime();
+
+/**
+ * Combine plasma and magnetometer samples by time tag, replacing older values and dropping those outside the window
+ */
+export function mergeSolarWind(history: SolarWindSample[], samples: SolarWindSample[], now: number = Date.now()): SolarWindSample[] {
+  const byTime = new Map<string, SolarWindSample>();
+  [...history, ...samples].forEach(sample => {
+    const existing = byTime.get(sample.time);
+    const defined = Object.fromEntries(Object.entries(sample).filter(([, value]) => value !== undefined));
+    byTime.set(sample.time, { ...existing, ...defined } as SolarWindSample);
+  });
+  return Array.from(byTime.values())
+    .filter(sample => now - timeOf(sample) <= SOLAR_WIND_WINDOW)
+    .sort((a, b) => timeOf(a) - timeOf(b));
+}
+
+/**
+ * Minutes for solar wind at the given speed to travel from L1 to Earth
+ */
+export function leadTimeMinutes(speed: number): number {
+  return L1_DISTANCE / speed / 60;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function average(samples: SolarWindSample[], field: 'speed' | 'density' | 'bt'): number | null {
+  const values = samples.map(sample => sample[field]).filter((value): value is number => value !== undefined && Number.isFinite(value));
+  return values.length >= 3 ? mean(values) : null;
+}
+
+/**
+ * Most recent shock front in the last hour: the sample with the largest speed jump between the
+ * averages before and after it, if speed, density and (when measured) field all jump enough
+ */
+export function detectShock(samples: SolarWindSample[], now: number = Date.now()): ShockEvent | null {
+  let best: ShockEvent | null = null;
+
+  samples.forEach((front, index) => {
+    const frontTime = timeOf(front);
+    if (now - frontTime > SHOCK_LOOKBACK) return;
+
+    const upstream = samples.slice(0, index).filter(sample => frontTime - timeOf(sample) <= SHOCK_AVERAGING);
+    const downstream = samples.slice(index).filter(sample => timeOf(sample) - frontTime < SHOCK_AVERAGING);
+    const speedBefore = average(upstream, 'speed');
+    const speedAfter = average(downstream, 'speed');
+    const densityBefore = average(upstream, 'density');
+    const densityAfter = average(downstream, 'density');
+    if (speedBefore === null || speedAfter === null || !densityBefore || densityAfter === null) return;
+
+    const densityRatio = densityAfter / densityBefore;
+    if (speedAfter - speedBefore < SHOCK_MIN_SPEED_JUMP || densityRatio < SHOCK_MIN_DENSITY_RATIO) return;
+
+    const fieldBefore = average(upstream, 'bt');
+    const fieldAfter = average(downstream, 'bt');
+    const fieldRatio = fieldBefore && fieldAfter !== null ? fieldAfter / fieldBefore : undefined;
+    if (fieldRatio !== undefined && fieldRatio < SHOCK_MIN_FIELD_RATIO) return;
+
+    if (!best || speedAfter - speedBefore > best.speedAfter - best.speedBefore) {
+      best = { time: front.time, speedBefore, speedAfter, densityRatio, fieldRatio };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * The current run of southward Bz, if it has lasted at least BZ_SOUTH_DURATION; gaps in the data do not end a run
+ */
+export function detectSouthwardBz(samples: SolarWindSample[]): SouthwardBzEvent | null {
+  const withBz = samples.filter(sample => sample.bz !== undefined);
+  let start = withBz.length;
+  while (start > 0 && withBz[start - 1].bz! <= BZ_SOUTH_THRESHOLD) start--;
+  if (start === withBz.length) return null;
+
+  const run = withBz.slice(start);
+  const duration = (timeOf(run[run.length - 1]) - timeOf(run[0])) / 60000;
+  if (duration < BZ_SOUTH_DURATION) return null;
+  return { start: run[0].time, minBz: Math.min(...run.map(sample => sample.bz!)), duration };
+}
+
+/**
+ * Latest measured value of a field; the newest sample may lack plasma or field data
+ */
+export function latestValue(samples: SolarWindSample[], field: 'speed' | 'density' | 'temperature' | 'bz' | 'bt'): number | undefined {
+  for (let i = samples.length - 1; i >= 0; i--) {
+    if (samples[i][field] !== undefined) return samples[i][field];
+  }
+  return undefined;
+}
+
+// ==================== ALERTS ====================
+
+const arrival = (time: string, speed: number) => {
+  const minutes = leadTimeMinutes(speed);
+  const at = new Date(new Date(time).getTime() + minutes * 60000);
+  return { minutes, at };
+};
+
+const formatArrival = ({ minutes, at }: { minutes: number; at: Date }) =>
+  `reaches Earth ~${Math.round(minutes)} min after L1 (~${at.toISOString().slice(11, 16)} UTC)`;
+
+export function shockAlert(shock: ShockEvent, satelliteIds: string[]): SpaceWeatherAlert {
+  const id = `solarwind-shock-${new Date(shock.time).getTime()}`;
+  const jump = shock.speedAfter - shock.speedBefore;
+  const severity = shock.speedAfter >= 700 || jump >= 200 ? 'critical' : shock.speedAfter >= 500 || jump >= 100 ? 'high' : 'medium';
+
+  return {
+    id,
+    type: 'solar_wind',
+    severity,
+    message: `Interplanetary shock at L1: speed ${shock.speedBefore.toFixed(0)} → ${shock.speedAfter.toFixed(0)} km/s, ` +
+      `density ×${shock.densityRatio.toFixed(1)}${shock.fieldRatio !== undefined ? `, field ×${shock.fieldRatio.toFixed(1)}` : ''}; ` +
+      formatArrival(arrival(shock.time, shock.speedAfter)),
+    timestamp: shock.time,
+    affectedSatellites: satelliteIds,
+    suggestedAction: {
+      id: `action-${id}`,
+      type: 'monitor',
+      description: 'Expect a sudden storm commencement; postpone non-critical maneuvers and uplinks until the storm level is known',
+      priority: severity,
+      estimatedTimeToExecute: 0,
+      successProbability: 1.0
+    }
+  };
+}
+
+export function southwardBzAlert(event: SouthwardBzEvent, speed: number | undefined, satelliteIds: string[]): SpaceWeatherAlert {
+  const id = `solarwind-bz-${new Date(event.start).getTime()}`;
+  const severity = event.minBz <= -20 ? 'high' : 'medium';
+
+  return {
+    id,
+    type: 'solar_wind',
+    severity,
+    message: `Sustained southward Bz at L1: ${Math.round(event.duration)} min at or below ${BZ_SOUTH_THRESHOLD} nT (min ${event.minBz.toFixed(1)} nT)` +
+      (speed !== undefined ? `; ${formatArrival(arrival(event.start, speed))}` : ''),
+    timestamp: event.start,
+    affectedSatellites: satelliteIds,
+    suggestedAction: {
+      id: `action-${id}`,
+      type: 'monitor',
+      description: 'Geomagnetic storm conditions likely; watch the Kp index and refresh LEO orbit predictions',
+      priority: severity,
+      estimatedTimeToExecute: 0,
+      successProbability: 1.0
+    }
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { Satellite, SpaceWeatherAlert } from '../types/Satellite';
+import { assessFleetImpact, assessSatelliteImpact, magnetopauseStandoff, withImpacts } from './spaceWeatherImpact';
+
+const orbit = (id: string, altitude: number, inclination: number): Satellite => ({
+  id,
+  name: id.toUpperCase(),
+  orbitType: altitude >= 35000 ? 'GEO' : altitude >= 2000 ? 'MEO' : 'LEO',
+  altitude,
+  inclination,
+  velocity: 7.5,
+  eccentricity: 0,
+  rightAscensionOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0
+});
+
+const leoPolar = orbit('leo-polar', 500, 97.4);
+const leoEquatorial = orbit('leo-equatorial', 500, 5);
+const geo = orbit('geo', 35786, 0);
+
+const factorNames = (satellite: Satellite, kp: number) =>
+  assessSatelliteImpact(satellite, { kp }).factors.map(factor => factor.factor);
+
+describe('assessSatelliteImpact', () => {
+  it('scores a polar LEO satellite at Kp 7 on drag and auroral crossings, and suggests an orbit update', () => {
+    const impact = assessSatelliteImpact(leoPolar, { kp: 7 });
+
+    // Storm strength 2/3: drag 10·(2/3)·(5/6), auroral 6·(2/3) with the orbit well inside the oval
+    expect(impact.factors.map(factor => factor.factor)).toEqual(['drag', 'auroral']);
+    expect(impact.factors[0].score).toBeCloseTo(50 / 9, 6);
+    expect(impact.factors[1].score).toBeCloseTo(4, 6);
+    expect(impact.score).toBeCloseTo(50 / 9 + 1, 6);
+    expect(impact.severity).toBe('high');
+    expect(impact.suggestedAction).toMatchObject({ id: 'action-sw-leo-polar-drag', type: 'orbit_adjustment', priority: 'high' });
+  });
+
+  it('scores a GEO satellite at Kp 7 on magnetopause proximity and charging, without drag', () => {
+    const impact = assessSatelliteImpact(geo, { kp: 7 });
+    const apogee = (6371 + 35786) / 6371;
+    const margin = magnetopauseStandoff({ kp: 7 }) - apogee;
+
+    expect(impact.factors.map(factor => factor.factor)).toEqual(['magnetopause', 'charging']);
+    expect(impact.factors[0].score).toBeCloseTo(9 * (1 - margin), 2);
+    expect(impact.factors[1].score).toBeCloseTo(16 / 3, 6);
+    expect(impact.suggestedAction.type).toBe('attitude_change');
+  });
+
+  it('puts GEO outside a compressed magnetopause in a strong solar wind', () => {
+    const drivers = { kp: 7, solarWind: { speed: 800, density: 30, bz: -20 } };
+    const impact = assessSatelliteImpact(geo, drivers);
+
+    expect(magnetopauseStandoff(drivers)).toBeLessThan((6371 + 35786) / 6371);
+    expect(impact.factors[0]).toMatchObject({ factor: 'magnetopause', score: 9 });
+    expect(impact.score).toBe(10);
+    expect(impact.severity).toBe('critical');
+  });
+
+  it('keeps an equatorial LEO orbit out of the auroral oval', () => {
+    expect(factorNames(leoPolar, 7)).toContain('auroral');
+    expect(factorNames(leoEquatorial, 7)).not.toContain('auroral');
+  });
+
+  it('scores single-event upsets from the SAA dwell time, even in quiet conditions', () => {
+    const impact = assessSatelliteImpact(leoEquatorial, { kp: 2 }, 0.15);
+
+    expect(impact.factors.find(factor => factor.factor === 'seu')?.score).toBeCloseTo(3, 6);
+    expect(impact.factors.find(factor => factor.factor === 'drag')?.score).toBe(0);
+    expect(impact.severity).toBe('medium');
+  });
+
+  it('recommends routine monitoring when quiet conditions leave nothing to score', () => {
+    const impact = assessSatelliteImpact(leoPolar, { kp: 2 });
+
+    expect(impact.score).toBe(0);
+    expect(impact.severity).toBe('low');
+    expect(impact.suggestedAction.type).toBe('monitor');
+    expect(impact.suggestedAction.description).toMatch(/No orbit-specific impact/);
+  });
+});
+
+describe('magnetopauseStandoff', () => {
+  it('moves inward with Kp without solar wind data, and with ram pressure and southward Bz with it', () => {
+    expect(magnetopauseStandoff({ kp: 1 })).toBeCloseTo(10, 6);
+    expect(magnetopauseStandoff({ kp: 9 })).toBeCloseTo(6, 6);
+
+    const quiet = magnetopauseStandoff({ kp: 0, solarWind: { speed: 400, density: 5, bz: 0 } });
+    const denser = magnetopauseStandoff({ kp: 0, solarWind: { speed: 400, density: 20, bz: 0 } });
+    const southward = magnetopauseStandoff({ kp: 0, solarWind: { speed: 400, density: 5, bz: -15 } });
+    expect(quiet).toBeGreaterThan(9);
+    expect(quiet).toBeLessThan(12);
+    expect(denser).toBeLessThan(quiet);
+    expect(southward).toBeLessThan(quiet);
+  });
+});
+
+describe('fleet impacts on an alert', () => {
+  const alert: SpaceWeatherAlert = {
+    id: 'kp-storm',
+    type: 'geomagnetic',
+    severity: 'medium',
+    message: 'Kp 7 storm',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    affectedSatellites: ['leo-polar', 'leo-equatorial', 'geo']
+  };
+
+  it('orders the fleet by score, most affected first', () => {
+    const impacts = assessFleetImpact([leoEquatorial, leoPolar, geo], { kp: 7, solarWind: { speed: 800, density: 30, bz: -20 } });
+    expect(impacts.map(impact => impact.satelliteId)).toEqual(['geo', 'leo-polar', 'leo-equatorial']);
+  });
+
+  it('lists only affected satellites and takes the worst severity and the top satellite\'s action', () => {
+    const impacts = assessFleetImpact([leoPolar, leoEquatorial, orbit('high-leo', 1500, 20)], { kp: 7 });
+    const result = withImpacts(alert, impacts);
+
+    // A 1500 km orbit is above the drag ceiling and below the auroral oval at 20° inclination
+    expect(impacts.map(impact => impact.satelliteId)).toEqual(['leo-polar', 'leo-equatorial', 'high-leo']);
+    expect(result.affectedSatellites).toEqual(['leo-polar', 'leo-equatorial']);
+    expect(result.impacts?.map(impact => impact.satelliteId)).toEqual(['leo-polar', 'leo-equatorial']);
+    expect(result.severity).toBe('high');
+    expect(result.suggestedAction).toMatchObject({ id: 'action-kp-storm-leo-polar', type: 'orbit_adjustment' });
+  });
+
+  it('keeps the alert\'s own action and lowers it to low when no satellite is affected', () => {
+    const result = withImpacts(alert, assessFleetImpact([leoPolar, geo], { kp: 2 }));
+
+    expect(result.affectedSatellites).toEqual([]);
+    expect(result.severity).toBe('low');
+    expect(result.suggestedAction).toBeUndefined();
+  });
+});
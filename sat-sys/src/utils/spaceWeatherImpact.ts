@@ -0,0 +1,205 @@
+/**
+ * Per-satellite space weather impact: each satellite's orbit decides which storm effects reach it
+ * (drag, auroral oval crossings, magnetopause crossings, surface charging, SAA single-event upsets)
+ */
+
+import { Satellite, SpaceWeatherAlert, SpaceWeatherImpact, SpaceWeatherImpactFactor, SuggestedAction } from '../types/Satellite';
+import { EARTH_RADIUS } from './orbitalMechanics';
+import { isInSouthAtlanticAnomaly } from './geography';
+import { SatelliteSimulator } from './SatelliteSimulator';
+
+export interface ImpactDrivers {
+  kp: number; // observed or forecast
+  solarWind?: { speed?: number; density?: number; bz?: number }; // km/s, protons/cm³, nT GSM at L1
+}
+
+type Factor = SpaceWeatherImpact['factors'][number];
+
+export const MIN_IMPACT_SCORE = 2; // satellites below this are not listed as affected
+
+const DRAG_CEILING = 1000; // km; storm heating barely changes density above this
+const DRAG_FULL = 400; // km; full drag impact at and below
+const LEO_CEILING = 2000; // km
+const GEO_FLOOR = 20000; // km; GEO-like charging environment from here out
+const DIPOLE_TILT = 10; // degrees between geographic and geomagnetic latitude at most
+const SAA_FULL_DWELL = 0.15; // fraction of time in the SAA scored as fully exposed
+
+const SEVERITY_ORDER = { low: 1, medium: 2, high: 3, critical: 4 };
+
+/**
+ * Storm strength from Kp: 0 at Kp 3, 1 at Kp 9
+ */
+const stormStrength = (kp: number) => Math.min(1, Math.max(0, (kp - 3) / 6));
+
+const severityFor = (score: number): SpaceWeatherImpact['severity'] =>
+  score >= 8 ? 'critical' : score >= 6 ? 'high' : score >= 3 ? 'medium' : 'low';
+
+/**
+ * Subsolar magnetopause distance in Earth radii: Shue et al. (1998) from solar wind pressure and Bz,
+ * or a Kp-based estimate without solar wind data
+ */
+export function magnetopauseStandoff(drivers: ImpactDrivers): number {
+  const { speed, density, bz } = drivers.solarWind ?? {};
+  if (speed === undefined || density === undefined) return 10.5 - 0.5 * drivers.kp;
+  const pressure = 1.6726e-6 * density * speed * speed; // nPa
+  return (10.22 + 1.29 * Math.tanh(0.184 * ((bz ?? 0) + 8.14))) * Math.pow(pressure, -1 / 6.6);
+}
+
+/**
+ * Equatorward edge of the auroral oval in geomagnetic latitude, moving about 2° equatorward per Kp
+ */
+export const auroralBoundary = (kp: number) => 66 - 2 * kp;
+
+/**
+ * Fraction of the next day the satellite spends inside the South Atlantic Anomaly
+ */
+export function saaDwellFraction(simulator: SatelliteSimulator, startTime: number, duration = 86400, step = 60): number {
+  const track = simulator.getGroundTrack(startTime, startTime + duration, step);
+  if (track.length === 0) return 0;
+  return track.filter(point => isInSouthAtlanticAnomaly(point.latitude, point.longitude)).length / track.length;
+}
+
+function impactFactors(satellite: Satellite, drivers: ImpactDrivers, saaFraction?: number): Factor[] {
+  const strength = stormStrength(drivers.kp);
+  const altitude = satellite.altitude;
+  const factors: Factor[] = [];
+
+  if (altitude < DRAG_CEILING) {
+    const weight = Math.min(1, (DRAG_CEILING - altitude) / (DRAG_CEILING - DRAG_FULL));
+    factors.push({
+      factor: 'drag',
+      score: 10 * strength * weight,
+      description: `Storm heating raises thermospheric density at ${altitude.toFixed(0)} km: faster decay and along-track prediction errors`
+    });
+  }
+
+  if (altitude < LEO_CEILING) {
+    const maxLatitude = satellite.inclination <= 90 ? satellite.inclination : 180 - satellite.inclination;
+    const boundary = auroralBoundary(drivers.kp);
+    const depth = Math.min(90, maxLatitude + DIPOLE_TILT) - boundary;
+    if (depth >= 0) {
+      factors.push({
+        factor: 'auroral',
+        score: 6 * strength * Math.min(1, 0.4 + depth / 20),
+        description: `Crosses the auroral oval (edge near ${boundary.toFixed(0)}° magnetic latitude): surface charging and RF/GNSS scintillation on high-latitude passes`
+      });
+    }
+  }
+
+  if (altitude >= LEO_CEILING) {
+    const apogee = (EARTH_RADIUS + altitude) * (1 + (satellite.eccentricity ?? 0)) / EARTH_RADIUS; // Earth radii
+    const standoff = magnetopauseStandoff(drivers);
+    const margin = standoff - apogee;
+    if (margin < 1) {
+      factors.push({
+        factor: 'magnetopause',
+        score: margin <= 0 ? 9 : 9 * (1 - margin),
+        description: margin <= 0
+          ? `Magnetopause compressed to ${standoff.toFixed(1)} Earth radii, inside the orbit: exposed to the solar wind near local noon`
+          : `Magnetopause compressed to ${standoff.toFixed(1)} Earth radii, within ${margin.toFixed(1)} of the orbit`
+      });
+    }
+
+    factors.push({
+      factor: 'charging',
+      score: (altitude >= GEO_FLOOR ? 8 : 5) * strength,
+      description: 'Substorm electron injections: surface charging, strongest from local midnight to dawn'
+    });
+  }
+
+  if (altitude < LEO_CEILING && saaFraction !== undefined && saaFraction > 0) {
+    factors.push({
+      factor: 'seu',
+      score: 10 * Math.min(1, saaFraction / SAA_FULL_DWELL) * (0.3 + 0.4 * strength),
+      description: `${(saaFraction * 100).toFixed(1)}% of the time in the South Atlantic Anomaly: single-event upsets, more frequent as the storm enhances the belts`
+    });
+  }
+
+  return factors.sort((a, b) => b.score - a.score);
+}
+
+const ACTIONS: Record<SpaceWeatherImpactFactor, Pick<SuggestedAction, 'type' | 'description' | 'estimatedTimeToExecute'>> = {
+  drag: {
+    type: 'orbit_adjustment',
+    description: 'Refresh orbit determination and re-screen conjunctions more often; plan a reboost if decay leaves the station-keeping box',
+    estimatedTimeToExecute: 30
+  },
+  auroral: {
+    type: 'monitor',
+    description: 'Move critical uplinks and GNSS-dependent operations away from high-latitude passes',
+    estimatedTimeToExecute: 0
+  },
+  magnetopause: {
+    type: 'attitude_change',
+    description: 'Take magnetometer-based attitude control and magnetorquer dumps out of the loop while outside the magnetopause',
+    estimatedTimeToExecute: 10
+  },
+  charging: {
+    type: 'power_down',
+    description: 'Defer high-voltage and payload switching operations; watch for electrostatic discharge anomalies',
+    estimatedTimeToExecute: 10
+  },
+  seu: {
+    type: 'monitor',
+    description: 'Avoid commanding and software uploads during SAA passes; increase memory scrubbing',
+    estimatedTimeToExecute: 0
+  }
+};
+
+/**
+ * Impact of a space weather event on one satellite; the strongest factor decides the suggested action
+ */
+export function assessSatelliteImpact(satellite: Satellite, drivers: ImpactDrivers, saaFraction?: number): SpaceWeatherImpact {
+  const factors = impactFactors(satellite, drivers, saaFraction);
+  const strongest = factors[0]?.score ?? 0;
+  const others = factors.slice(1).reduce((sum, factor) => sum + factor.score, 0);
+  const score = Math.min(10, strongest + 0.25 * others);
+  const severity = severityFor(score);
+  const action = factors.length > 0 && score >= MIN_IMPACT_SCORE
+    ? ACTIONS[factors[0].factor]
+    : { type: 'monitor' as const, description: 'No orbit-specific impact expected; routine monitoring', estimatedTimeToExecute: 0 };
+
+  return {
+    satelliteId: satellite.id,
+    score,
+    severity,
+    factors,
+    suggestedAction: {
+      id: `action-sw-${satellite.id}-${factors[0]?.factor ?? 'none'}`,
+      ...action,
+      priority: severity,
+      successProbability: 1.0
+    }
+  };
+}
+
+/**
+ * Impacts for a fleet, most affected first
+ */
+export function assessFleetImpact(satellites: Satellite[], drivers: ImpactDrivers, saaFractions: Map<string, number> = new Map()): SpaceWeatherImpact[] {
+  return satellites
+    .map(sat => assessSatelliteImpact(sat, drivers, saaFractions.get(sat.id)))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Attach impacts to an alert: only affected satellites are listed, the alert takes the worst satellite's
+ * severity, and its own suggested action is the one for the most affected satellite
+ */
+export function withImpacts(alert: SpaceWeatherAlert, impacts: SpaceWeatherImpact[]): SpaceWeatherAlert {
+  const affected = impacts.filter(impact => impact.score >= MIN_IMPACT_SCORE);
+  const severity = affected.reduce<SpaceWeatherAlert['severity']>(
+    (worst, impact) => SEVERITY_ORDER[impact.severity] > SEVERITY_ORDER[worst] ? impact.severity : worst,
+    'low'
+  );
+
+  return {
+    ...alert,
+    severity,
+    affectedSatellites: affected.map(impact => impact.satelliteId),
+    impacts: affected,
+    suggestedAction: affected.length > 0
+      ? { ...affected[0].suggestedAction, id: `action-${alert.id}-${affected[0].satelliteId}` }
+      : alert.suggestedAction
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeCatalogNumber,
+  encodeCatalogNumber,
+  meanElementsToTle,
+  meanMotionAltitude,
+  satelliteFromTle,
+  tleChecksum,
+  tleToMeanElements
+} from './tle';
+
+// ISS element set with valid checksums
+const LINE1 = '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927';
+const LINE2 = '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537';
+
+describe('Alpha-5 catalog numbers', () => {
+  it.each([
+    [25544, '25544'],
+    [99999, '99999'],
+    [100000, 'A0000'],
+    [182345, 'J2345'], // I is skipped
+    [234567, 'P4567'], // O is skipped
+    [339999, 'Z9999']
+  ])('encodes %i as %s and back', (catalogNumber, field) => {
+    expect(encodeCatalogNumber(catalogNumber)).toBe(field);
+    expect(decodeCatalogNumber(field)).toBe(String(catalogNumber));
+  });
+
+  it('rejects numbers beyond the Alpha-5 range and malformed fields', () => {
+    expect(() => encodeCatalogNumber(340000)).toThrow('limit 339999');
+    expect(() => encodeCatalogNumber(-1)).toThrow();
+    expect(() => decodeCatalogNumber('1a345')).toThrow('Invalid catalog number');
+  });
+
+  it('reads leading zeros and spaces as the plain number', () => {
+    expect(decodeCatalogNumber('00005')).toBe('5');
+    expect(decodeCatalogNumber('  123')).toBe('123');
+  });
+});
+
+describe('tleChecksum', () => {
+  it('matches the published checksums, counting minus signs as 1', () => {
+    expect(tleChecksum(LINE1)).toBe(7);
+    expect(tleChecksum(LINE2)).toBe(7);
+  });
+});
+
+describe('satelliteFromTle', () => {
+  it('derives the orbit summary from the mean elements', () => {
+    const satellite = satelliteFromTle('ISS (ZARYA)', LINE1, LINE2);
+
+    expect(satellite.id).toBe('25544');
+    expect(satellite.inclination).toBe(51.6416);
+    expect(satellite.eccentricity).toBeCloseTo(0.0006703, 10);
+    expect(satellite.altitude).toBeCloseTo(meanMotionAltitude(15.72125391), 9);
+    expect(satellite.altitude).toBeGreaterThan(340);
+    expect(satellite.altitude).toBeLessThan(360);
+    expect(satellite.orbitType).toBe('LEO');
+  });
+
+  it('rejects corrupted lines', () => {
+    const corrupted = LINE2.slice(0, 20) + '9' + LINE2.slice(21);
+    expect(() => satelliteFromTle('ISS', LINE1, corrupted)).toThrow('Line 2 checksum mismatch');
+    expect(() => satelliteFromTle('ISS', LINE1, LINE2.replace('25544', '25545').slice(0, 68) + '8')).toThrow('Catalog numbers differ');
+  });
+});
+
+describe('mean elements', () => {
+  it('are read from the TLE fields', () => {
+    const elements = tleToMeanElements(LINE1, LINE2);
+
+    expect(elements.epoch).toBe('2008-09-20T12:25:40.104Z');
+    expect(elements.meanMotion).toBe(15.72125391);
+    expect(elements.bstar).toBeCloseTo(-1.1606e-5, 15);
+    expect(elements.meanMotionDot).toBe(-0.00002182);
+    expect(elements.meanMotionDdot).toBe(0);
+    expect(elements.elementSetNo).toBe(292);
+    expect(elements.revAtEpoch).toBe(56353);
+    expect(elements.objectId).toBe('1998-067A');
+  });
+
+  it('regenerate the original TLE lines', () => {
+    expect(meanElementsToTle(25544, tleToMeanElements(LINE1, LINE2))).toEqual({ line1: LINE1, line2: LINE2 });
+  });
+
+  it('write Alpha-5 catalog numbers into both lines', () => {
+    const { line1, line2 } = meanElementsToTle(270001, tleToMeanElements(LINE1, LINE2));
+    expect(line1.slice(2, 7)).toBe('T0001');
+    expect(line2.slice(2, 7)).toBe('T0001');
+    expect(satelliteFromTle('', line1, line2).id).toBe('270001');
+  });
+});
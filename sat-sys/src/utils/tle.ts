@@ -0,0 +1,210 @@
+/**
+ * Two-line element sets: validation, conversion to fleet satellites, and generation from mean elements
+ * Catalog numbers from 100000 to 339999 use the Alpha-5 scheme (A0000 = 100000, I and O skipped)
+ */
+
+import * as satellite from 'satellite.js';
+import { MeanElements, OrbitType, Satellite } from '../types/Satellite';
+import { EARTH_RADIUS, MU_EARTH } from './orbitalMechanics';
+
+const ALPHA5_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const MAX_TLE_CATALOG_NUMBER = 339999;
+
+export const circularVelocity = (altitude: number) => Math.sqrt(MU_EARTH / (EARTH_RADIUS + altitude));
+
+/**
+ * Altitude of the mean semi-major axis for a mean motion in rev/day
+ */
+export function meanMotionAltitude(meanMotion: number): number {
+  const n = meanMotion * 2 * Math.PI / 86400; // rad/s
+  return Math.cbrt(MU_EARTH / (n * n)) - EARTH_RADIUS;
+}
+
+export function classifyOrbit(altitude: number, inclination: number): OrbitType {
+  if (altitude >= 35000) return 'GEO';
+  if (altitude >= 2000) return 'MEO';
+  return inclination >= 80 && inclination <= 100 ? 'Polar' : 'LEO';
+}
+
+/**
+ * Five-character TLE catalog field for a NORAD catalog number
+ */
+export function encodeCatalogNumber(catalogNumber: number): string {
+  if (!Number.isInteger(catalogNumber) || catalogNumber < 0 || catalogNumber > MAX_TLE_CATALOG_NUMBER) {
+    throw new Error(`Catalog number ${catalogNumber} cannot be written in a TLE (limit ${MAX_TLE_CATALOG_NUMBER})`);
+  }
+  if (catalogNumber < 100000) return String(catalogNumber).padStart(5, '0');
+  return ALPHA5_LETTERS[Math.floor(catalogNumber / 10000) - 10] + String(catalogNumber % 10000).padStart(4, '0');
+}
+
+/**
+ * NORAD catalog number from a TLE catalog field, as a string without leading zeros
+ */
+export function decodeCatalogNumber(field: string): string {
+  const trimmed = field.trim();
+  const letter = ALPHA5_LETTERS.indexOf(trimmed[0]?.toUpperCase());
+  if (letter >= 0) return String((letter + 10) * 10000 + Number(trimmed.slice(1)));
+  if (!/^\d+$/.test(trimmed)) throw new Error(`Invalid catalog number "${field}"`);
+  return String(Number(trimmed));
+}
+
+export function tleChecksum(line: string): number {
+  let sum = 0;
+  for (const char of line.slice(0, 68)) {
+    if (char >= '0' && char <= '9') sum += Number(char);
+    else if (char === '-') sum += 1;
+  }
+  return sum % 10;
+}
+
+function validateTleLine(line: string, lineNumber: 1 | 2) {
+  if (line.length !== 69) throw new Error(`Line ${lineNumber} has ${line.length} characters, expected 69`);
+  if (!line.startsWith(`${lineNumber} `)) throw new Error(`Line ${lineNumber} must start with "${lineNumber} "`);
+  if (Number(line[68]) !== tleChecksum(line)) throw new Error(`Line ${lineNumber} checksum mismatch`);
+}
+
+/**
+ * Build a fleet satellite from a validated TLE; orbit summary fields are derived from the mean elements
+ */
+export function satelliteFromTle(name: string, line1: string, line2: string): Satellite {
+  validateTleLine(line1, 1);
+  validateTleLine(line2, 2);
+  if (line1.slice(2, 7) !== line2.slice(2, 7)) {
+    throw new Error(`Catalog numbers differ between lines (${line1.slice(2, 7)} / ${line2.slice(2, 7)})`);
+  }
+  const catalogNumber = decodeCatalogNumber(line1.slice(2, 7));
+
+  const satrec = satellite.twoline2satrec(line1, line2);
+  if (satrec.error !== 0) throw new Error(`SGP4 cannot initialize this element set (error ${satrec.error})`);
+
+  const inclination = Number(line2.slice(8, 16));
+  const altitude = meanMotionAltitude(Number(line2.slice(52, 63)));
+
+  return {
+    id: catalogNumber,
+    name: name || `NORAD ${catalogNumber}`,
+    orbitType: classifyOrbit(altitude, inclination),
+    altitude,
+    inclination,
+    velocity: circularVelocity(altitude),
+    eccentricity: Number(`0.${line2.slice(26, 33).trim()}`),
+    argumentOfPeriapsis: Number(line2.slice(34, 42)),
+    rightAscensionOfAscendingNode: Number(line2.slice(17, 25)),
+    meanAnomaly: Number(line2.slice(43, 51)),
+    noradId: catalogNumber,
+    tle: { line1, line2 }
+  };
+}
+
+/**
+ * Assumed-decimal exponent field, e.g. " 10270-3" -> 0.0001027
+ */
+const parseExponent = (field: string) => {
+  const sign = field[0] === '-' ? -1 : 1;
+  return sign * Number(`0.${field.slice(1, 6)}`) * 10 ** Number(field.slice(6, 8));
+};
+
+/**
+ * Mean elements read back from TLE lines
+ */
+export function tleToMeanElements(line1: string, line2: string): MeanElements {
+  const year = Number(line1.slice(18, 20));
+  const dayOfYear = Number(line1.slice(20, 32));
+  const epoch = Date.UTC(year < 57 ? 2000 + year : 1900 + year, 0, 1) + (dayOfYear - 1) * 86400000;
+  const designator = line1.slice(9, 17).trim().match(/^(\d{2})(\d{3})([A-Z]{1,3})$/);
+
+  return {
+    epoch: new Date(epoch).toISOString(),
+    meanMotion: Number(line2.slice(52, 63)),
+    eccentricity: Number(`0.${line2.slice(26, 33).trim()}`),
+    inclination: Number(line2.slice(8, 16)),
+    rightAscensionOfAscendingNode: Number(line2.slice(17, 25)),
+    argumentOfPericenter: Number(line2.slice(34, 42)),
+    meanAnomaly: Number(line2.slice(43, 51)),
+    bstar: parseExponent(line1.slice(53, 61)),
+    meanMotionDot: Number(line1.slice(33, 43)),
+    meanMotionDdot: parseExponent(line1.slice(44, 52)),
+    ephemerisType: Number(line1[62]) || 0,
+    classificationType: line1[7],
+    elementSetNo: Number(line1.slice(64, 68)),
+    revAtEpoch: Number(line2.slice(63, 68)),
+    objectId: designator
+      ? `${Number(designator[1]) < 57 ? '20' : '19'}${designator[1]}-${designator[2]}${designator[3]}`
+      : undefined
+  };
+}
+
+// ==================== GENERATION ====================
+
+const withChecksum = (line: string) => line + tleChecksum(line);
+
+const angle = (degrees: number) => degrees.toFixed(4).padStart(8, ' ');
+
+/**
+ * First derivative field: sign and eight decimals without the leading zero, e.g. " .00016717"
+ */
+function formatFirstDerivative(value: number): string {
+  return (value < 0 ? '-' : ' ') + Math.abs(value).toFixed(8).replace(/^0/, '');
+}
+
+/**
+ * Assumed-decimal exponent field, e.g. 0.0001027 -> " 10270-3"
+ */
+function formatExponent(value: number): string {
+  if (value === 0) return ' 00000-0';
+  let exponent = Math.floor(Math.log10(Math.abs(value))) + 1;
+  let mantissa = Math.round(Math.abs(value) / 10 ** exponent * 1e5);
+  if (mantissa >= 1e5) {
+    mantissa = Math.round(mantissa / 10);
+    exponent++;
+  }
+  if (exponent < -9) return ' 00000-0';
+  if (exponent > 9) throw new Error(`Value ${value} is too large for a TLE field`);
+  return `${value < 0 ? '-' : ' '}${String(mantissa).padStart(5, '0')}${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+}
+
+/**
+ * Epoch as two-digit year and fractional day of year, e.g. "24001.50000000"
+ */
+function formatEpoch(epoch: string): string {
+  const date = new Date(epoch);
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const dayOfYear = (date.getTime() - yearStart) / 86400000 + 1;
+  return String(date.getUTCFullYear() % 100).padStart(2, '0') + dayOfYear.toFixed(8).padStart(12, '0');
+}
+
+/**
+ * International designator "1998-067A" as the TLE's "98067A"
+ */
+function formatDesignator(objectId?: string): string {
+  const match = objectId?.match(/^\d{2}(\d{2})-(\d{3})([A-Z]{1,3})$/);
+  return (match ? `${match[1]}${match[2]}${match[3]}` : '').padEnd(8, ' ');
+}
+
+/**
+ * Generate TLE lines from mean elements, for SGP4 propagation of OMM data
+ */
+export function meanElementsToTle(catalogNumber: number, elements: MeanElements): { line1: string; line2: string } {
+  const catalog = encodeCatalogNumber(catalogNumber);
+  const line1 = [
+    `1 ${catalog}${elements.classificationType ?? 'U'}`,
+    formatDesignator(elements.objectId),
+    formatEpoch(elements.epoch),
+    formatFirstDerivative(elements.meanMotionDot),
+    formatExponent(elements.meanMotionDdot),
+    formatExponent(elements.bstar),
+    String(elements.ephemerisType ?? 0),
+    String((elements.elementSetNo ?? 999) % 10000).padStart(4, ' ')
+  ].join(' ');
+  const line2 = [
+    `2 ${catalog}`,
+    angle(elements.inclination),
+    angle(elements.rightAscensionOfAscendingNode),
+    elements.eccentricity.toFixed(7).slice(2),
+    angle(elements.argumentOfPericenter),
+    angle(elements.meanAnomaly),
+    elements.meanMotion.toFixed(8).padStart(11, ' ') + String((elements.revAtEpoch ?? 0) % 100000).padStart(5, ' ')
+  ].join(' ');
+
+  return { line1: withChecksum(line1), line2: withChecksum(line2) };
+}
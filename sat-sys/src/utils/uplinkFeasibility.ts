@@ -0,0 +1,104 @@
+/**
+ * Command uplink feasibility for suggested actions
+ * An action can run only if its commands fit in a ground contact that ends before the burn
+ * (or TCA for actions without a burn) and the satellite carries enough propellant
+ */
+
+import { ContactWindow, Satellite, SuggestedAction } from '../types/Satellite';
+
+export type UplinkStatus = 'feasible' | 'rescheduled' | 'blocked';
+
+export interface UplinkAssessment {
+  status: UplinkStatus;
+  reason: string;
+  contact?: ContactWindow;
+  uplinkStart?: string; // ISO UTC
+  uplinkEnd?: string; // ISO UTC, commands loaded on board
+}
+
+export interface UplinkRequest {
+  action: SuggestedAction;
+  satellite?: Satellite;
+  contactWindows: ContactWindow[]; // this satellite's contacts, sorted by AOS
+  now: Date;
+  deadline: Date; // latest time the action may take effect, usually TCA
+}
+
+interface UplinkSlot {
+  contact: ContactWindow;
+  start: number; // ms
+  end: number; // ms
+}
+
+const formatTime = (ms: number) => new Date(ms).toISOString().replace('T', ' ').slice(0, 19) + ' UTC';
+
+/**
+ * Earliest contact with enough time left to uplink, finishing no later than latestEnd
+ */
+function firstUplinkSlot(windows: ContactWindow[], now: Date, duration: number, latestEnd: Date): UplinkSlot | null {
+  for (const contact of windows) {
+    const start = Math.max(new Date(contact.aos).getTime(), now.getTime());
+    const end = start + duration * 1000;
+    if (start > latestEnd.getTime()) break;
+    if (end <= new Date(contact.los).getTime() && end <= latestEnd.getTime()) {
+      return { contact, start, end };
+    }
+  }
+  return null;
+}
+
+const fromSlot = (status: UplinkStatus, reason: string, slot: UplinkSlot): UplinkAssessment => ({
+  status,
+  reason,
+  contact: slot.contact,
+  uplinkStart: new Date(slot.start).toISOString(),
+  uplinkEnd: new Date(slot.end).toISOString()
+});
+
+/**
+ * Check whether an action can be uplinked in time. A burn whose planned time cannot be met
+ * is reported as rescheduled when a later contact still completes before the deadline.
+ */
+export function assessUplinkFeasibility({ action, satellite, contactWindows, now, deadline }: UplinkRequest): UplinkAssessment {
+  const fuel = action.estimatedFuelCost ?? 0;
+  const spacecraft = satellite?.spacecraft;
+  if (spacecraft && fuel > spacecraft.propellantMass) {
+    return {
+      status: 'blocked',
+      reason: `Insufficient propellant: ${fuel.toFixed(3)} kg needed, ${spacecraft.propellantMass.toFixed(3)} kg on board`
+    };
+  }
+
+  const duration = (action.estimatedTimeToExecute ?? 0) * 60;
+  const minutes = `${action.estimatedTimeToExecute ?? 0}-minute`;
+  const burnTime = action.parameters?.burnTime ? new Date(action.parameters.burnTime) : null;
+
+  const planned = firstUplinkSlot(contactWindows, now, duration, burnTime && burnTime < deadline ? burnTime : deadline);
+  if (planned) {
+    return fromSlot(
+      'feasible',
+      `Uplink via ${planned.contact.stationName} from ${formatTime(planned.start)} to ${formatTime(planned.end)}` +
+        (burnTime ? `, before the burn at ${formatTime(burnTime.getTime())}` : ''),
+      planned
+    );
+  }
+
+  if (burnTime) {
+    const later = firstUplinkSlot(contactWindows, now, duration, deadline);
+    if (later) {
+      return fromSlot(
+        'rescheduled',
+        `No ${minutes} contact before the planned burn at ${formatTime(burnTime.getTime())}; ` +
+          `uplink via ${later.contact.stationName} from ${formatTime(later.start)}, burn moved after ${formatTime(later.end)}`,
+        later
+      );
+    }
+  }
+
+  return {
+    status: 'blocked',
+    reason: contactWindows.length === 0
+      ? `No ground contact predicted before TCA at ${formatTime(deadline.getTime())}`
+      : `No ground contact with ${minutes} uplink time left before TCA at ${formatTime(deadline.getTime())}`
+  };
+}